@@ -19,7 +19,8 @@ import {
   MapPin,
   Menu,
   X,
-  HelpCircle
+  HelpCircle,
+  Upload
 } from 'lucide-react';
 import { WalkthroughPlayer } from './components/WalkthroughPlayer';
 import locationTour from './walkthroughs/locations.json';
@@ -28,7 +29,7 @@ import characterVaultTour from './walkthroughs/character_vault.json';
 import characterModalTour from './walkthroughs/character_modal.json';
 import { onAuthStateChanged, User as FirebaseUser } from 'firebase/auth';
 
-import { Project, Character, ViewState, ComicMode, AVAILABLE_VOICES, Storyboard, AppSettings } from './types';
+import { Project, Character, ViewState, ComicMode, AVAILABLE_VOICES, Storyboard, AppSettings, StylePreset } from './types';
 import CharacterVault from './components/CharacterVault';
 import LocationVault from './components/LocationVault';
 import Studio from './components/Studio';
@@ -39,12 +40,17 @@ import {
   logout,
   subscribeToProjects,
   subscribeToCharacters,
+  subscribeToStylePresets,
   saveProjectToFirestore,
   saveSettingsToFirestore,
   getSettingsFromFirestore,
   deleteProjectFromFirestore,
-  updateProjectMetadata
+  updateProjectMetadata,
+  uploadStoryboardImageFromFile
 } from './services/firebase';
+import { setAIProvider } from './services/ai';
+import { readComicArchive } from './services/comicArchive';
+import { isProjectBundle, importProjectBundle } from './services/projectBundle';
 
 const INITIAL_SETTINGS: AppSettings = {
   defaultNarratorVoiceId: AVAILABLE_VOICES[0].id,
@@ -68,6 +74,7 @@ const App = () => {
   const [view, setView] = useState<ViewState>(ViewState.DASHBOARD);
   const [projects, setProjects] = useState<Project[]>([]);
   const [characters, setCharacters] = useState<Character[]>([]);
+  const [stylePresets, setStylePresets] = useState<StylePreset[]>([]);
   const [settings, setSettings] = useState<AppSettings>(INITIAL_SETTINGS);
 
   const [activeProjectId, setActiveProjectId] = useState<string | null>(null);
@@ -78,6 +85,10 @@ const App = () => {
   const [newProjectSummary, setNewProjectSummary] = useState('');
   const [newProjectMode, setNewProjectMode] = useState<ComicMode>('static');
 
+  // Comic Archive Import State
+  const [importStatus, setImportStatus] = useState<string | null>(null);
+  const importInputRef = useRef<HTMLInputElement>(null);
+
   // Edit Project Modal State
   const [showEditProjectModal, setShowEditProjectModal] = useState(false);
   const [editingProjectId, setEditingProjectId] = useState<string | null>(null);
@@ -165,11 +176,13 @@ const App = () => {
     if (!user) {
       setProjects([]);
       setCharacters([]);
+      setStylePresets([]);
       return;
     }
 
     const unsubProjects = subscribeToProjects(user.uid, setProjects);
     const unsubCharacters = subscribeToCharacters(user.uid, setCharacters);
+    const unsubStylePresets = subscribeToStylePresets(user.uid, setStylePresets);
     const unsubSettings = getSettingsFromFirestore(user.uid, (fetchedSettings) => {
       if (fetchedSettings) {
         // Merge with initial settings to ensure all required fields exist (e.g. if new fields were added to types)
@@ -183,10 +196,16 @@ const App = () => {
     return () => {
       unsubProjects();
       unsubCharacters();
+      unsubStylePresets();
       unsubSettings();
     };
   }, [user]);
 
+  // Keep the active AI backend in sync with the user's preference
+  useEffect(() => {
+    setAIProvider(settings.aiProvider);
+  }, [settings.aiProvider]);
+
   // 4. Save Settings when changed
   const updateSettings = (newSettings: AppSettings) => {
     setSettings(newSettings);
@@ -216,6 +235,59 @@ const App = () => {
     setNewProjectSummary('');
   };
 
+  // Imports a project bundle, or a CBZ as a new static project (one storyboard per page)
+  const handleImportArchive = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !user) return;
+
+    setImportStatus('Reading archive...');
+    try {
+      if (await isProjectBundle(file)) {
+        const imported = await importProjectBundle(user.uid, file, setImportStatus);
+        setActiveProjectId(imported.id);
+        setView(ViewState.STUDIO);
+        return;
+      }
+
+      const comic = await readComicArchive(file);
+
+      const storyboards: Storyboard[] = [];
+      for (let i = 0; i < comic.pages.length; i++) {
+        setImportStatus(`Uploading page ${i + 1} of ${comic.pages.length}...`);
+        const imageUrl = await uploadStoryboardImageFromFile(user.uid, comic.pages[i]);
+        storyboards.push({
+          id: Date.now().toString() + Math.random().toString(),
+          description: '',
+          dialogue: '',
+          imageUrl,
+          isGeneratingImage: false,
+          isGeneratingVideo: false,
+          isGeneratingAudio: false,
+        });
+      }
+
+      const newProject: Project = {
+        id: Date.now().toString(),
+        title: comic.title,
+        summary: comic.summary,
+        mode: 'static',
+        createdAt: Date.now(),
+        storyboards,
+      };
+
+      await saveProjectToFirestore(user.uid, newProject);
+
+      setActiveProjectId(newProject.id);
+      setView(ViewState.STUDIO);
+    } catch (error) {
+      console.error("Comic archive import failed:", error);
+      alert(`Import failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setImportStatus(null);
+    }
+  };
+
   const handleUpdateProject = async () => {
     if (!editingProjectId || !user || !editProjectTitle.trim()) return;
 
@@ -424,18 +496,20 @@ const App = () => {
           <CharacterVault
             characters={characters}
             user={user}
+            promptTemplates={settings.promptTemplates}
             onModalStateChange={setIsCharacterModalOpen}
             onStartTour={() => setShowWalkthrough(true)}
           />
         );
       case ViewState.LOCATIONS:
-        return <LocationVault user={user} />;
+        return <LocationVault user={user} promptTemplates={settings.promptTemplates} />;
       case ViewState.STUDIO:
         if (!activeProject || !user) return <div className="text-white p-8">Project or user not found.</div>;
         return (
           <Studio
             project={activeProject}
             characters={characters}
+            stylePresets={stylePresets}
             settings={settings}
             user={user}
             onUpdateStoryboards={(storyboards) => handleProjectUpdate(activeProject.id, storyboards)}
@@ -452,6 +526,7 @@ const App = () => {
         return (
           <Settings
             settings={settings}
+            stylePresets={stylePresets}
             user={user}
             onUpdateSettings={updateSettings}
             onLogout={logout}
@@ -473,13 +548,31 @@ const App = () => {
                 <h1 className="text-3xl font-bold text-white mb-2">Projects</h1>
                 <p className="text-slate-400">Manage your comic strips and motion videos.</p>
               </div>
-              <button
-                onClick={() => setShowNewProjectModal(true)}
-                className="flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-6 py-3 md:px-4 md:py-2 rounded-lg transition-all shadow-lg shadow-indigo-500/20 w-full md:w-auto"
-              >
-                <Plus size={20} />
-                New Project
-              </button>
+              <div className="flex flex-col md:flex-row gap-3 w-full md:w-auto">
+                <input
+                  ref={importInputRef}
+                  type="file"
+                  accept=".cbz,.zip,application/vnd.comicbook+zip,application/zip"
+                  className="hidden"
+                  onChange={handleImportArchive}
+                />
+                <button
+                  onClick={() => importInputRef.current?.click()}
+                  disabled={importStatus !== null}
+                  className="flex items-center justify-center gap-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-70 text-slate-200 border border-slate-700 px-6 py-3 md:px-4 md:py-2 rounded-lg transition-all w-full md:w-auto"
+                  title="Import a project bundle or a CBZ comic as a new project"
+                >
+                  {importStatus ? <Loader2 size={20} className="animate-spin" /> : <Upload size={20} />}
+                  {importStatus || 'Import'}
+                </button>
+                <button
+                  onClick={() => setShowNewProjectModal(true)}
+                  className="flex items-center justify-center gap-2 bg-indigo-600 hover:bg-indigo-500 text-white px-6 py-3 md:px-4 md:py-2 rounded-lg transition-all shadow-lg shadow-indigo-500/20 w-full md:w-auto"
+                >
+                  <Plus size={20} />
+                  New Project
+                </button>
+              </div>
             </div>
 
             <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6">
@@ -0,0 +1,109 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Clapperboard, ArrowRight } from 'lucide-react';
+import { PanelAnimation, VIDEO_DURATIONS } from '../types';
+
+interface Props {
+  title: string;
+  firstFrameUrl: string; // The storyboard's image
+  nextFrameUrl?: string; // The next storyboard's image, offered as the last frame
+  hasVideo: boolean; // The storyboard already has a clip, which the animation replaces
+  onAnimate: (animation: PanelAnimation) => void;
+  onClose: () => void;
+}
+
+// Image-to-video options: motion prompt, duration and an optional last frame
+const AnimatePanelModal: React.FC<Props> = ({ title, firstFrameUrl, nextFrameUrl, hasVideo, onAnimate, onClose }) => {
+  const [motionPrompt, setMotionPrompt] = useState('');
+  const [durationSeconds, setDurationSeconds] = useState(VIDEO_DURATIONS[VIDEO_DURATIONS.length - 1]);
+  const [endOnNext, setEndOnNext] = useState(false);
+
+  const handleAnimate = () => {
+    onAnimate({
+      firstFrameUrl,
+      ...(endOnNext && nextFrameUrl ? { lastFrameUrl: nextFrameUrl } : {}),
+      ...(motionPrompt.trim() ? { motionPrompt: motionPrompt.trim() } : {}),
+      durationSeconds,
+    });
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center sm:p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose} />
+      <div className="bg-slate-900 border-t md:border border-slate-800 rounded-t-2xl md:rounded-2xl w-full max-w-lg max-h-[90vh] flex flex-col shadow-2xl animate-slide-up z-10">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <Clapperboard size={16} className="text-indigo-400" /> Animate Panel — {title}
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded-full text-slate-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto custom-scrollbar space-y-4">
+          <div className="flex items-center gap-2">
+            <div className="flex-1 min-w-0">
+              <p className="text-[10px] uppercase font-bold text-slate-500 mb-1">First frame</p>
+              <img src={firstFrameUrl} alt="" className="w-full aspect-video object-contain bg-black rounded-lg border border-slate-800" />
+            </div>
+            {endOnNext && nextFrameUrl && (
+              <>
+                <ArrowRight size={16} className="text-slate-500 shrink-0 mt-4" />
+                <div className="flex-1 min-w-0">
+                  <p className="text-[10px] uppercase font-bold text-slate-500 mb-1">Last frame</p>
+                  <img src={nextFrameUrl} alt="" className="w-full aspect-video object-contain bg-black rounded-lg border border-slate-800" />
+                </div>
+              </>
+            )}
+          </div>
+
+          {nextFrameUrl && (
+            <label className="flex items-center gap-2 text-xs text-slate-300 cursor-pointer">
+              <input type="checkbox" checked={endOnNext} onChange={(e) => setEndOnNext(e.target.checked)} className="accent-indigo-500" />
+              End on the next storyboard's image
+            </label>
+          )}
+
+          <div>
+            <label className="block text-xs text-slate-500 font-bold uppercase mb-1">Motion</label>
+            <textarea
+              value={motionPrompt}
+              onChange={(e) => setMotionPrompt(e.target.value)}
+              placeholder="e.g. Slow push-in while she turns to the window, rain streaks down the glass"
+              className="w-full bg-slate-950 border border-slate-800 rounded-lg p-2.5 text-sm text-white focus:outline-none focus:border-indigo-500 h-20 resize-none"
+            />
+          </div>
+
+          <div className="flex items-center justify-between gap-2">
+            <span className="text-xs text-slate-500 font-bold uppercase">Duration</span>
+            <div className="flex bg-slate-950 border border-slate-800 rounded-lg p-0.5">
+              {VIDEO_DURATIONS.map(seconds => (
+                <button
+                  key={seconds}
+                  onClick={() => setDurationSeconds(seconds)}
+                  className={`px-2.5 py-0.5 rounded-md text-xs transition-colors ${durationSeconds === seconds ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-white'}`}
+                >
+                  {seconds}s
+                </button>
+              ))}
+            </div>
+          </div>
+
+          {hasVideo && <p className="text-[11px] text-amber-400">The new clip replaces this storyboard's current video.</p>}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex justify-end shrink-0">
+          <button
+            onClick={handleAnimate}
+            className="px-4 py-2 text-sm font-bold bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg flex items-center gap-2"
+          >
+            <Clapperboard size={14} /> Animate
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default AnimatePanelModal;
@@ -0,0 +1,238 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Scissors, Play, Wand2, RotateCcw, Check, Loader2, AlertTriangle } from 'lucide-react';
+import { AudioClipEdit } from '../types';
+import { MAX_GAIN_DB, MAX_FADE, createAudioEdit, isNeutralAudioEdit, getEditedDuration, loadAudioBuffer, detectSilenceTrim, renderAudioEdit } from '../services/audioEdits';
+import { encodeWav, getWaveformPeaks } from '../services/voiceRecording';
+import Waveform from './Waveform';
+
+export interface EditableAudioClip {
+  key: string; // '' for the storyboard track, otherwise the line id
+  label: string;
+  url: string;
+  edit?: AudioClipEdit;
+}
+
+interface Props {
+  title: string;
+  clips: EditableAudioClip[];
+  isSaving: boolean;
+  onSave: (key: string, wavDataUrl: string | null, edit?: AudioClipEdit) => void; // null = back to the original
+  onClose: () => void;
+}
+
+const WAVEFORM_BARS = 160;
+const MIN_LENGTH = 0.1; // Seconds a trim must leave
+
+// Trim in/out, gain and fades for one audio clip of a storyboard, always applied to the original file
+const AudioClipEditor: React.FC<Props> = ({ title, clips, isSaving, onSave, onClose }) => {
+  const [clipKey, setClipKey] = useState(clips[0]?.key ?? '');
+  const [buffer, setBuffer] = useState<AudioBuffer | null>(null);
+  const [peaks, setPeaks] = useState<number[]>([]);
+  const [edit, setEdit] = useState<AudioClipEdit | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const [previewUrl, setPreviewUrl] = useState<string | null>(null);
+  const [progress, setProgress] = useState<number | undefined>(undefined);
+  const audioRef = useRef<HTMLAudioElement>(null);
+
+  const clip = clips.find(c => c.key === clipKey);
+
+  useEffect(() => {
+    if (!clip) return;
+    let cancelled = false;
+    const originalUrl = clip.edit?.originalUrl || clip.url;
+    setBuffer(null);
+    setError(null);
+    setPreviewUrl(null);
+    setProgress(undefined);
+
+    loadAudioBuffer(originalUrl)
+      .then(loaded => {
+        if (cancelled) return;
+        setBuffer(loaded);
+        setPeaks(getWaveformPeaks(loaded, WAVEFORM_BARS));
+        setEdit(clip.edit || createAudioEdit(originalUrl));
+      })
+      .catch(err => {
+        console.error("Failed to load audio clip:", err);
+        if (!cancelled) setError('The clip could not be loaded. If this is a CORS error, configure your storage bucket.');
+      });
+    return () => { cancelled = true; };
+  }, [clipKey]);
+
+  const update = (changes: Partial<AudioClipEdit>) => {
+    if (!edit) return;
+    setEdit({ ...edit, ...changes });
+    setPreviewUrl(null);
+  };
+
+  const render = async (): Promise<string> => encodeWav(await renderAudioEdit(buffer!, edit!));
+
+  const handlePreview = async () => {
+    if (!buffer || !edit) return;
+    setIsRendering(true);
+    try {
+      setPreviewUrl(await render());
+      setTimeout(() => audioRef.current?.play(), 0);
+    } catch (err) {
+      console.error("Audio preview failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const handleSave = async () => {
+    if (!buffer || !edit) return;
+    if (isNeutralAudioEdit(edit)) {
+      onSave(clipKey, null);
+      return;
+    }
+    setIsRendering(true);
+    try {
+      onSave(clipKey, await render(), edit);
+    } catch (err) {
+      console.error("Audio render failed:", err);
+      setError(err instanceof Error ? err.message : String(err));
+    } finally {
+      setIsRendering(false);
+    }
+  };
+
+  const duration = buffer?.duration || 0;
+  const editedDuration = edit ? getEditedDuration(duration, edit) : 0;
+  const isBusy = isRendering || isSaving;
+
+  const slider = (label: string, value: number, min: number, max: number, step: number, format: (v: number) => string, onChange: (v: number) => void) => (
+    <label className="flex items-center gap-3 text-xs text-slate-400">
+      <span className="w-20 shrink-0">{label}</span>
+      <input
+        type="range"
+        min={min}
+        max={max}
+        step={step}
+        value={value}
+        onChange={(e) => onChange(parseFloat(e.target.value))}
+        disabled={isBusy}
+        className="flex-1 accent-indigo-500"
+      />
+      <span className="w-14 text-right font-mono text-slate-300">{format(value)}</span>
+    </label>
+  );
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center sm:p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={isBusy ? undefined : onClose} />
+      <div className="bg-slate-900 border-t md:border border-slate-800 rounded-t-2xl md:rounded-2xl w-full max-w-xl max-h-[90vh] flex flex-col shadow-2xl animate-slide-up z-10">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <Scissors size={16} className="text-indigo-400" /> Edit Audio — {title}
+          </h3>
+          <button onClick={onClose} disabled={isBusy} className="p-1 hover:bg-slate-800 rounded-full text-slate-400 disabled:opacity-40">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto custom-scrollbar space-y-4">
+          {clips.length > 1 && (
+            <select
+              value={clipKey}
+              onChange={(e) => setClipKey(e.target.value)}
+              disabled={isBusy}
+              className="w-full bg-slate-950 border border-slate-800 rounded-lg p-2 text-xs text-white focus:border-indigo-500 outline-none"
+            >
+              {clips.map(c => (
+                <option key={c.key} value={c.key}>{c.label}{c.edit ? ' (edited)' : ''}</option>
+              ))}
+            </select>
+          )}
+
+          {error && (
+            <p className="text-xs text-rose-400 flex items-center gap-1.5"><AlertTriangle size={12} /> {error}</p>
+          )}
+
+          {!buffer || !edit ? (
+            !error && <div className="flex justify-center py-8"><Loader2 className="animate-spin text-slate-500" size={24} /></div>
+          ) : (
+            <>
+              <div>
+                <Waveform
+                  peaks={peaks}
+                  progress={progress}
+                  range={{ start: edit.trimStart / duration, end: (duration - edit.trimEnd) / duration }}
+                  className="bg-slate-950 rounded-lg border border-slate-800"
+                />
+                <p className="mt-1 text-[11px] text-slate-500 flex justify-between">
+                  <span>Original {duration.toFixed(2)}s</span>
+                  <span>Edited {editedDuration.toFixed(2)}s</span>
+                </p>
+              </div>
+
+              <div className="space-y-2">
+                {slider('Trim in', edit.trimStart, 0, duration, 0.01, v => `${v.toFixed(2)}s`,
+                  v => update({ trimStart: Math.min(v, duration - edit.trimEnd - MIN_LENGTH) }))}
+                {slider('Trim out', edit.trimEnd, 0, duration, 0.01, v => `${v.toFixed(2)}s`,
+                  v => update({ trimEnd: Math.min(v, duration - edit.trimStart - MIN_LENGTH) }))}
+                {slider('Gain', edit.gainDb, -MAX_GAIN_DB, MAX_GAIN_DB, 0.5, v => `${v > 0 ? '+' : ''}${v.toFixed(1)} dB`,
+                  v => update({ gainDb: v }))}
+                {slider('Fade in', edit.fadeIn, 0, MAX_FADE, 0.05, v => `${v.toFixed(2)}s`, v => update({ fadeIn: v }))}
+                {slider('Fade out', edit.fadeOut, 0, MAX_FADE, 0.05, v => `${v.toFixed(2)}s`, v => update({ fadeOut: v }))}
+              </div>
+
+              <div className="flex flex-wrap gap-2">
+                <button
+                  onClick={() => update(detectSilenceTrim(buffer))}
+                  disabled={isBusy}
+                  className="px-3 py-1.5 text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 rounded-lg flex items-center gap-1.5"
+                  title="Cut leading and trailing silence"
+                >
+                  <Wand2 size={12} /> Auto-trim silence
+                </button>
+                <button
+                  onClick={() => update(createAudioEdit(edit.originalUrl))}
+                  disabled={isBusy || isNeutralAudioEdit(edit)}
+                  className="px-3 py-1.5 text-xs text-slate-400 hover:text-white hover:bg-slate-800 disabled:opacity-40 rounded-lg flex items-center gap-1.5"
+                >
+                  <RotateCcw size={12} /> Reset
+                </button>
+                <button
+                  onClick={handlePreview}
+                  disabled={isBusy}
+                  className="ml-auto px-3 py-1.5 text-xs text-slate-300 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 rounded-lg flex items-center gap-1.5"
+                >
+                  {isRendering ? <Loader2 size={12} className="animate-spin" /> : <Play size={12} />} Preview
+                </button>
+              </div>
+
+              {previewUrl && (
+                <audio
+                  ref={audioRef}
+                  src={previewUrl}
+                  controls
+                  className="w-full h-8"
+                  onTimeUpdate={(e) => setProgress((edit.trimStart + e.currentTarget.currentTime) / duration)}
+                  onEnded={() => setProgress(undefined)}
+                />
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex items-center justify-between gap-2 shrink-0">
+          <p className="text-[11px] text-slate-500">The original file is kept, so edits can be changed or reset later.</p>
+          <button
+            onClick={handleSave}
+            disabled={!buffer || !edit || isBusy}
+            className="px-4 py-2 text-sm font-bold bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg flex items-center gap-2 shrink-0"
+          >
+            {isBusy ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />} Apply
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default AudioClipEditor;
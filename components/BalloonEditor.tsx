@@ -0,0 +1,276 @@
+import React, { useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, MessageCircle, Cloud, Type, Zap, Wand2, Trash2, Eraser, ImageIcon } from 'lucide-react';
+import { Storyboard, BalloonOverlay, DialogueLineType, BalloonFontId } from '../types';
+import { DIALOGUE_LINE_TYPES } from '../services/dialogue';
+import { BALLOON_FONTS, createBalloon, autoPlaceBalloons, renderBalloonsHtml } from '../services/balloons';
+
+interface Props {
+  storyboard: Storyboard;
+  title: string;
+  onSave: (balloons: BalloonOverlay[]) => void;
+  onClose: () => void;
+}
+
+type DragMode = 'move' | 'resize' | 'tail';
+
+const MIN_SIZE = 0.05; // Smallest balloon side, as a fraction of the panel
+const KIND_ICONS: Record<DialogueLineType, React.ElementType> = { speech: MessageCircle, thought: Cloud, caption: Type, sfx: Zap };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+const pct = (value: number) => `${value * 100}%`;
+const hasTail = (kind: DialogueLineType) => kind === 'speech' || kind === 'thought';
+
+const BalloonEditor: React.FC<Props> = ({ storyboard, title, onSave, onClose }) => {
+  const [balloons, setBalloons] = useState<BalloonOverlay[]>(storyboard.overlays || []);
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const layerRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ mode: DragMode; startX: number; startY: number; original: BalloonOverlay } | null>(null);
+
+  const selected = balloons.find(b => b.id === selectedId);
+
+  const updateBalloon = (id: string, updates: Partial<BalloonOverlay>) => {
+    setBalloons(prev => prev.map(b => b.id === id ? { ...b, ...updates } : b));
+  };
+
+  const addBalloon = (kind: DialogueLineType) => {
+    const balloon = createBalloon(kind);
+    setBalloons(prev => [...prev, balloon]);
+    setSelectedId(balloon.id);
+  };
+
+  const removeBalloon = (id: string) => {
+    setBalloons(prev => prev.filter(b => b.id !== id));
+    setSelectedId(null);
+  };
+
+  const handleAutoPlace = () => {
+    if (balloons.length > 0 && !confirm("Replace the current lettering with a layout built from the dialogue?")) return;
+    const placed = autoPlaceBalloons(storyboard);
+    if (placed.length === 0) {
+      alert("This storyboard has no dialogue to letter yet.");
+      return;
+    }
+    setBalloons(placed);
+    setSelectedId(null);
+  };
+
+  const changeKind = (balloon: BalloonOverlay, kind: DialogueLineType) => {
+    const tail = hasTail(kind)
+      ? balloon.tail || { x: balloon.x + balloon.width * 0.35, y: Math.min(0.95, balloon.y + balloon.height + 0.15) }
+      : undefined;
+    updateBalloon(balloon.id, { kind, tail });
+  };
+
+  // Dragging: pointer capture on the layer keeps events flowing while the pointer leaves a handle
+  const startDrag = (e: React.PointerEvent, balloon: BalloonOverlay, mode: DragMode) => {
+    e.stopPropagation();
+    setSelectedId(balloon.id);
+    layerRef.current?.setPointerCapture(e.pointerId);
+    dragRef.current = { mode, startX: e.clientX, startY: e.clientY, original: balloon };
+  };
+
+  const handlePointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const layer = layerRef.current;
+    if (!drag || !layer) return;
+
+    const rect = layer.getBoundingClientRect();
+    const dx = (e.clientX - drag.startX) / rect.width;
+    const dy = (e.clientY - drag.startY) / rect.height;
+    const o = drag.original;
+
+    if (drag.mode === 'move') {
+      updateBalloon(o.id, { x: clamp(o.x + dx, 0, 1 - o.width), y: clamp(o.y + dy, 0, 1 - o.height) });
+    } else if (drag.mode === 'resize') {
+      updateBalloon(o.id, { width: clamp(o.width + dx, MIN_SIZE, 1 - o.x), height: clamp(o.height + dy, MIN_SIZE, 1 - o.y) });
+    } else if (o.tail) {
+      updateBalloon(o.id, { tail: { x: clamp(o.tail.x + dx, 0, 1), y: clamp(o.tail.y + dy, 0, 1) } });
+    }
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center sm:p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="bg-slate-900 border-t md:border border-slate-800 rounded-t-2xl md:rounded-2xl w-full md:max-w-6xl shadow-2xl relative animate-slide-up max-h-[95vh] flex flex-col z-10">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <MessageCircle size={18} className="text-indigo-400" /> Lettering
+            <span className="text-xs font-normal text-slate-500">{title}</span>
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded-full text-slate-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="flex flex-col md:flex-row flex-1 min-h-0 overflow-y-auto md:overflow-hidden">
+          <div className="flex-1 flex items-center justify-center p-4 bg-black/40 min-w-0">
+            <div className="relative inline-block max-w-full select-none">
+              {storyboard.videoUrl && !storyboard.imageUrl ? (
+                <video src={storyboard.videoUrl} className="block max-w-full max-h-[55vh]" autoPlay loop muted playsInline />
+              ) : storyboard.imageUrl ? (
+                <img src={storyboard.imageUrl} className="block max-w-full max-h-[55vh]" alt="Storyboard" draggable={false} />
+              ) : (
+                <div className="w-[640px] max-w-full aspect-video bg-slate-800 flex flex-col items-center justify-center text-slate-600">
+                  <ImageIcon size={32} className="mb-2" />
+                  <span className="text-xs">No visual yet</span>
+                </div>
+              )}
+
+              <div
+                ref={layerRef}
+                className="absolute inset-0 touch-none"
+                style={{ containerType: 'size' } as React.CSSProperties}
+                onPointerDown={() => setSelectedId(null)}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+              >
+                <div className="absolute inset-0 pointer-events-none" dangerouslySetInnerHTML={{ __html: renderBalloonsHtml(balloons) }} />
+
+                {balloons.map(balloon => (
+                  <div
+                    key={balloon.id}
+                    onPointerDown={(e) => startDrag(e, balloon, 'move')}
+                    className={`absolute cursor-move ${balloon.id === selectedId ? 'ring-2 ring-indigo-400' : 'hover:ring-1 hover:ring-indigo-400/60'}`}
+                    style={{ left: pct(balloon.x), top: pct(balloon.y), width: pct(balloon.width), height: pct(balloon.height) }}
+                  >
+                    {balloon.id === selectedId && (
+                      <div
+                        onPointerDown={(e) => startDrag(e, balloon, 'resize')}
+                        className="absolute -right-1.5 -bottom-1.5 w-3 h-3 bg-indigo-500 border border-white rounded-sm cursor-nwse-resize"
+                        title="Drag to resize"
+                      />
+                    )}
+                  </div>
+                ))}
+
+                {selected?.tail && (
+                  <div
+                    onPointerDown={(e) => startDrag(e, selected, 'tail')}
+                    className="absolute w-3.5 h-3.5 -ml-[7px] -mt-[7px] rounded-full bg-amber-400 border border-white cursor-crosshair"
+                    style={{ left: pct(selected.tail.x), top: pct(selected.tail.y) }}
+                    title="Drag to point the tail at the speaker"
+                  />
+                )}
+              </div>
+            </div>
+          </div>
+
+          <div className="md:w-72 border-t md:border-t-0 md:border-l border-slate-800 p-4 space-y-4 md:overflow-y-auto custom-scrollbar shrink-0">
+            <div>
+              <label className="block text-xs text-slate-500 font-bold uppercase mb-2">Add</label>
+              <div className="grid grid-cols-4 gap-2">
+                {DIALOGUE_LINE_TYPES.map(type => {
+                  const Icon = KIND_ICONS[type.id];
+                  return (
+                    <button
+                      key={type.id}
+                      onClick={() => addBalloon(type.id)}
+                      className="flex flex-col items-center gap-1 py-2 bg-slate-800 hover:bg-slate-700 border border-slate-700 rounded-lg text-[10px] text-slate-300"
+                      title={`Add ${type.label.toLowerCase()}`}
+                    >
+                      <Icon size={16} /> {type.label}
+                    </button>
+                  );
+                })}
+              </div>
+            </div>
+
+            <div className="flex gap-2">
+              <button
+                onClick={handleAutoPlace}
+                className="flex-1 flex items-center justify-center gap-1.5 py-2 bg-indigo-600/20 hover:bg-indigo-600/30 border border-indigo-500/40 rounded-lg text-xs text-indigo-200 font-medium"
+              >
+                <Wand2 size={14} /> Auto-place from dialogue
+              </button>
+              <button
+                onClick={() => { setBalloons([]); setSelectedId(null); }}
+                disabled={balloons.length === 0}
+                className="p-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 border border-slate-700 rounded-lg text-slate-400"
+                title="Remove all lettering"
+              >
+                <Eraser size={14} />
+              </button>
+            </div>
+
+            {selected ? (
+              <div className="space-y-3 pt-3 border-t border-slate-800">
+                <div className="flex items-center justify-between">
+                  <label className="text-xs text-slate-500 font-bold uppercase">Selected</label>
+                  <button onClick={() => removeBalloon(selected.id)} className="p-1 text-slate-500 hover:text-rose-400 hover:bg-rose-500/10 rounded" title="Delete">
+                    <Trash2 size={14} />
+                  </button>
+                </div>
+
+                <select
+                  value={selected.kind}
+                  onChange={(e) => changeKind(selected, e.target.value as DialogueLineType)}
+                  className="w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-slate-300 focus:border-indigo-500 outline-none"
+                >
+                  {DIALOGUE_LINE_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+                </select>
+
+                <textarea
+                  value={selected.text}
+                  onChange={(e) => updateBalloon(selected.id, { text: e.target.value })}
+                  placeholder="Lettering text"
+                  rows={3}
+                  className="w-full bg-slate-950 border border-slate-800 rounded p-2 text-sm text-white focus:border-indigo-500 resize-none"
+                />
+
+                <div>
+                  <label className="block text-xs text-slate-500 mb-1">Font</label>
+                  <select
+                    value={selected.font}
+                    onChange={(e) => updateBalloon(selected.id, { font: e.target.value as BalloonFontId })}
+                    className="w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-slate-300 focus:border-indigo-500 outline-none"
+                  >
+                    {BALLOON_FONTS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-xs text-slate-500 mb-1">Text size</label>
+                  <input
+                    type="range"
+                    min={0.02}
+                    max={0.15}
+                    step={0.005}
+                    value={selected.fontSize}
+                    onChange={(e) => updateBalloon(selected.id, { fontSize: Number(e.target.value) })}
+                    className="w-full accent-indigo-500"
+                  />
+                </div>
+              </div>
+            ) : (
+              <p className="text-xs text-slate-500 pt-3 border-t border-slate-800">
+                Select a balloon to edit its text and style. Drag to move, use the corner handle to resize and the yellow dot to aim the tail.
+              </p>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex justify-end gap-3 shrink-0">
+          <button onClick={onClose} className="px-4 py-2 text-sm text-slate-300 hover:text-white hover:bg-slate-800 rounded-lg">
+            Cancel
+          </button>
+          <button
+            onClick={() => onSave(balloons)}
+            className="px-4 py-2 bg-indigo-600 hover:bg-indigo-500 text-white text-sm font-bold rounded-lg"
+          >
+            Save Lettering
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default BalloonEditor;
@@ -0,0 +1,18 @@
+import React from 'react';
+import { BalloonOverlay } from '../types';
+import { renderBalloonsHtml } from '../services/balloons';
+
+interface Props {
+  balloons: BalloonOverlay[];
+}
+
+// Read-only lettering over the art; the parent must be positioned and match the art's box
+const BalloonLayer: React.FC<Props> = ({ balloons }) => (
+  <div
+    className="absolute inset-0 pointer-events-none"
+    style={{ containerType: 'size' } as React.CSSProperties}
+    dangerouslySetInnerHTML={{ __html: renderBalloonsHtml(balloons) }}
+  />
+);
+
+export default BalloonLayer;
@@ -1,18 +1,21 @@
 
 import React, { useState, useRef } from 'react';
-import { Plus, Upload, X, Mic, User, Pencil, Trash2, Loader2, ChevronDown, Check } from 'lucide-react';
-import { Character, AVAILABLE_VOICES } from '../types';
+import { Plus, Upload, X, Mic, User, Pencil, Trash2, Loader2, ChevronDown, Check, Sparkles } from 'lucide-react';
+import { Character, AVAILABLE_VOICES, PromptTemplateOverrides } from '../types';
 import { saveCharacterToFirestore, deleteCharacterFromFirestore, uploadCharacterImage } from '../services/firebase';
+import { getAIProvider } from '../services/ai';
+import { getReferenceImagesHash, hasCurrentVisualDescription } from '../services/characterDescriptions';
 import { User as FirebaseUser } from 'firebase/auth';
 
 interface Props {
   characters: Character[];
   user: FirebaseUser | null;
+  promptTemplates?: PromptTemplateOverrides; // User defaults, used when analyzing reference images
   onModalStateChange?: (isOpen: boolean) => void;
   onStartTour?: () => void;
 }
 
-const CharacterVault: React.FC<Props> = ({ characters, user, onModalStateChange, onStartTour }) => {
+const CharacterVault: React.FC<Props> = ({ characters, user, promptTemplates, onModalStateChange, onStartTour }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
 
   // Sync internal modal state to parent
@@ -31,6 +34,9 @@ const CharacterVault: React.FC<Props> = ({ characters, user, onModalStateChange,
   const [newCharFile, setNewCharFile] = useState<File | null>(null);
   const [newCharFile2, setNewCharFile2] = useState<File | null>(null);
   const [newCharVoice, setNewCharVoice] = useState(AVAILABLE_VOICES[0].id);
+  const [newCharVisualDesc, setNewCharVisualDesc] = useState('');
+  const [isVisualDescForImages, setIsVisualDescForImages] = useState(false); // Written or analyzed for the images currently in the form
+  const [isAnalyzing, setIsAnalyzing] = useState(false);
 
   const [isVoiceSelectorOpen, setIsVoiceSelectorOpen] = useState(false);
 
@@ -44,6 +50,8 @@ const CharacterVault: React.FC<Props> = ({ characters, user, onModalStateChange,
 
       const reader = new FileReader();
       reader.onload = (event) => {
+        // A description of the old images no longer applies
+        setIsVisualDescForImages(false);
         if (isSecond) {
           setNewCharFile2(file);
           setNewCharImage2Preview(event.target?.result as string);
@@ -68,9 +76,34 @@ const CharacterVault: React.FC<Props> = ({ characters, user, onModalStateChange,
     setNewCharImagePreview(char.imageUrl);
     setNewCharImage2Preview(char.imageUrl2 || null);
     setNewCharVoice(char.voiceId || AVAILABLE_VOICES[0].id);
+    setNewCharVisualDesc(char.visualDescription || '');
+    setIsVisualDescForImages(hasCurrentVisualDescription(char));
     setIsModalOpen(true);
   };
 
+  // Describes the images in the form (uploaded or just picked) with the vision model
+  const analyzeImages = async () => {
+    if (!newCharImagePreview) return;
+    setIsAnalyzing(true);
+    try {
+      const description = await getAIProvider().getCharacterVisualDescription({
+        id: editingId || 'new',
+        name: newCharName,
+        bio: newCharBio,
+        imageUrl: newCharImagePreview,
+        imageUrl2: newCharImage2Preview || undefined,
+      }, { templates: promptTemplates });
+      if (!description) throw new Error("The model returned no description.");
+      setNewCharVisualDesc(description);
+      setIsVisualDescForImages(true);
+    } catch (error) {
+      console.error("Character analysis failed:", error);
+      alert(`Failed to analyze reference images. ${error instanceof Error ? error.message : ''}`);
+    } finally {
+      setIsAnalyzing(false);
+    }
+  };
+
   const saveCharacter = async () => {
     if (!newCharName || !user) return;
     if (!newCharImagePreview) {
@@ -103,6 +136,8 @@ const CharacterVault: React.FC<Props> = ({ characters, user, onModalStateChange,
       }
 
       const charId = editingId || Date.now().toString();
+      // Descriptions of replaced images are dropped (and regenerated on the next generation)
+      const visualDescription = isVisualDescForImages ? newCharVisualDesc.trim() : '';
       const characterData: Character = {
         id: charId,
         name: newCharName,
@@ -110,6 +145,8 @@ const CharacterVault: React.FC<Props> = ({ characters, user, onModalStateChange,
         imageUrl: finalImageUrl,
         imageUrl2: finalImageUrl2,
         voiceId: newCharVoice,
+        visualDescription: visualDescription || undefined,
+        visualDescriptionHash: visualDescription ? getReferenceImagesHash({ imageUrl: finalImageUrl, imageUrl2: finalImageUrl2 }) : undefined,
       };
 
       await saveCharacterToFirestore(user.uid, characterData);
@@ -133,6 +170,8 @@ const CharacterVault: React.FC<Props> = ({ characters, user, onModalStateChange,
     setNewCharFile(null);
     setNewCharFile2(null);
     setNewCharVoice(AVAILABLE_VOICES[0].id);
+    setNewCharVisualDesc('');
+    setIsVisualDescForImages(false);
     setIsVoiceSelectorOpen(false);
   };
 
@@ -329,6 +368,32 @@ const CharacterVault: React.FC<Props> = ({ characters, user, onModalStateChange,
                   />
                 </div>
 
+                <div>
+                  <div className="flex items-center justify-between mb-2">
+                    <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider">Visual Description</label>
+                    <button
+                      onClick={analyzeImages}
+                      disabled={!newCharImagePreview || isAnalyzing}
+                      className="text-xs font-bold text-emerald-400 hover:text-emerald-300 disabled:opacity-50 flex items-center gap-1 bg-emerald-400/10 hover:bg-emerald-400/20 px-2 py-1 rounded-lg transition-colors"
+                    >
+                      {isAnalyzing ? <Loader2 size={12} className="animate-spin" /> : <Sparkles size={12} />}
+                      {newCharVisualDesc ? 'Re-Analyze' : 'Analyze'}
+                    </button>
+                  </div>
+                  <textarea
+                    value={newCharVisualDesc}
+                    onChange={(e) => {
+                      setNewCharVisualDesc(e.target.value);
+                      setIsVisualDescForImages(true);
+                    }}
+                    className="w-full bg-slate-950 border border-slate-800 rounded-lg p-3 text-sm text-white focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 transition-all h-24 resize-none placeholder:text-slate-700"
+                    placeholder="Generated from the reference images on first use. Edit it to correct what the AI sees."
+                  />
+                  {newCharVisualDesc && !isVisualDescForImages && (
+                    <p className="text-xs text-amber-400 mt-1">The reference images changed. This description will be regenerated unless you edit or re-analyze it.</p>
+                  )}
+                </div>
+
                 <div>
                   <label className="block text-xs font-bold text-slate-500 uppercase tracking-wider mb-2 flex items-center gap-2">
                     <Mic size={14} /> Assigned AI Voice
@@ -0,0 +1,122 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, BookOpen, Loader2, Download } from 'lucide-react';
+import { Project, Storyboard, Character } from '../types';
+import { buildComicArchive, ComicArchiveFormat } from '../services/comicArchive';
+
+interface Props {
+  project: Project;
+  storyboards: Storyboard[];
+  characters: Character[];
+  onClose: () => void;
+}
+
+const FORMAT_OPTIONS: { id: ComicArchiveFormat; label: string; hint: string }[] = [
+  { id: 'cbz', label: 'CBZ', hint: 'Comic reader apps (with ComicInfo.xml metadata)' },
+  { id: 'epub', label: 'EPUB', hint: 'Fixed-layout e-book (Apple Books, Kobo, ...)' },
+];
+
+const ComicArchiveExportModal: React.FC<Props> = ({ project, storyboards, characters, onClose }) => {
+  const [format, setFormat] = useState<ComicArchiveFormat>('cbz');
+  const [letterDialogue, setLetterDialogue] = useState(true);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const isRendering = progress !== null;
+
+  const handleExport = async () => {
+    setProgress({ done: 0, total: storyboards.length });
+
+    try {
+      const blob = await buildComicArchive(project, storyboards, characters, format, letterDialogue, (done, total) => setProgress({ done, total }));
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${project.title.replace(/["<>\\]/g, '').replace(/\s+/g, '_').toLowerCase()}.${format}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (error) {
+      console.error("Comic archive export failed:", error);
+      alert(`Export failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center sm:p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={isRendering ? undefined : onClose} />
+
+      <div className="bg-slate-900 border-t md:border border-slate-800 rounded-t-2xl md:rounded-2xl w-full md:max-w-md shadow-2xl relative animate-slide-up max-h-[85vh] flex flex-col z-10">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <BookOpen size={18} className="text-indigo-400" /> Export Comic Book
+          </h3>
+          <button onClick={onClose} disabled={isRendering} className="p-1 hover:bg-slate-800 rounded-full text-slate-400 disabled:opacity-40">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto custom-scrollbar">
+          <div className="space-y-2">
+            {FORMAT_OPTIONS.map(option => (
+              <button
+                key={option.id}
+                onClick={() => setFormat(option.id)}
+                disabled={isRendering}
+                className={`w-full text-left p-3 rounded-xl border transition-colors ${format === option.id ? 'bg-indigo-600/20 border-indigo-500' : 'bg-slate-950 border-slate-700 hover:border-slate-600'}`}
+              >
+                <span className={`block text-sm font-bold ${format === option.id ? 'text-indigo-300' : 'text-slate-200'}`}>{option.label}</span>
+                <span className="block text-xs text-slate-500">{option.hint}</span>
+              </button>
+            ))}
+          </div>
+
+          <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+            <input
+              type="checkbox"
+              checked={letterDialogue}
+              onChange={(e) => setLetterDialogue(e.target.checked)}
+              disabled={isRendering}
+              className="accent-indigo-500"
+            />
+            Letter dialogue below each page
+          </label>
+
+          {progress && (
+            <div className="space-y-1.5">
+              <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(progress.done / progress.total * 100)}%` }} />
+              </div>
+              <p className="text-xs text-slate-400">Rendering page {Math.min(progress.done + 1, progress.total)} of {progress.total}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex gap-3 shrink-0">
+          <button
+            onClick={onClose}
+            disabled={isRendering}
+            className="flex-1 py-2.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-200 rounded-lg text-sm font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleExport}
+            disabled={isRendering || storyboards.length === 0}
+            className="flex-1 py-2.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg text-sm font-bold flex items-center justify-center gap-2"
+          >
+            {isRendering ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            {isRendering ? 'Packaging...' : `Download ${format.toUpperCase()}`}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ComicArchiveExportModal;
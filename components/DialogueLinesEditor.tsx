@@ -0,0 +1,90 @@
+import React from 'react';
+import { Plus, X, Volume2 } from 'lucide-react';
+import { Character, DialogueLine, DialogueLineType } from '../types';
+import { DIALOGUE_LINE_TYPES, createDialogueLine, hasSpeaker } from '../services/dialogue';
+
+interface Props {
+  lines: DialogueLine[];
+  characters: Character[];
+  onChange: (lines: DialogueLine[], label: string, mergeKey?: string) => void;
+}
+
+const TYPE_STYLES: Record<DialogueLineType, string> = {
+  speech: 'text-white',
+  thought: 'text-slate-300 italic',
+  caption: 'text-amber-100',
+  sfx: 'text-rose-200 font-bold uppercase tracking-wide',
+};
+
+const DialogueLinesEditor: React.FC<Props> = ({ lines, characters, onChange }) => {
+  const updateLine = (lineId: string, updates: Partial<DialogueLine>, label: string, mergeKey?: string) => {
+    onChange(lines.map(l => l.id === lineId ? { ...l, ...updates } : l), label, mergeKey);
+  };
+
+  // New lines alternate speakers, so a conversation can be typed line after line
+  const addLine = () => {
+    const lastSpeakerId = [...lines].reverse().find(l => hasSpeaker(l) && l.characterId)?.characterId;
+    const nextSpeaker = characters.find(c => c.id !== lastSpeakerId) || characters[0];
+    onChange([...lines, createDialogueLine({ characterId: nextSpeaker?.id })], 'Add line');
+  };
+
+  return (
+    <div className="space-y-2">
+      {lines.map(line => (
+        <div key={line.id} className="flex gap-2 items-start">
+          <div className="flex flex-col gap-1 w-28 shrink-0">
+            <select
+              value={line.type}
+              onChange={(e) => updateLine(line.id, { type: e.target.value as DialogueLineType }, 'Change line type')}
+              className="bg-slate-950 border border-slate-800 rounded text-[11px] text-slate-400 p-1 focus:border-indigo-500 outline-none"
+            >
+              {DIALOGUE_LINE_TYPES.map(t => <option key={t.id} value={t.id}>{t.label}</option>)}
+            </select>
+            {hasSpeaker(line) && (
+              <select
+                value={line.characterId || ''}
+                onChange={(e) => updateLine(line.id, { characterId: e.target.value || undefined }, 'Change speaker')}
+                className="bg-slate-950 border border-slate-800 rounded text-[11px] text-slate-300 p-1 focus:border-indigo-500 outline-none"
+              >
+                <option value="">Narrator</option>
+                {characters.map(c => <option key={c.id} value={c.id}>{c.name}</option>)}
+              </select>
+            )}
+          </div>
+
+          <textarea
+            value={line.text}
+            onChange={(e) => updateLine(line.id, { text: e.target.value }, 'Edit line', `line:${line.id}`)}
+            placeholder={line.type === 'sfx' ? 'KRAKOOM!' : line.type === 'caption' ? 'Meanwhile...' : 'What do they say?'}
+            rows={2}
+            className={`flex-1 min-w-0 bg-slate-950 border border-slate-800 rounded p-2 text-sm focus:border-indigo-500 resize-none font-sans ${TYPE_STYLES[line.type]}`}
+          />
+
+          <div className="flex flex-col items-center gap-1 shrink-0">
+            <button
+              onClick={() => onChange(lines.filter(l => l.id !== line.id), 'Remove line')}
+              className="p-1 text-slate-600 hover:text-rose-400 hover:bg-rose-500/10 rounded"
+              title="Remove line"
+            >
+              <X size={14} />
+            </button>
+            {line.audioUrl && (
+              <span title="Voiced">
+                <Volume2 size={12} className="text-green-500" />
+              </span>
+            )}
+          </div>
+        </div>
+      ))}
+
+      <button
+        onClick={addLine}
+        className="w-full py-1.5 border border-dashed border-slate-800 hover:border-indigo-500/50 rounded text-xs text-slate-500 hover:text-indigo-400 flex items-center justify-center gap-1.5 transition-colors"
+      >
+        <Plus size={12} /> Add line
+      </button>
+    </div>
+  );
+};
+
+export default DialogueLinesEditor;
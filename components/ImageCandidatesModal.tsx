@@ -0,0 +1,142 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Images, Star, Trash2, Check, Wand2, Loader2 } from 'lucide-react';
+import { Storyboard, ImageCandidate } from '../types';
+import { MAX_IMAGE_VARIATIONS, getImageCandidates, getRejectedCandidates } from '../services/imageCandidates';
+
+interface Props {
+  title: string;
+  storyboard: Storyboard;
+  defaultVariations: number;
+  isGenerating: boolean;
+  status?: string;
+  onGenerate: (variations: number) => void;
+  onSelect: (candidate: ImageCandidate) => void;
+  onToggleStar: (candidate: ImageCandidate) => void;
+  onDelete: (candidates: ImageCandidate[]) => void;
+  onClose: () => void;
+}
+
+// Gallery of a storyboard's image candidates: pick the active one, star keepers, delete rejects
+const ImageCandidatesModal: React.FC<Props> = ({ title, storyboard, defaultVariations, isGenerating, status, onGenerate, onSelect, onToggleStar, onDelete, onClose }) => {
+  const candidates = getImageCandidates(storyboard);
+  const rejected = getRejectedCandidates(storyboard);
+  const [variations, setVariations] = useState(defaultVariations);
+  const [inspectedId, setInspectedId] = useState<string | null>(null);
+  const inspected = candidates.find(c => c.id === inspectedId) || candidates.find(c => c.url === storyboard.imageUrl);
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center sm:p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose} />
+      <div className="bg-slate-900 border-t md:border border-slate-800 rounded-t-2xl md:rounded-2xl w-full max-w-3xl max-h-[90vh] flex flex-col shadow-2xl animate-slide-up z-10">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <Images size={16} className="text-indigo-400" /> {title} — Images ({candidates.length})
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded-full text-slate-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-4 py-3 flex flex-wrap items-center gap-2 border-b border-slate-800 shrink-0">
+          <span className="text-xs text-slate-400">Variations</span>
+          <div className="flex bg-slate-950 border border-slate-800 rounded-lg p-0.5">
+            {Array.from({ length: MAX_IMAGE_VARIATIONS }, (_, i) => i + 1).map(count => (
+              <button
+                key={count}
+                onClick={() => setVariations(count)}
+                className={`w-7 py-0.5 rounded-md text-xs transition-colors ${variations === count ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-white'}`}
+              >
+                {count}
+              </button>
+            ))}
+          </div>
+          <button
+            onClick={() => onGenerate(variations)}
+            disabled={isGenerating}
+            className="px-3 py-1.5 text-xs font-bold bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg flex items-center gap-1.5"
+          >
+            {isGenerating ? <Loader2 size={12} className="animate-spin" /> : <Wand2 size={12} />}
+            {isGenerating ? status || 'Generating...' : 'Generate'}
+          </button>
+          <button
+            onClick={() => onDelete(rejected)}
+            disabled={rejected.length === 0 || isGenerating}
+            className="ml-auto px-3 py-1.5 text-xs text-slate-400 hover:text-rose-400 hover:bg-rose-500/10 disabled:opacity-40 rounded-lg flex items-center gap-1.5"
+            title="Delete every image that is neither starred nor active"
+          >
+            <Trash2 size={12} /> Delete unstarred ({rejected.length})
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto custom-scrollbar flex-1 min-h-0 space-y-4">
+          {candidates.length === 0 ? (
+            <p className="text-sm text-slate-500 text-center py-8">No images yet. Generate a few variations to choose from.</p>
+          ) : (
+            <div className="grid grid-cols-2 sm:grid-cols-3 gap-3">
+              {candidates.map(candidate => {
+                const isActive = candidate.url === storyboard.imageUrl;
+                return (
+                  <div
+                    key={candidate.id}
+                    onClick={() => setInspectedId(candidate.id)}
+                    className={`relative aspect-video rounded-xl overflow-hidden border-2 cursor-pointer group ${isActive ? 'border-indigo-500' : inspected?.id === candidate.id ? 'border-slate-500' : 'border-slate-800 hover:border-slate-600'}`}
+                  >
+                    <img src={candidate.url} alt="" className="w-full h-full object-cover" />
+                    {isActive && (
+                      <span className="absolute top-1.5 left-1.5 bg-indigo-600 text-white text-[10px] px-2 py-0.5 rounded-full flex items-center gap-1">
+                        <Check size={10} /> Active
+                      </span>
+                    )}
+                    <button
+                      onClick={(e) => { e.stopPropagation(); onToggleStar(candidate); }}
+                      className={`absolute top-1.5 right-1.5 p-1 rounded-lg bg-black/60 ${candidate.starred ? 'text-amber-400' : 'text-slate-300 opacity-0 group-hover:opacity-100'}`}
+                      title={candidate.starred ? 'Unstar' : 'Star'}
+                    >
+                      <Star size={14} fill={candidate.starred ? 'currentColor' : 'none'} />
+                    </button>
+                    <div className="absolute bottom-1.5 right-1.5 flex gap-1 opacity-0 group-hover:opacity-100">
+                      {!isActive && (
+                        <button
+                          onClick={(e) => { e.stopPropagation(); onSelect(candidate); }}
+                          className="px-2 py-1 rounded-lg bg-black/60 text-white text-[11px] hover:bg-indigo-600"
+                        >
+                          Use
+                        </button>
+                      )}
+                      <button
+                        onClick={(e) => { e.stopPropagation(); onDelete([candidate]); }}
+                        disabled={isGenerating}
+                        className="p-1 rounded-lg bg-black/60 text-slate-300 hover:text-rose-400"
+                        title="Delete"
+                      >
+                        <Trash2 size={14} />
+                      </button>
+                    </div>
+                  </div>
+                );
+              })}
+            </div>
+          )}
+
+          {inspected && (
+            <div className="text-xs space-y-1.5">
+              <p className="text-slate-400">
+                {inspected.createdAt ? new Date(inspected.createdAt).toLocaleString() : 'Earlier image'}
+                {inspected.prompt ? <> · <span className="font-mono text-slate-300">{inspected.prompt.model}</span> ({inspected.prompt.provider})</> : ' · Uploaded or generated before prompts were recorded'}
+              </p>
+              {inspected.prompt && (
+                <pre className="p-3 bg-slate-950 border border-slate-800 rounded-xl text-slate-300 font-mono whitespace-pre-wrap break-words max-h-48 overflow-y-auto custom-scrollbar">
+                  {inspected.prompt.prompt}
+                </pre>
+              )}
+            </div>
+          )}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ImageCandidatesModal;
@@ -0,0 +1,162 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Crop, Loader2, ZoomIn, RotateCcw } from 'lucide-react';
+import { PanelAspectRatio } from '../types';
+import { PANEL_ASPECT_RATIOS, CENTERED_FRAMING, ImageFraming, getAspectRatioValue, formatAspectRatio, getCropRect, cropImage } from '../services/aspectRatios';
+import { loadImage } from '../services/mediaUtils';
+
+interface Props {
+  title: string;
+  imageUrl: string;
+  aspectRatio: PanelAspectRatio;
+  isWorking: boolean;
+  onApply: (croppedDataUrl: string) => void;
+  onUseOriginal?: () => void; // Offered for uploads: keep the file as it is
+  onClose: () => void;
+}
+
+const MAX_ZOOM = 4;
+
+// Crops or reframes an image to the storyboard's panel shape: drag the frame, zoom to tighten it
+const ImageCropModal: React.FC<Props> = ({ title, imageUrl, aspectRatio, isWorking, onApply, onUseOriginal, onClose }) => {
+  const [image, setImage] = useState<HTMLImageElement | null>(null);
+  const [loadError, setLoadError] = useState<string | null>(null);
+  const [framing, setFraming] = useState<ImageFraming>(CENTERED_FRAMING);
+  const dragRef = useRef<{ x: number; y: number; framing: ImageFraming } | null>(null);
+  const stageRef = useRef<HTMLDivElement>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    loadImage(imageUrl)
+      .then(loaded => { if (!cancelled) setImage(loaded); })
+      .catch(error => {
+        console.error("Failed to load image for cropping:", error);
+        if (!cancelled) setLoadError('The image could not be loaded for cropping.');
+      });
+    return () => { cancelled = true; };
+  }, [imageUrl]);
+
+  const rect = image ? getCropRect(image.naturalWidth, image.naturalHeight, getAspectRatioValue(aspectRatio), framing) : null;
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (isWorking) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    dragRef.current = { x: e.clientX, y: e.clientY, framing };
+  };
+
+  // Moves the frame with the pointer; x/y are fractions of the space the frame can move in
+  const handlePointerMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const stage = stageRef.current;
+    if (!drag || !image || !stage) return;
+    const scale = image.naturalWidth / stage.clientWidth;
+    const start = getCropRect(image.naturalWidth, image.naturalHeight, getAspectRatioValue(aspectRatio), drag.framing);
+    const freeX = image.naturalWidth - start.width;
+    const freeY = image.naturalHeight - start.height;
+    setFraming({
+      ...drag.framing,
+      x: freeX > 0 ? Math.min(1, Math.max(0, (start.x + (e.clientX - drag.x) * scale) / freeX)) : 0.5,
+      y: freeY > 0 ? Math.min(1, Math.max(0, (start.y + (e.clientY - drag.y) * scale) / freeY)) : 0.5,
+    });
+  };
+
+  const handlePointerUp = () => {
+    dragRef.current = null;
+  };
+
+  const percent = (value: number, total: number) => `${(value / total) * 100}%`;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center sm:p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={isWorking ? undefined : onClose} />
+      <div className="bg-slate-900 border-t md:border border-slate-800 rounded-t-2xl md:rounded-2xl w-full max-w-3xl max-h-[95vh] flex flex-col shadow-2xl animate-slide-up z-10">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <Crop size={16} className="text-indigo-400" /> Crop to Panel — {title}
+          </h3>
+          <button onClick={onClose} disabled={isWorking} className="p-1 hover:bg-slate-800 rounded-full text-slate-400 disabled:opacity-40">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-4 py-2 flex flex-wrap items-center gap-3 border-b border-slate-800 shrink-0 text-xs text-slate-400">
+          <span>
+            Shape: <span className="text-white">{PANEL_ASPECT_RATIOS[aspectRatio].label} ({formatAspectRatio(aspectRatio)})</span>
+          </span>
+          <label className="flex items-center gap-2">
+            <ZoomIn size={12} />
+            <input
+              type="range"
+              min={1}
+              max={MAX_ZOOM}
+              step={0.05}
+              value={framing.zoom}
+              onChange={(e) => setFraming({ ...framing, zoom: parseFloat(e.target.value) })}
+              disabled={!image || isWorking}
+              className="w-28 accent-indigo-500"
+            />
+          </label>
+          <button
+            onClick={() => setFraming(CENTERED_FRAMING)}
+            disabled={!image || isWorking}
+            className="px-2.5 py-1 text-xs text-slate-400 hover:text-white disabled:opacity-40 rounded-lg flex items-center gap-1.5"
+          >
+            <RotateCcw size={12} /> Reset
+          </button>
+        </div>
+
+        <div className="p-4 overflow-auto custom-scrollbar flex-1 min-h-0 flex items-center justify-center bg-slate-950/50">
+          {loadError ? (
+            <p className="text-sm text-rose-400 py-8">{loadError}</p>
+          ) : !image || !rect ? (
+            <Loader2 className="animate-spin text-slate-500 my-8" size={24} />
+          ) : (
+            <div ref={stageRef} className="relative inline-block max-w-full overflow-hidden select-none">
+              <img src={image.src} alt="" className="block max-w-full max-h-[60vh]" draggable={false} />
+              <div
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className="absolute border-2 border-white/90 cursor-move touch-none shadow-[0_0_0_9999px_rgba(0,0,0,0.6)]"
+                style={{
+                  left: percent(rect.x, image.naturalWidth),
+                  top: percent(rect.y, image.naturalHeight),
+                  width: percent(rect.width, image.naturalWidth),
+                  height: percent(rect.height, image.naturalHeight),
+                }}
+              />
+              {isWorking && (
+                <div className="absolute inset-0 bg-black/60 flex items-center justify-center text-white">
+                  <Loader2 className="animate-spin" size={24} />
+                </div>
+              )}
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex flex-col-reverse sm:flex-row sm:justify-end gap-2 shrink-0">
+          {onUseOriginal && (
+            <button
+              onClick={onUseOriginal}
+              disabled={isWorking}
+              className="px-4 py-2 text-sm text-slate-300 hover:text-white hover:bg-slate-800 disabled:opacity-50 rounded-lg"
+            >
+              Use original
+            </button>
+          )}
+          <button
+            onClick={() => image && onApply(cropImage(image, aspectRatio, framing))}
+            disabled={!image || isWorking}
+            className="px-4 py-2 text-sm font-bold bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg flex items-center justify-center gap-2"
+          >
+            {isWorking ? <Loader2 size={14} className="animate-spin" /> : <Crop size={14} />} Apply Crop
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default ImageCropModal;
@@ -0,0 +1,198 @@
+import React, { useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Brush, Eraser, Trash2, Wand2, Loader2 } from 'lucide-react';
+
+interface Props {
+  title: string;
+  imageUrl: string;
+  isWorking: boolean;
+  status?: string;
+  onApply: (maskDataUrl: string, instruction: string) => void;
+  onClose: () => void;
+}
+
+const MIN_BRUSH = 0.01; // Brush diameter as a fraction of the image width
+const MAX_BRUSH = 0.15;
+
+// Paint the region to fix over the panel and describe the change. The mask is exported at the
+// image's own resolution: white where painted, black elsewhere.
+const InpaintEditor: React.FC<Props> = ({ title, imageUrl, isWorking, status, onApply, onClose }) => {
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const lastPointRef = useRef<{ x: number; y: number } | null>(null);
+  const [size, setSize] = useState<{ width: number; height: number } | null>(null);
+  const [tool, setTool] = useState<'brush' | 'eraser'>('brush');
+  const [brush, setBrush] = useState(0.05);
+  const [hasMask, setHasMask] = useState(false);
+  const [instruction, setInstruction] = useState('');
+
+  const toCanvasPoint = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+      x: (e.clientX - rect.left) * (canvas.width / rect.width),
+      y: (e.clientY - rect.top) * (canvas.height / rect.height),
+    };
+  };
+
+  const paintTo = (point: { x: number; y: number }) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx) return;
+    const from = lastPointRef.current || point;
+
+    ctx.globalCompositeOperation = tool === 'eraser' ? 'destination-out' : 'source-over';
+    ctx.strokeStyle = '#f43f5e';
+    ctx.lineWidth = brush * canvas.width;
+    ctx.lineCap = 'round';
+    ctx.lineJoin = 'round';
+    ctx.beginPath();
+    ctx.moveTo(from.x, from.y);
+    ctx.lineTo(point.x, point.y);
+    ctx.stroke();
+
+    lastPointRef.current = point;
+    if (tool === 'brush') setHasMask(true);
+  };
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (isWorking) return;
+    e.currentTarget.setPointerCapture(e.pointerId);
+    lastPointRef.current = null;
+    paintTo(toCanvasPoint(e));
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (!lastPointRef.current) return;
+    paintTo(toCanvasPoint(e));
+  };
+
+  const handlePointerUp = () => {
+    lastPointRef.current = null;
+  };
+
+  const clearMask = () => {
+    const canvas = canvasRef.current;
+    canvas?.getContext('2d')?.clearRect(0, 0, canvas.width, canvas.height);
+    setHasMask(false);
+  };
+
+  const exportMask = (): string => {
+    const overlay = canvasRef.current!;
+    const mask = document.createElement('canvas');
+    mask.width = overlay.width;
+    mask.height = overlay.height;
+    const ctx = mask.getContext('2d')!;
+
+    // Painted pixels turn white, then go on a black background
+    ctx.drawImage(overlay, 0, 0);
+    ctx.globalCompositeOperation = 'source-in';
+    ctx.fillStyle = '#fff';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+    ctx.globalCompositeOperation = 'destination-over';
+    ctx.fillStyle = '#000';
+    ctx.fillRect(0, 0, mask.width, mask.height);
+
+    return mask.toDataURL('image/png');
+  };
+
+  const canApply = hasMask && instruction.trim().length > 0 && !isWorking;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center sm:p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={isWorking ? undefined : onClose} />
+      <div className="bg-slate-900 border-t md:border border-slate-800 rounded-t-2xl md:rounded-2xl w-full max-w-4xl max-h-[95vh] flex flex-col shadow-2xl animate-slide-up z-10">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <Brush size={16} className="text-indigo-400" /> Fix a Region — {title}
+          </h3>
+          <button onClick={onClose} disabled={isWorking} className="p-1 hover:bg-slate-800 rounded-full text-slate-400 disabled:opacity-40">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-4 py-2 flex flex-wrap items-center gap-3 border-b border-slate-800 shrink-0">
+          <div className="flex bg-slate-950 border border-slate-800 rounded-lg p-0.5">
+            {(['brush', 'eraser'] as const).map(option => (
+              <button
+                key={option}
+                onClick={() => setTool(option)}
+                className={`px-2.5 py-1 rounded-md text-xs flex items-center gap-1.5 capitalize transition-colors ${tool === option ? 'bg-indigo-600 text-white' : 'text-slate-400 hover:text-white'}`}
+              >
+                {option === 'brush' ? <Brush size={12} /> : <Eraser size={12} />} {option}
+              </button>
+            ))}
+          </div>
+          <label className="flex items-center gap-2 text-xs text-slate-400">
+            Size
+            <input
+              type="range"
+              min={MIN_BRUSH}
+              max={MAX_BRUSH}
+              step={0.005}
+              value={brush}
+              onChange={(e) => setBrush(parseFloat(e.target.value))}
+              className="w-28 accent-indigo-500"
+            />
+          </label>
+          <button
+            onClick={clearMask}
+            disabled={!hasMask || isWorking}
+            className="px-2.5 py-1 text-xs text-slate-400 hover:text-white disabled:opacity-40 rounded-lg flex items-center gap-1.5"
+          >
+            <Trash2 size={12} /> Clear mask
+          </button>
+        </div>
+
+        <div className="p-4 overflow-auto custom-scrollbar flex-1 min-h-0 flex items-center justify-center bg-slate-950/50">
+          <div className="relative inline-block max-w-full">
+            <img
+              src={imageUrl}
+              alt=""
+              className="block max-w-full max-h-[60vh] select-none"
+              draggable={false}
+              onLoad={(e) => setSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+            />
+            {size && (
+              <canvas
+                ref={canvasRef}
+                width={size.width}
+                height={size.height}
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                className="absolute inset-0 w-full h-full opacity-50 cursor-crosshair touch-none"
+              />
+            )}
+            {isWorking && (
+              <div className="absolute inset-0 bg-black/60 flex flex-col items-center justify-center text-white text-xs gap-2">
+                <Loader2 className="animate-spin" size={24} /> {status || 'Editing...'}
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex flex-col sm:flex-row gap-2 shrink-0">
+          <input
+            value={instruction}
+            onChange={(e) => setInstruction(e.target.value)}
+            onKeyDown={(e) => { if (e.key === 'Enter' && canApply) onApply(exportMask(), instruction.trim()); }}
+            placeholder={hasMask ? 'Describe the change, e.g. "make her smile"' : 'Paint over the area to fix first'}
+            className="flex-1 bg-slate-950 border border-slate-800 rounded-lg p-2.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+          />
+          <button
+            onClick={() => onApply(exportMask(), instruction.trim())}
+            disabled={!canApply}
+            className="px-4 py-2 text-sm font-bold bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg flex items-center justify-center gap-2"
+          >
+            {isWorking ? <Loader2 size={14} className="animate-spin" /> : <Wand2 size={14} />} Apply Fix
+          </button>
+        </div>
+        <p className="px-4 pb-3 text-[11px] text-slate-500">The result is added to the storyboard's images as a new candidate and becomes the active image.</p>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default InpaintEditor;
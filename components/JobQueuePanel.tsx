@@ -0,0 +1,156 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import {
+  X,
+  ListOrdered,
+  Image as ImageIcon,
+  Film,
+  Volume2,
+  Loader2,
+  Pause,
+  Play,
+  RotateCcw,
+  Ban,
+  Check,
+  AlertTriangle,
+  Trash2
+} from 'lucide-react';
+import { GenerationJob, GenerationJobKind, GenerationJobStatus, Storyboard } from '../types';
+
+interface Props {
+  jobs: GenerationJob[];
+  storyboards: Storyboard[];
+  onPause: (jobId: string) => void;
+  onResume: (jobId: string) => void;
+  onCancel: (jobId: string) => void;
+  onRetry: (jobId: string) => void;
+  onPauseAll: () => void;
+  onResumeAll: () => void;
+  onClearFinished: () => void;
+  onClose: () => void;
+}
+
+const KIND_ICONS: Record<GenerationJobKind, React.ReactNode> = {
+  image: <ImageIcon size={14} className="text-amber-400" />,
+  video: <Film size={14} className="text-rose-400" />,
+  audio: <Volume2 size={14} className="text-cyan-400" />,
+};
+
+const STATUS_STYLES: Record<GenerationJobStatus, string> = {
+  queued: 'bg-slate-800 text-slate-300 border-slate-700',
+  running: 'bg-indigo-600/20 text-indigo-300 border-indigo-500/40',
+  paused: 'bg-amber-500/10 text-amber-400 border-amber-500/30',
+  completed: 'bg-emerald-500/10 text-emerald-400 border-emerald-500/30',
+  failed: 'bg-rose-500/10 text-rose-400 border-rose-500/30',
+  cancelled: 'bg-slate-900 text-slate-500 border-slate-800',
+};
+
+const JobQueuePanel: React.FC<Props> = ({ jobs, storyboards, onPause, onResume, onCancel, onRetry, onPauseAll, onResumeAll, onClearFinished, onClose }) => {
+  const activeCount = jobs.filter(j => j.status === 'queued' || j.status === 'running').length;
+  const hasPaused = jobs.some(j => j.status === 'paused');
+  const hasFinished = jobs.some(j => j.status === 'completed' || j.status === 'failed' || j.status === 'cancelled');
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center sm:p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="bg-slate-900 border-t md:border border-slate-800 rounded-t-2xl md:rounded-2xl w-full md:max-w-xl shadow-2xl relative animate-slide-up max-h-[85vh] flex flex-col z-10">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <ListOrdered size={18} className="text-indigo-400" /> Generation Queue
+            <span className="text-xs font-normal text-slate-500">{activeCount} active</span>
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded-full text-slate-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="px-4 py-2 border-b border-slate-800 flex flex-wrap gap-2 shrink-0">
+          <button
+            onClick={onPauseAll}
+            disabled={!jobs.some(j => j.status === 'queued')}
+            className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-slate-200 text-xs rounded-lg flex items-center gap-1.5 border border-slate-700"
+          >
+            <Pause size={12} /> Pause All
+          </button>
+          <button
+            onClick={onResumeAll}
+            disabled={!hasPaused}
+            className="px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-slate-200 text-xs rounded-lg flex items-center gap-1.5 border border-slate-700"
+          >
+            <Play size={12} /> Resume All
+          </button>
+          <button
+            onClick={onClearFinished}
+            disabled={!hasFinished}
+            className="ml-auto px-3 py-1.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 text-slate-400 text-xs rounded-lg flex items-center gap-1.5 border border-slate-700"
+          >
+            <Trash2 size={12} /> Clear Finished
+          </button>
+        </div>
+
+        <div className="p-2 overflow-y-auto custom-scrollbar space-y-1.5">
+          {jobs.length === 0 && (
+            <p className="text-center text-sm text-slate-500 py-10">No jobs yet. Use "Generate Visuals" or "Generate Audio" to queue work.</p>
+          )}
+
+          {jobs.map(job => {
+            const index = storyboards.findIndex(s => s.id === job.storyboardId);
+            return (
+              <div key={job.id} className="p-3 rounded-xl bg-slate-950 border border-slate-800 flex items-center gap-3">
+                <div className="w-8 h-8 rounded-lg bg-slate-900 border border-slate-800 flex items-center justify-center shrink-0">
+                  {KIND_ICONS[job.kind]}
+                </div>
+
+                <div className="min-w-0 flex-1">
+                  <div className="flex items-center gap-2">
+                    <span className="text-xs font-mono font-bold text-slate-300">
+                      {index >= 0 ? `STORYBOARD ${index + 1}` : 'Deleted storyboard'}
+                    </span>
+                    <span className={`text-[10px] px-1.5 py-0.5 rounded-full border uppercase font-bold flex items-center gap-1 ${STATUS_STYLES[job.status]}`}>
+                      {job.status === 'running' && <Loader2 size={10} className="animate-spin" />}
+                      {job.status === 'completed' && <Check size={10} />}
+                      {job.status}
+                    </span>
+                    {job.attempts > 1 && <span className="text-[10px] text-slate-600">attempt {job.attempts}</span>}
+                  </div>
+                  {job.status === 'failed' && job.error && (
+                    <p className="text-[11px] text-rose-400 mt-1 flex items-start gap-1 line-clamp-2" title={job.error}>
+                      <AlertTriangle size={11} className="shrink-0 mt-0.5" /> {job.error}
+                    </p>
+                  )}
+                </div>
+
+                <div className="flex gap-1 shrink-0">
+                  {job.status === 'queued' && (
+                    <button onClick={() => onPause(job.id)} className="p-1.5 hover:bg-slate-800 text-slate-400 hover:text-amber-400 rounded" title="Pause">
+                      <Pause size={14} />
+                    </button>
+                  )}
+                  {job.status === 'paused' && (
+                    <button onClick={() => onResume(job.id)} className="p-1.5 hover:bg-slate-800 text-slate-400 hover:text-emerald-400 rounded" title="Resume">
+                      <Play size={14} />
+                    </button>
+                  )}
+                  {(job.status === 'failed' || job.status === 'cancelled') && (
+                    <button onClick={() => onRetry(job.id)} className="p-1.5 hover:bg-slate-800 text-slate-400 hover:text-indigo-400 rounded" title="Retry">
+                      <RotateCcw size={14} />
+                    </button>
+                  )}
+                  {(job.status === 'queued' || job.status === 'running' || job.status === 'paused') && (
+                    <button onClick={() => onCancel(job.id)} className="p-1.5 hover:bg-slate-800 text-slate-400 hover:text-rose-400 rounded" title="Cancel">
+                      <Ban size={14} />
+                    </button>
+                  )}
+                </div>
+              </div>
+            );
+          })}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default JobQueuePanel;
@@ -0,0 +1,97 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { MapPin, X, Check, Image as ImageIcon, CornerDownRight } from 'lucide-react';
+import { Location } from '../types';
+
+interface Props {
+  title: string;
+  locations: Location[];
+  selectedId?: string; // '' = none; undefined = inherited (only when `inheritLabel` is given)
+  inheritLabel?: string; // Offers a "use the project default" option, e.g. "Project default (Harbor)"
+  onSelect: (locationId: string | undefined) => void;
+  onClose: () => void;
+}
+
+// Location choice for the project default or a single storyboard
+const LocationPickerModal: React.FC<Props> = ({ title, locations, selectedId, inheritLabel, onSelect, onClose }) => {
+  const optionClass = (isActive: boolean, padding = 'p-3') =>
+    `w-full ${padding} rounded-xl flex items-center gap-3 transition-all ${isActive ? 'bg-indigo-600/20 border border-indigo-500/50' : 'bg-slate-950 border border-slate-800 hover:border-slate-700'}`;
+
+  const select = (locationId: string | undefined) => {
+    onSelect(locationId);
+    onClose();
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-end justify-center sm:items-center sm:p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose} />
+      <div className="bg-slate-900 border-t sm:border border-slate-700 rounded-t-2xl sm:rounded-2xl w-full sm:max-w-md max-h-[80vh] flex flex-col shadow-2xl animate-slide-up z-10">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center bg-slate-900/50 rounded-t-2xl">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <MapPin size={16} className="text-indigo-400" /> {title}
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded-full text-slate-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-2 overflow-y-auto custom-scrollbar space-y-2">
+          {inheritLabel && (
+            <button onClick={() => select(undefined)} className={optionClass(selectedId === undefined)}>
+              <div className="w-12 h-12 rounded-lg bg-slate-900 flex items-center justify-center text-slate-500 border border-slate-800">
+                <CornerDownRight size={20} />
+              </div>
+              <div className="text-left">
+                <p className="font-bold text-sm text-white">{inheritLabel}</p>
+                <p className="text-xs text-slate-500">Follows the project's default location</p>
+              </div>
+              {selectedId === undefined && <div className="ml-auto text-indigo-400"><Check size={16} /></div>}
+            </button>
+          )}
+
+          <button onClick={() => select('')} className={optionClass(selectedId === '')}>
+            <div className="w-12 h-12 rounded-lg bg-slate-900 flex items-center justify-center text-slate-500 border border-slate-800">
+              <MapPin size={20} />
+            </div>
+            <div className="text-left">
+              <p className="font-bold text-sm text-white">None</p>
+              <p className="text-xs text-slate-500">Use scene description only</p>
+            </div>
+            {selectedId === '' && <div className="ml-auto text-indigo-400"><Check size={16} /></div>}
+          </button>
+
+          {locations.map(loc => {
+            const isActive = selectedId === loc.id;
+            const mediaUrl = (loc.media && loc.media.length > 0) ? loc.media[0].url : loc.mediaUrl;
+
+            return (
+              <button
+                key={loc.id}
+                onClick={() => select(loc.id)}
+                className={optionClass(isActive, 'p-2')}
+              >
+                <div className="w-12 h-12 rounded-lg bg-black overflow-hidden border border-slate-800 shrink-0">
+                  {mediaUrl ? (
+                    <img src={mediaUrl} alt={loc.name} className="w-full h-full object-cover" />
+                  ) : (
+                    <div className="w-full h-full flex items-center justify-center text-slate-700">
+                      <ImageIcon size={16} />
+                    </div>
+                  )}
+                </div>
+                <div className="text-left min-w-0 flex-1">
+                  <p className="font-bold text-sm text-white truncate">{loc.name}</p>
+                  <p className="text-xs text-slate-500 truncate">{loc.description || "No description"}</p>
+                </div>
+                {isActive && <div className="ml-auto text-indigo-400 shrink-0"><Check size={16} /></div>}
+              </button>
+            );
+          })}
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default LocationPickerModal;
@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Location, LocationMedia } from '../types';
+import { Location, LocationMedia, PromptTemplateOverrides } from '../types';
 import { User } from 'firebase/auth';
 import {
     Plus,
@@ -19,14 +19,15 @@ import {
     deleteLocationFromFirestore,
     uploadLocationMedia
 } from '../services/firebase';
-import { gemini } from '../services/geminiService';
+import { getAIProvider } from '../services/ai';
 
 interface LocationVaultProps {
     locations?: Location[]; // Optional for now as we might load it internally
     user: User;
+    promptTemplates?: PromptTemplateOverrides; // User defaults (locations are shared between projects)
 }
 
-const LocationVault: React.FC<LocationVaultProps> = ({ user }) => {
+const LocationVault: React.FC<LocationVaultProps> = ({ user, promptTemplates }) => {
     const [locations, setLocations] = useState<Location[]>([]);
     const [isLoading, setIsLoading] = useState(true);
     const [isUploading, setIsUploading] = useState(false);
@@ -158,7 +159,7 @@ const LocationVault: React.FC<LocationVaultProps> = ({ user }) => {
         setAnalyzingIds(prev => new Set(prev).add(loc.id));
         try {
             // @ts-ignore - We will update the service next
-            const description = await gemini.getLocationVisualDescription(mediaItems);
+            const description = await getAIProvider().getLocationVisualDescription(mediaItems, { templates: promptTemplates });
 
             // Update with new description
             const updatedLoc = { ...loc, visualDescription: description };
@@ -200,7 +201,7 @@ const LocationVault: React.FC<LocationVaultProps> = ({ user }) => {
         setIsAnalyzingForm(true);
         try {
             // @ts-ignore
-            const description = await gemini.getLocationVisualDescription(formMedia);
+            const description = await getAIProvider().getLocationVisualDescription(formMedia, { templates: promptTemplates });
             setFormVisualDesc(description);
         } catch (error: any) {
             console.error("Analysis failed:", error);
@@ -0,0 +1,185 @@
+import React, { useState, useRef, useEffect } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Film, Loader2, Download, AlertTriangle } from 'lucide-react';
+import { Storyboard, Character, PanelAspectRatio } from '../types';
+import { getSupportedMovieFormats, renderMotionComic, MovieExportProgress } from '../services/movieExport';
+
+interface Props {
+  projectTitle: string;
+  storyboards: Storyboard[];
+  characters: Character[];
+  storyboardDelay: number;
+  aspectRatio?: PanelAspectRatio; // Project panel shape; picks the default resolution
+  onClose: () => void;
+}
+
+const RESOLUTIONS = [
+  { id: '720p', label: '720p (1280×720)', width: 1280, height: 720 },
+  { id: '1080p', label: '1080p (1920×1080)', width: 1920, height: 1080 },
+  { id: 'square', label: 'Square (1080×1080)', width: 1080, height: 1080 },
+  { id: 'vertical', label: 'Vertical (1080×1920)', width: 1080, height: 1920 },
+];
+
+// Vertical panels default to a vertical (short-form) video, square ones to a square video
+const getDefaultResolutionId = (aspectRatio?: PanelAspectRatio) =>
+  aspectRatio === '9:16' || aspectRatio === 'strip' ? 'vertical' : aspectRatio === '1:1' ? 'square' : '720p';
+
+const MovieExportModal: React.FC<Props> = ({ projectTitle, storyboards, characters, storyboardDelay, aspectRatio, onClose }) => {
+  const formats = getSupportedMovieFormats();
+  const [formatIndex, setFormatIndex] = useState(0);
+  const [resolutionId, setResolutionId] = useState(() => getDefaultResolutionId(aspectRatio));
+  const [burnCaptions, setBurnCaptions] = useState(true);
+  const [progress, setProgress] = useState<MovieExportProgress | null>(null);
+  const [isRendering, setIsRendering] = useState(false);
+  const cancelledRef = useRef(false);
+
+  // Stop rendering if the modal goes away mid-export
+  useEffect(() => () => { cancelledRef.current = true; }, []);
+
+  const handleRender = async () => {
+    const format = formats[formatIndex];
+    const resolution = RESOLUTIONS.find(r => r.id === resolutionId) || RESOLUTIONS[0];
+    if (!format) return;
+
+    cancelledRef.current = false;
+    setIsRendering(true);
+
+    try {
+      const blob = await renderMotionComic(
+        storyboards,
+        characters,
+        { width: resolution.width, height: resolution.height, storyboardDelay, burnCaptions, format },
+        setProgress,
+        () => cancelledRef.current
+      );
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${projectTitle.replace(/["<>\\]/g, '').replace(/\s+/g, '_').toLowerCase()}.${format.extension}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (error) {
+      if (!cancelledRef.current) {
+        console.error("Movie export failed:", error);
+        alert(`Video export failed: ${error instanceof Error ? error.message : String(error)}`);
+      }
+    } finally {
+      setIsRendering(false);
+      setProgress(null);
+    }
+  };
+
+  const handleCancel = () => {
+    cancelledRef.current = true;
+    if (!isRendering) onClose();
+  };
+
+  const percent = progress ? Math.round(((progress.index + (progress.phase === 'finalizing' ? 1 : 0)) / progress.total) * 100) : 0;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center sm:p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={isRendering ? undefined : onClose} />
+
+      <div className="bg-slate-900 border-t md:border border-slate-800 rounded-t-2xl md:rounded-2xl w-full md:max-w-md shadow-2xl relative animate-slide-up max-h-[85vh] flex flex-col z-10">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <Film size={18} className="text-indigo-400" /> Export Video
+          </h3>
+          <button onClick={handleCancel} className="p-1 hover:bg-slate-800 rounded-full text-slate-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto custom-scrollbar">
+          {formats.length === 0 ? (
+            <p className="text-sm text-rose-400 flex items-start gap-2">
+              <AlertTriangle size={16} className="shrink-0 mt-0.5" /> This browser cannot record video. Try a recent version of Chrome, Edge, Firefox or Safari.
+            </p>
+          ) : (
+            <>
+              <div>
+                <label className="text-xs text-slate-500 uppercase font-bold mb-1 block">Format</label>
+                <select
+                  value={formatIndex}
+                  onChange={(e) => setFormatIndex(Number(e.target.value))}
+                  disabled={isRendering}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+                >
+                  {formats.map((f, i) => (
+                    <option key={f.mimeType} value={i}>{f.extension.toUpperCase()}</option>
+                  ))}
+                </select>
+              </div>
+
+              <div>
+                <label className="text-xs text-slate-500 uppercase font-bold mb-1 block">Resolution</label>
+                <select
+                  value={resolutionId}
+                  onChange={(e) => setResolutionId(e.target.value)}
+                  disabled={isRendering}
+                  className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+                >
+                  {RESOLUTIONS.map(r => <option key={r.id} value={r.id}>{r.label}</option>)}
+                </select>
+              </div>
+
+              <label className="flex items-center gap-2 text-sm text-slate-300 cursor-pointer">
+                <input
+                  type="checkbox"
+                  checked={burnCaptions}
+                  onChange={(e) => setBurnCaptions(e.target.checked)}
+                  disabled={isRendering}
+                  className="accent-indigo-500"
+                />
+                Burn in captions
+              </label>
+
+              <p className="text-xs text-slate-500">
+                Rendering runs in real time, so it takes about as long as the movie itself. Keep this tab in the foreground until it finishes.
+              </p>
+
+              {isRendering && (
+                <div className="space-y-1.5">
+                  <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                    <div className="h-full bg-indigo-500 transition-all" style={{ width: `${percent}%` }} />
+                  </div>
+                  <p className="text-xs text-slate-400">
+                    {progress?.phase === 'finalizing'
+                      ? 'Finalizing file...'
+                      : progress
+                        ? `${progress.phase === 'loading' ? 'Loading' : 'Rendering'} storyboard ${progress.index + 1} of ${progress.total}`
+                        : 'Preparing...'}
+                  </p>
+                </div>
+              )}
+            </>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex gap-3 shrink-0">
+          <button
+            onClick={handleCancel}
+            className="flex-1 py-2.5 bg-slate-800 hover:bg-slate-700 text-slate-200 rounded-lg text-sm font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRender}
+            disabled={isRendering || formats.length === 0 || storyboards.length === 0}
+            className="flex-1 py-2.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg text-sm font-bold flex items-center justify-center gap-2"
+          >
+            {isRendering ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            {isRendering ? 'Rendering...' : 'Render & Download'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default MovieExportModal;
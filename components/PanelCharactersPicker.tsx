@@ -0,0 +1,51 @@
+import React from 'react';
+import { RotateCcw } from 'lucide-react';
+import { Character } from '../types';
+
+interface Props {
+  characters: Character[]; // Candidates: the project cast plus anyone already in the panel
+  selectedIds: string[];
+  isDerived: boolean; // True while the selection is just the speakers (no explicit list yet)
+  onChange: (characterIds: string[] | undefined) => void; // undefined goes back to the speakers
+}
+
+// Toggles which characters are visible in a storyboard's frame
+const PanelCharactersPicker: React.FC<Props> = ({ characters, selectedIds, isDerived, onChange }) => {
+  const toggle = (id: string) => {
+    onChange(selectedIds.includes(id) ? selectedIds.filter(s => s !== id) : [...selectedIds, id]);
+  };
+
+  if (characters.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap items-center gap-1.5">
+      {characters.map(character => {
+        const isSelected = selectedIds.includes(character.id);
+        return (
+          <button
+            key={character.id}
+            onClick={() => toggle(character.id)}
+            className={`flex items-center gap-1.5 pl-0.5 pr-2 py-0.5 rounded-full border text-[11px] transition-colors ${isSelected ? 'bg-indigo-600/20 border-indigo-500/50 text-indigo-200' : 'bg-slate-950 border-slate-800 text-slate-500 hover:text-white'}`}
+            title={isSelected ? `Remove ${character.name} from the frame` : `Add ${character.name} to the frame`}
+          >
+            {character.imageUrl
+              ? <img src={character.imageUrl} alt="" className={`w-4 h-4 rounded-full object-cover ${isSelected ? '' : 'opacity-50'}`} />
+              : <span className="w-4 h-4 rounded-full bg-slate-800 flex items-center justify-center text-[9px]">{character.name.charAt(0)}</span>}
+            {character.name}
+          </button>
+        );
+      })}
+      {!isDerived && (
+        <button
+          onClick={() => onChange(undefined)}
+          className="p-1 rounded text-slate-500 hover:text-white"
+          title="Reset to the speakers of the dialogue"
+        >
+          <RotateCcw size={11} />
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default PanelCharactersPicker;
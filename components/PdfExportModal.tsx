@@ -0,0 +1,186 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, FileText, Loader2, Download } from 'lucide-react';
+import { Storyboard, Character } from '../types';
+import {
+  renderComicPdf,
+  PDF_PAGE_SIZES,
+  PDF_LAYOUTS,
+  PdfPageSizeId,
+  PdfLayoutId,
+  PdfDialogueStyle
+} from '../services/pdfExport';
+
+interface Props {
+  projectTitle: string;
+  storyboards: Storyboard[];
+  characters: Character[];
+  onClose: () => void;
+}
+
+const PdfExportModal: React.FC<Props> = ({ projectTitle, storyboards, characters, onClose }) => {
+  const [pageSize, setPageSize] = useState<PdfPageSizeId>('us-comic');
+  const [layout, setLayout] = useState<PdfLayoutId>('2x2');
+  const [dialogueStyle, setDialogueStyle] = useState<PdfDialogueStyle>('balloon');
+  const [bleed, setBleed] = useState(0.125);
+  const [margin, setMargin] = useState(0.25);
+  const [progress, setProgress] = useState<{ done: number; total: number } | null>(null);
+
+  const isRendering = progress !== null;
+  const perPage = PDF_LAYOUTS.find(l => l.id === layout)?.perPage || 1;
+  const pageCount = Math.ceil(storyboards.length / perPage);
+
+  const handleRender = async () => {
+    setProgress({ done: 0, total: storyboards.length });
+
+    try {
+      const blob = await renderComicPdf(
+        storyboards,
+        characters,
+        { title: projectTitle, pageSize, layout, dialogueStyle, bleed, margin },
+        (done, total) => setProgress({ done, total })
+      );
+
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${projectTitle.replace(/["<>\\]/g, '').replace(/\s+/g, '_').toLowerCase()}.pdf`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      onClose();
+    } catch (error) {
+      console.error("PDF export failed:", error);
+      alert(`PDF export failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setProgress(null);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center sm:p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={isRendering ? undefined : onClose} />
+
+      <div className="bg-slate-900 border-t md:border border-slate-800 rounded-t-2xl md:rounded-2xl w-full md:max-w-md shadow-2xl relative animate-slide-up max-h-[85vh] flex flex-col z-10">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <FileText size={18} className="text-indigo-400" /> Export Print PDF
+          </h3>
+          <button onClick={onClose} disabled={isRendering} className="p-1 hover:bg-slate-800 rounded-full text-slate-400 disabled:opacity-40">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-5 space-y-4 overflow-y-auto custom-scrollbar">
+          <div>
+            <label className="text-xs text-slate-500 uppercase font-bold mb-1 block">Page Size</label>
+            <select
+              value={pageSize}
+              onChange={(e) => setPageSize(e.target.value as PdfPageSizeId)}
+              disabled={isRendering}
+              className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+            >
+              {PDF_PAGE_SIZES.map(s => <option key={s.id} value={s.id}>{s.label}</option>)}
+            </select>
+          </div>
+
+          <div>
+            <label className="text-xs text-slate-500 uppercase font-bold mb-1 block">Layout</label>
+            <div className="grid grid-cols-3 gap-2">
+              {PDF_LAYOUTS.map(l => (
+                <button
+                  key={l.id}
+                  onClick={() => setLayout(l.id)}
+                  disabled={isRendering}
+                  className={`py-2 rounded-lg text-xs font-medium border transition-colors ${layout === l.id ? 'bg-indigo-600/20 border-indigo-500 text-indigo-300' : 'bg-slate-950 border-slate-700 text-slate-400 hover:border-slate-600'}`}
+                >
+                  {l.label}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div>
+            <label className="text-xs text-slate-500 uppercase font-bold mb-1 block">Dialogue</label>
+            <div className="grid grid-cols-2 gap-2">
+              {(['balloon', 'caption'] as PdfDialogueStyle[]).map(style => (
+                <button
+                  key={style}
+                  onClick={() => setDialogueStyle(style)}
+                  disabled={isRendering}
+                  className={`py-2 rounded-lg text-xs font-medium border transition-colors ${dialogueStyle === style ? 'bg-indigo-600/20 border-indigo-500 text-indigo-300' : 'bg-slate-950 border-slate-700 text-slate-400 hover:border-slate-600'}`}
+                >
+                  {style === 'balloon' ? 'Speech Balloons' : 'Caption Boxes'}
+                </button>
+              ))}
+            </div>
+          </div>
+
+          <div className="grid grid-cols-2 gap-3">
+            <div>
+              <label className="text-xs text-slate-500 uppercase font-bold mb-1 block">Bleed (in)</label>
+              <input
+                type="number"
+                min={0}
+                max={0.5}
+                step={0.125}
+                value={bleed}
+                onChange={(e) => setBleed(Math.max(0, Number(e.target.value) || 0))}
+                disabled={isRendering}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+              />
+            </div>
+            <div>
+              <label className="text-xs text-slate-500 uppercase font-bold mb-1 block">Safe Margin (in)</label>
+              <input
+                type="number"
+                min={0}
+                max={1}
+                step={0.125}
+                value={margin}
+                onChange={(e) => setMargin(Math.max(0, Number(e.target.value) || 0))}
+                disabled={isRendering}
+                className="w-full bg-slate-950 border border-slate-700 rounded-lg p-2.5 text-sm text-white focus:outline-none focus:border-indigo-500"
+              />
+            </div>
+          </div>
+
+          <p className="text-xs text-slate-500">
+            {storyboards.length} storyboards on {pageCount} page{pageCount === 1 ? '' : 's'}. Video storyboards without a still use a frame from their clip.
+          </p>
+
+          {progress && (
+            <div className="space-y-1.5">
+              <div className="h-2 bg-slate-800 rounded-full overflow-hidden">
+                <div className="h-full bg-indigo-500 transition-all" style={{ width: `${Math.round(progress.done / progress.total * 100)}%` }} />
+              </div>
+              <p className="text-xs text-slate-400">Laying out storyboard {Math.min(progress.done + 1, progress.total)} of {progress.total}</p>
+            </div>
+          )}
+        </div>
+
+        <div className="p-4 border-t border-slate-800 flex gap-3 shrink-0">
+          <button
+            onClick={onClose}
+            disabled={isRendering}
+            className="flex-1 py-2.5 bg-slate-800 hover:bg-slate-700 disabled:opacity-50 text-slate-200 rounded-lg text-sm font-medium"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleRender}
+            disabled={isRendering || storyboards.length === 0}
+            className="flex-1 py-2.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg text-sm font-bold flex items-center justify-center gap-2"
+          >
+            {isRendering ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+            {isRendering ? 'Building PDF...' : 'Download PDF'}
+          </button>
+        </div>
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default PdfExportModal;
@@ -0,0 +1,104 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, Terminal, Copy, Check } from 'lucide-react';
+import { PromptRecord, PromptRecordKind } from '../types';
+import { PROMPT_TEMPLATES } from '../services/promptTemplates';
+
+interface Props {
+  title: string;
+  prompts: Partial<Record<PromptRecordKind, PromptRecord>>;
+  onClose: () => void;
+}
+
+const KIND_LABELS: Record<PromptRecordKind, string> = {
+  script: 'Script',
+  image: 'Image',
+  video: 'Video',
+  audio: 'Speech',
+};
+
+// Read-only view of the final prompts recorded on a storyboard, one tab per generated asset
+const PromptInspector: React.FC<Props> = ({ title, prompts, onClose }) => {
+  const kinds = (Object.keys(KIND_LABELS) as PromptRecordKind[]).filter(kind => prompts[kind]);
+  const [activeKind, setActiveKind] = useState<PromptRecordKind | undefined>(kinds.find(k => k !== 'script') || kinds[0]);
+  const [copied, setCopied] = useState(false);
+
+  const record = activeKind ? prompts[activeKind] : undefined;
+
+  const handleCopy = async () => {
+    if (!record) return;
+    try {
+      await navigator.clipboard.writeText(record.prompt);
+      setCopied(true);
+      setTimeout(() => setCopied(false), 1500);
+    } catch (error) {
+      console.error("Copy failed:", error);
+    }
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center sm:p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="bg-slate-900 border-t md:border border-slate-800 rounded-t-2xl md:rounded-2xl w-full md:max-w-3xl shadow-2xl relative animate-slide-up max-h-[85vh] flex flex-col z-10">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <Terminal size={18} className="text-indigo-400" /> Final Prompts
+            <span className="text-xs font-normal text-slate-500">{title}</span>
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded-full text-slate-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        {!record ? (
+          <p className="text-center text-sm text-slate-500 py-16 px-6">
+            Nothing generated yet. Prompts are recorded each time a script, image, video or voiceover is generated.
+          </p>
+        ) : (
+          <div className="flex flex-col min-h-0 flex-1">
+            <div className="px-4 pt-3 flex gap-1.5 shrink-0">
+              {kinds.map(kind => (
+                <button
+                  key={kind}
+                  onClick={() => setActiveKind(kind)}
+                  className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${kind === activeKind ? 'bg-indigo-600/20 border-indigo-500/50 text-indigo-200' : 'bg-slate-950 border-slate-800 text-slate-400 hover:text-white'}`}
+                >
+                  {KIND_LABELS[kind]}
+                </button>
+              ))}
+            </div>
+
+            <div className="px-4 py-3 flex flex-wrap items-center gap-x-4 gap-y-1 text-xs text-slate-400 shrink-0">
+              <span>Model: <span className="font-mono text-slate-200">{record.model}</span></span>
+              <span>Provider: <span className="text-slate-200">{record.provider}</span></span>
+              {record.templateId && <span>Template: <span className="text-slate-200">{PROMPT_TEMPLATES[record.templateId].label}</span></span>}
+              <span>{new Date(record.createdAt).toLocaleString()}</span>
+              <button onClick={handleCopy} className="ml-auto flex items-center gap-1 text-slate-400 hover:text-white">
+                {copied ? <Check size={12} className="text-green-400" /> : <Copy size={12} />} {copied ? 'Copied' : 'Copy'}
+              </button>
+            </div>
+
+            {!!record.referenceImageUrls?.length && (
+              <div className="px-4 pb-3 flex items-center gap-2 shrink-0">
+                <span className="text-xs text-slate-500">Reference images:</span>
+                {record.referenceImageUrls.map(url => (
+                  <a key={url} href={url} target="_blank" rel="noreferrer">
+                    <img src={url} alt="" className="w-10 h-10 rounded-md object-cover border border-slate-800 hover:border-indigo-500" />
+                  </a>
+                ))}
+              </div>
+            )}
+
+            <pre className="mx-4 mb-4 p-3 bg-slate-950 border border-slate-800 rounded-xl text-xs text-slate-200 font-mono whitespace-pre-wrap break-words overflow-y-auto custom-scrollbar flex-1 min-h-0">
+              {record.prompt}
+            </pre>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default PromptInspector;
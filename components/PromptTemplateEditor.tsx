@@ -0,0 +1,101 @@
+import React, { useEffect, useState } from 'react';
+import { RotateCcw, Save, AlertTriangle } from 'lucide-react';
+import { PromptTemplateId, PromptTemplateOverrides } from '../types';
+import { PROMPT_TEMPLATES, getPromptTemplate, findUnknownVariables } from '../services/promptTemplates';
+
+interface Props {
+  templateIds: PromptTemplateId[];
+  overrides: PromptTemplateOverrides; // Overrides being edited
+  base?: PromptTemplateOverrides; // Overrides underneath (user defaults below a project)
+  baseLabel: string; // What "reset" returns to, e.g. "built-in" or "your default"
+  onSave: (overrides: PromptTemplateOverrides) => void;
+}
+
+// Edits one template at a time; saving text equal to the underlying template removes the override
+const PromptTemplateEditor: React.FC<Props> = ({ templateIds, overrides, base, baseLabel, onSave }) => {
+  const [activeId, setActiveId] = useState<PromptTemplateId>(templateIds[0]);
+  const baseText = getPromptTemplate(activeId, base);
+  const savedText = overrides[activeId] ?? baseText;
+  const [draft, setDraft] = useState(savedText);
+
+  useEffect(() => {
+    setDraft(savedText);
+  }, [activeId, savedText]);
+
+  const info = PROMPT_TEMPLATES[activeId];
+  const unknown = findUnknownVariables(activeId, draft);
+
+  const save = (text: string) => {
+    const next = { ...overrides };
+    if (!text.trim() || text === baseText) delete next[activeId];
+    else next[activeId] = text;
+    onSave(next);
+  };
+
+  return (
+    <div className="space-y-3">
+      <div className="flex flex-wrap gap-1.5">
+        {templateIds.map(id => (
+          <button
+            key={id}
+            onClick={() => setActiveId(id)}
+            className={`px-3 py-1.5 rounded-lg text-xs font-medium border transition-colors ${id === activeId ? 'bg-indigo-600/20 border-indigo-500/50 text-indigo-200' : 'bg-slate-950 border-slate-800 text-slate-400 hover:text-white'}`}
+          >
+            {PROMPT_TEMPLATES[id].label}{overrides[id] !== undefined && <span className="text-amber-400"> •</span>}
+          </button>
+        ))}
+      </div>
+
+      <p className="text-xs text-slate-500">{info.description}</p>
+
+      <textarea
+        value={draft}
+        onChange={(e) => setDraft(e.target.value)}
+        rows={12}
+        spellCheck={false}
+        className="w-full bg-slate-950 border border-slate-800 rounded-xl p-3 text-xs text-slate-200 font-mono focus:outline-none focus:border-indigo-500 resize-y custom-scrollbar"
+      />
+
+      {unknown.length > 0 && (
+        <p className="text-xs text-amber-400 flex items-center gap-1.5">
+          <AlertTriangle size={12} /> Unknown variable{unknown.length === 1 ? '' : 's'} (rendered empty): {unknown.join(', ')}
+        </p>
+      )}
+
+      <div className="flex flex-wrap gap-1.5">
+        {Object.entries(info.variables).map(([name, meaning]) => (
+          <button
+            key={name}
+            onClick={() => setDraft(prev => `${prev}{{${name}}}`)}
+            className="px-2 py-1 bg-slate-950 border border-slate-800 hover:border-indigo-500/50 rounded text-[11px] font-mono text-slate-400 hover:text-indigo-300"
+            title={`${meaning} (click to append)`}
+          >
+            {`{{${name}}}`}
+          </button>
+        ))}
+      </div>
+      <p className="text-[11px] text-slate-600">
+        {'Use {{#name}}...{{/name}} for text that only appears when a variable is set, and {{^name}}...{{/name}} for text used when it is empty.'}
+      </p>
+
+      <div className="flex justify-end gap-2">
+        <button
+          onClick={() => save(baseText)}
+          disabled={overrides[activeId] === undefined}
+          className="px-3 py-2 text-xs text-slate-400 hover:text-white disabled:opacity-40 rounded-lg flex items-center gap-1.5"
+        >
+          <RotateCcw size={12} /> Reset to {baseLabel}
+        </button>
+        <button
+          onClick={() => save(draft)}
+          disabled={draft === savedText}
+          className="px-4 py-2 text-xs font-bold bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg flex items-center gap-1.5"
+        >
+          <Save size={12} /> Save Template
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default PromptTemplateEditor;
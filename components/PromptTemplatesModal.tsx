@@ -0,0 +1,45 @@
+import React from 'react';
+import { createPortal } from 'react-dom';
+import { X, Braces } from 'lucide-react';
+import { PromptTemplateId, PromptTemplateOverrides } from '../types';
+import PromptTemplateEditor from './PromptTemplateEditor';
+
+interface Props {
+  overrides: PromptTemplateOverrides; // The project's overrides
+  userDefaults?: PromptTemplateOverrides; // AppSettings.promptTemplates
+  onSave: (overrides: PromptTemplateOverrides) => void;
+  onClose: () => void;
+}
+
+// Location descriptions are generated in the Location Vault, outside any project
+const PROJECT_TEMPLATE_IDS: PromptTemplateId[] = ['script', 'image', 'inpaint', 'video', 'animate', 'characterDescribe'];
+
+const PromptTemplatesModal: React.FC<Props> = ({ overrides, userDefaults, onSave, onClose }) => createPortal(
+  <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center sm:p-4">
+    <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose} />
+
+    <div className="bg-slate-900 border-t md:border border-slate-800 rounded-t-2xl md:rounded-2xl w-full md:max-w-3xl shadow-2xl relative animate-slide-up max-h-[90vh] flex flex-col z-10">
+      <div className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+        <h3 className="font-bold text-white flex items-center gap-2">
+          <Braces size={18} className="text-indigo-400" /> Prompt Templates
+          <span className="text-xs font-normal text-slate-500">this project only</span>
+        </h3>
+        <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded-full text-slate-400">
+          <X size={20} />
+        </button>
+      </div>
+      <div className="p-4 overflow-y-auto custom-scrollbar">
+        <PromptTemplateEditor
+          templateIds={PROJECT_TEMPLATE_IDS}
+          overrides={overrides}
+          base={userDefaults}
+          baseLabel="default"
+          onSave={onSave}
+        />
+      </div>
+    </div>
+  </div>,
+  document.body
+);
+
+export default PromptTemplatesModal;
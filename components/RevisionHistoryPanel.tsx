@@ -0,0 +1,179 @@
+import React, { useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, History, RotateCcw, Plus, Minus, Pencil, Image as ImageIcon, Loader2 } from 'lucide-react';
+import { ProjectRevision, RevisionReason, Storyboard, Character } from '../types';
+import { diffStoryboards, RevisionDiffField, MAX_REVISIONS } from '../services/revisions';
+
+interface Props {
+  revisions: ProjectRevision[];
+  storyboards: Storyboard[];
+  characters: Character[];
+  onRestore: (revision: ProjectRevision) => Promise<void>;
+  onClose: () => void;
+}
+
+const REASON_LABELS: Record<RevisionReason, string> = {
+  script: 'Before script generation',
+  batch: 'Before batch generation',
+  autosave: 'Auto snapshot',
+  restore: 'Before restore',
+};
+
+// Every content field, in display order
+const FIELD_LABELS: Record<RevisionDiffField, string> = {
+  description: 'Description',
+  dialogue: 'Dialogue',
+  lines: 'Dialogue lines',
+  characterId: 'Speaker',
+  characterIds: 'Characters in frame',
+  locationId: 'Location',
+  aspectRatio: 'Panel shape',
+  overlays: 'Lettering',
+  imageUrl: 'Image',
+  imageCandidates: 'Image gallery',
+  videoUrl: 'Video',
+  audioUrl: 'Audio',
+  audioEdit: 'Audio edit',
+  prompts: 'Prompts',
+};
+const FIELD_ORDER = Object.keys(FIELD_LABELS);
+
+const STATUS_STYLES = {
+  added: 'border-emerald-500/30 bg-emerald-500/5',
+  removed: 'border-rose-500/30 bg-rose-500/5',
+  changed: 'border-amber-500/30 bg-amber-500/5',
+  unchanged: 'border-slate-800 bg-slate-950',
+};
+
+const RevisionHistoryPanel: React.FC<Props> = ({ revisions, storyboards, characters, onRestore, onClose }) => {
+  const [selectedId, setSelectedId] = useState<string | null>(revisions[0]?.id || null);
+  const [isRestoring, setIsRestoring] = useState(false);
+
+  const selected = revisions.find(r => r.id === selectedId);
+  const diffs = selected ? diffStoryboards(selected.storyboards, storyboards) : [];
+  const changedCount = diffs.filter(d => d.status !== 'unchanged').length;
+
+  const characterName = (id?: string) => characters.find(c => c.id === id)?.name || 'Narrator';
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    setIsRestoring(true);
+    try {
+      await onRestore(selected);
+    } finally {
+      setIsRestoring(false);
+    }
+  };
+
+  const renderFieldChange = (field: RevisionDiffField, before?: Storyboard, after?: Storyboard) => {
+    if (field === 'imageUrl' || field === 'videoUrl' || field === 'audioUrl') {
+      return (
+        <p key={field} className="text-xs text-slate-400 flex items-center gap-1.5">
+          <ImageIcon size={12} /> {FIELD_LABELS[field]} {before?.[field] ? (after?.[field] ? 'replaced' : 'removed') : 'added'}
+        </p>
+      );
+    }
+
+    if (field !== 'description' && field !== 'dialogue' && field !== 'characterId') {
+      return (
+        <p key={field} className="text-xs text-slate-400 flex items-center gap-1.5">
+          <Pencil size={12} /> {FIELD_LABELS[field] || field} changed
+        </p>
+      );
+    }
+
+    const format = (storyboard?: Storyboard) => field === 'characterId' ? characterName(storyboard?.characterId) : (storyboard?.[field] || '(empty)');
+    return (
+      <div key={field} className="text-xs space-y-0.5">
+        <span className="text-slate-500 uppercase font-bold text-[10px]">{FIELD_LABELS[field]}</span>
+        <p className="text-rose-300/80 line-through line-clamp-2">{format(before)}</p>
+        <p className="text-emerald-300/90 line-clamp-2">{format(after)}</p>
+      </div>
+    );
+  };
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center sm:p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={onClose} />
+
+      <div className="bg-slate-900 border-t md:border border-slate-800 rounded-t-2xl md:rounded-2xl w-full md:max-w-4xl shadow-2xl relative animate-slide-up h-[85vh] md:h-[75vh] flex flex-col z-10">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <History size={18} className="text-indigo-400" /> Revision History
+            <span className="text-xs font-normal text-slate-500">last {MAX_REVISIONS} kept</span>
+          </h3>
+          <button onClick={onClose} className="p-1 hover:bg-slate-800 rounded-full text-slate-400">
+            <X size={20} />
+          </button>
+        </div>
+
+        {revisions.length === 0 ? (
+          <p className="text-center text-sm text-slate-500 py-16 px-6">
+            No revisions yet. Snapshots are taken before script and batch generation, and every few minutes while you edit.
+          </p>
+        ) : (
+          <div className="flex flex-col md:flex-row flex-1 min-h-0">
+            <div className="md:w-64 border-b md:border-b-0 md:border-r border-slate-800 overflow-y-auto custom-scrollbar p-2 space-y-1 max-h-48 md:max-h-none shrink-0">
+              {revisions.map(revision => (
+                <button
+                  key={revision.id}
+                  onClick={() => setSelectedId(revision.id)}
+                  className={`w-full text-left p-2.5 rounded-lg border transition-colors ${revision.id === selectedId ? 'bg-indigo-600/20 border-indigo-500/50' : 'border-transparent hover:bg-slate-800'}`}
+                >
+                  <span className="block text-sm text-slate-200">{new Date(revision.createdAt).toLocaleString()}</span>
+                  <span className="block text-xs text-slate-500">{REASON_LABELS[revision.reason]} · {revision.storyboards.length} storyboards</span>
+                </button>
+              ))}
+            </div>
+
+            <div className="flex-1 flex flex-col min-h-0">
+              <div className="px-4 py-3 border-b border-slate-800 flex items-center justify-between gap-3 shrink-0">
+                <p className="text-xs text-slate-400">
+                  {changedCount === 0 ? 'Identical to the current storyboards.' : `${changedCount} storyboard${changedCount === 1 ? '' : 's'} differ from the current version.`}
+                </p>
+                <button
+                  onClick={handleRestore}
+                  disabled={!selected || isRestoring || changedCount === 0}
+                  className="px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white text-xs font-bold rounded-lg flex items-center gap-1.5 shrink-0"
+                >
+                  {isRestoring ? <Loader2 size={12} className="animate-spin" /> : <RotateCcw size={12} />} Restore
+                </button>
+              </div>
+
+              <div className="flex-1 overflow-y-auto custom-scrollbar p-3 space-y-2">
+                {diffs.map(diff => {
+                  const storyboard = diff.after || diff.before!;
+                  const index = storyboards.findIndex(s => s.id === diff.storyboardId);
+                  return (
+                    <div key={diff.storyboardId} className={`p-3 rounded-xl border ${STATUS_STYLES[diff.status]}`}>
+                      <div className="flex items-center gap-2 mb-1">
+                        {diff.status === 'added' && <Plus size={12} className="text-emerald-400" />}
+                        {diff.status === 'removed' && <Minus size={12} className="text-rose-400" />}
+                        {diff.status === 'changed' && <Pencil size={12} className="text-amber-400" />}
+                        <span className="text-xs font-mono font-bold text-slate-300">
+                          {index >= 0 ? `STORYBOARD ${index + 1}` : 'DELETED STORYBOARD'}
+                        </span>
+                        <span className="text-[10px] uppercase text-slate-500">
+                          {diff.status === 'added' ? 'added since' : diff.status === 'removed' ? 'deleted since' : diff.status}
+                        </span>
+                      </div>
+
+                      {diff.status === 'changed' ? (
+                        <div className="space-y-2 mt-2">{[...diff.changes].sort((a, b) => FIELD_ORDER.indexOf(a) - FIELD_ORDER.indexOf(b)).map(field => renderFieldChange(field, diff.before, diff.after))}</div>
+                      ) : (
+                        <p className="text-xs text-slate-400 line-clamp-2">{storyboard.dialogue || storyboard.description || '(empty storyboard)'}</p>
+                      )}
+                    </div>
+                  );
+                })}
+              </div>
+            </div>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default RevisionHistoryPanel;
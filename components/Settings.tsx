@@ -1,22 +1,36 @@
 import React from 'react';
-import { Mic, Play, Users, LogOut, ChevronDown, Monitor } from 'lucide-react';
-import { AppSettings, AVAILABLE_VOICES } from '../types';
+import { Mic, Play, Users, LogOut, ChevronDown, Monitor, Cpu, ListOrdered, Palette, Braces } from 'lucide-react';
+import { AppSettings, AVAILABLE_VOICES, AIProviderId, DEFAULT_JOB_CONCURRENCY, GenerationJobKind, DialogueAudioMode, StylePreset } from '../types';
+import StylePresetEditor from './StylePresetEditor';
+import PromptTemplateEditor from './PromptTemplateEditor';
+import { PROMPT_TEMPLATE_IDS } from '../services/promptTemplates';
+import { MAX_IMAGE_VARIATIONS } from '../services/imageCandidates';
+import { AI_PROVIDERS } from '../services/ai';
 import { User as FirebaseUser } from 'firebase/auth';
 
 interface SettingsProps {
     settings: AppSettings;
+    stylePresets: StylePreset[];
     user: FirebaseUser;
     onUpdateSettings: (settings: AppSettings) => void;
     onLogout: () => Promise<void>;
 }
 
-const Settings: React.FC<SettingsProps> = ({ settings, user, onUpdateSettings, onLogout }) => {
+const CONCURRENCY_LABELS: Record<GenerationJobKind, string> = {
+    image: 'Images',
+    video: 'Videos',
+    audio: 'Audio',
+};
+
+const Settings: React.FC<SettingsProps> = ({ settings, stylePresets, user, onUpdateSettings, onLogout }) => {
     // Defensive check: If settings are not yet loaded, show nothing or a loader.
     // In App.tsx, initial state is set, but this prevents crashes if something goes wrong.
     if (!settings) {
         return null;
     }
 
+    const concurrency = { ...DEFAULT_JOB_CONCURRENCY, ...settings.jobConcurrency };
+
     return (
         <div className="p-4 md:p-8 w-full max-w-3xl mx-auto animate-fade-in pb-24 md:pb-8">
             <h1 className="text-2xl md:text-3xl font-bold text-white mb-2 md:mb-4">Settings</h1>
@@ -49,6 +63,52 @@ const Settings: React.FC<SettingsProps> = ({ settings, user, onUpdateSettings, o
                             </div>
                         </div>
                     </div>
+                    <div className="w-full mt-5">
+                        <label className="block text-sm font-medium text-slate-300 mb-2">Dialogue Audio</label>
+                        <p className="text-xs text-slate-500 mb-3">Conversation renders all lines of a storyboard as one multi-speaker track, with captions following each line.</p>
+                        <div className="relative">
+                            <select
+                                value={settings.dialogueAudioMode || 'conversation'}
+                                onChange={(e) => onUpdateSettings({ ...settings, dialogueAudioMode: e.target.value as DialogueAudioMode })}
+                                className="w-full bg-slate-950 border border-slate-800 rounded-xl p-4 pr-10 text-white focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 appearance-none cursor-pointer transition-all"
+                            >
+                                <option value="conversation">Conversation track</option>
+                                <option value="lines">Separate clip per line</option>
+                            </select>
+                            <div className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none">
+                                <ChevronDown size={16} />
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Art Styles */}
+                <div className="bg-slate-900 border border-slate-800 rounded-xl p-5 md:p-6 transition-colors hover:border-slate-700">
+                    <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                        <div className="p-1.5 bg-indigo-500/10 rounded-lg text-indigo-400">
+                            <Palette size={18} />
+                        </div>
+                        Art Styles
+                    </h2>
+                    <p className="text-xs text-slate-500 mb-4">Presets shape every generated image and video. Pick one per project in the Studio sidebar.</p>
+                    <StylePresetEditor userId={user.uid} presets={stylePresets} />
+                </div>
+
+                {/* Prompt Templates */}
+                <div className="bg-slate-900 border border-slate-800 rounded-xl p-5 md:p-6 transition-colors hover:border-slate-700">
+                    <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                        <div className="p-1.5 bg-indigo-500/10 rounded-lg text-indigo-400">
+                            <Braces size={18} />
+                        </div>
+                        Prompt Templates
+                    </h2>
+                    <p className="text-xs text-slate-500 mb-4">Your defaults for every project. A project can override them from the Studio sidebar.</p>
+                    <PromptTemplateEditor
+                        templateIds={PROMPT_TEMPLATE_IDS}
+                        overrides={settings.promptTemplates || {}}
+                        baseLabel="built-in"
+                        onSave={(promptTemplates) => onUpdateSettings({ ...settings, promptTemplates })}
+                    />
                 </div>
 
                 {/* Playback Settings */}
@@ -89,6 +149,81 @@ const Settings: React.FC<SettingsProps> = ({ settings, user, onUpdateSettings, o
                     </div>
                 </div>
 
+                {/* AI Backend */}
+                <div className="bg-slate-900 border border-slate-800 rounded-xl p-5 md:p-6 transition-colors hover:border-slate-700">
+                    <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                        <div className="p-1.5 bg-indigo-500/10 rounded-lg text-indigo-400">
+                            <Cpu size={18} />
+                        </div>
+                        AI Backend
+                    </h2>
+                    <div className="w-full">
+                        <label className="block text-sm font-medium text-slate-300 mb-2">Generation Provider</label>
+                        <p className="text-xs text-slate-500 mb-3">Offline fixtures produce placeholder scripts, art and audio without using API quota.</p>
+                        <div className="relative">
+                            <select
+                                value={settings.aiProvider || 'gemini'}
+                                onChange={(e) => onUpdateSettings({ ...settings, aiProvider: e.target.value as AIProviderId })}
+                                className="w-full bg-slate-950 border border-slate-800 rounded-xl p-4 pr-10 text-white focus:outline-none focus:border-indigo-500 focus:ring-1 focus:ring-indigo-500 appearance-none cursor-pointer transition-all"
+                            >
+                                {Object.values(AI_PROVIDERS).map(provider => (
+                                    <option key={provider.id} value={provider.id}>{provider.label}</option>
+                                ))}
+                            </select>
+                            <div className="absolute right-4 top-1/2 -translate-y-1/2 text-slate-400 pointer-events-none">
+                                <ChevronDown size={16} />
+                            </div>
+                        </div>
+                    </div>
+                </div>
+
+                {/* Generation */}
+                <div className="bg-slate-900 border border-slate-800 rounded-xl p-5 md:p-6 transition-colors hover:border-slate-700">
+                    <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
+                        <div className="p-1.5 bg-indigo-500/10 rounded-lg text-indigo-400">
+                            <ListOrdered size={18} />
+                        </div>
+                        Generation
+                    </h2>
+                    <div className="w-full">
+                        <label className="block text-sm font-medium text-slate-300 mb-2">Parallel Jobs</label>
+                        <p className="text-xs text-slate-500 mb-4">How many batch jobs of each kind run at the same time. Lower values help with rate limits.</p>
+                        <div className="grid grid-cols-3 gap-3">
+                            {(Object.keys(CONCURRENCY_LABELS) as GenerationJobKind[]).map(kind => (
+                                <div key={kind} className="bg-slate-950 rounded-xl p-3 border border-slate-800">
+                                    <label className="block text-xs text-slate-500 mb-1">{CONCURRENCY_LABELS[kind]}</label>
+                                    <input
+                                        type="number"
+                                        min="1"
+                                        max="5"
+                                        value={concurrency[kind]}
+                                        onChange={(e) => {
+                                            const value = Math.min(5, Math.max(1, parseInt(e.target.value) || 1));
+                                            onUpdateSettings({ ...settings, jobConcurrency: { ...concurrency, [kind]: value } });
+                                        }}
+                                        className="w-full bg-transparent text-white font-bold text-lg focus:outline-none"
+                                    />
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                    <div className="w-full mt-6">
+                        <label className="block text-sm font-medium text-slate-300 mb-2">Image Variations</label>
+                        <p className="text-xs text-slate-500 mb-4">Images generated per request. All of them are kept in the storyboard's gallery, so you can pick the best one.</p>
+                        <div className="flex bg-slate-950 border border-slate-800 rounded-xl p-1 w-fit">
+                            {Array.from({ length: MAX_IMAGE_VARIATIONS }, (_, i) => i + 1).map(count => (
+                                <button
+                                    key={count}
+                                    onClick={() => onUpdateSettings({ ...settings, imageVariations: count })}
+                                    className={`w-10 py-1.5 rounded-lg text-sm font-bold transition-colors ${(settings.imageVariations || 1) === count ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-white'}`}
+                                >
+                                    {count}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+                </div>
+
                 {/* Account Info */}
                 <div className="bg-slate-900 border border-slate-800 rounded-xl p-5 md:p-6 transition-colors hover:border-slate-700">
                     <h2 className="text-lg font-semibold text-white mb-4 flex items-center gap-2">
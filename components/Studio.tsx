@@ -27,16 +27,68 @@ import {
   Plus,
   MapPin,
   Film,
-  ChevronDown
+  ChevronDown,
+  ListOrdered,
+  FileText,
+  BookOpen,
+  Package,
+  History,
+  Undo2,
+  Redo2,
+  GripVertical,
+  Copy,
+  CheckSquare,
+  Square,
+  MessageCircle,
+  Palette,
+  Braces,
+  Terminal,
+  Images,
+  Brush,
+  Crop,
+  Clapperboard,
+  MicVocal,
+  Scissors
 } from 'lucide-react';
-import { Project, Character, Storyboard, AVAILABLE_VOICES, AppSettings, Location } from '../types';
-import { gemini } from '../services/geminiService';
-import { uploadStoryboardImageFromString, uploadStoryboardImageFromFile, uploadStoryboardVideoFromString, uploadStoryboardAudio, updateProjectMetadata, subscribeToLocations } from '../services/firebase';
+import { Project, Character, Storyboard, DialogueLine, AVAILABLE_VOICES, AppSettings, Location, GenerationJob, GenerationJobKind, DEFAULT_JOB_CONCURRENCY, ProjectRevision, RevisionReason, StylePreset, PromptContext, PromptRecord, PromptTemplateOverrides, ReferenceConditioning, ImageCandidate, PanelAspectRatio, PanelAnimation, AudioClipEdit } from '../types';
+import { getAIProvider, AI_PROVIDERS } from '../services/ai';
+import { GenerationQueue, isJobActive } from '../services/generationQueue';
+import JobQueuePanel from './JobQueuePanel';
+import MovieExportModal from './MovieExportModal';
+import PdfExportModal from './PdfExportModal';
+import ComicArchiveExportModal from './ComicArchiveExportModal';
+import { buildProjectBundle, PROJECT_BUNDLE_EXTENSION } from '../services/projectBundle';
+import { createRevision, AUTOSAVE_REVISION_INTERVAL } from '../services/revisions';
+import RevisionHistoryPanel from './RevisionHistoryPanel';
+import { UndoHistory, EMPTY_UNDO_HISTORY, createUndoEntry, pushUndoEntry, undoStep, redoStep } from '../services/undoHistory';
+import UndoHistoryMenu from './UndoHistoryMenu';
+import DialogueLinesEditor from './DialogueLinesEditor';
+import PanelCharactersPicker from './PanelCharactersPicker';
+import LocationPickerModal from './LocationPickerModal';
+import ImageCandidatesModal from './ImageCandidatesModal';
+import InpaintEditor from './InpaintEditor';
+import ImageCropModal from './ImageCropModal';
+import AnimatePanelModal from './AnimatePanelModal';
+import VoiceRecorderModal from './VoiceRecorderModal';
+import AudioClipEditor from './AudioClipEditor';
+import BalloonEditor from './BalloonEditor';
+import BalloonLayer from './BalloonLayer';
+import PromptInspector from './PromptInspector';
+import PromptTemplatesModal from './PromptTemplatesModal';
+import { hasBalloons, renderBalloonsHtml, BALLOON_FONTS_STYLESHEET } from '../services/balloons';
+import { getDialogueLines, withDialogueLines, getAudioClips, hasSpokenDialogue, isSpokenLine, getLineVoiceId, getLineCharacterIds, getPanelCharacterIds, getSpeakerName, formatLineText, getDialogueText, getTimedLineAt } from '../services/dialogue';
+import { getStylePresets, resolveStylePreset } from '../services/stylePresets';
+import { ensureVisualDescription, hasCurrentVisualDescription } from '../services/characterDescriptions';
+import { createEmptyStoryboard, insertStoryboardAt, moveStoryboards, duplicateStoryboards } from '../services/storyboardOrder';
+import { PANEL_ASPECT_RATIOS, PANEL_ASPECT_RATIO_IDS, getProjectAspectRatio, getStoryboardAspectRatio, formatAspectRatio, getAspectRatioCss } from '../services/aspectRatios';
+import { MAX_IMAGE_VARIATIONS, createImageCandidate, getImageCandidates, addImageCandidates, getDroppedCandidates, setCandidateStarred, removeImageCandidates, isImageInUse } from '../services/imageCandidates';
+import { uploadStoryboardImageFromString, uploadStoryboardImageFromFile, uploadStoryboardVideoFromString, uploadStoryboardAudio, updateProjectMetadata, subscribeToLocations, subscribeToRevisions, deleteImageFromStorage } from '../services/firebase';
 import { User as FirebaseUser } from 'firebase/auth';
 
 interface Props {
   project: Project;
   characters: Character[];
+  stylePresets: StylePreset[]; // The user's custom presets (built-ins are added by services/stylePresets.ts)
   settings: AppSettings;
   user: FirebaseUser | null;
   onUpdateStoryboards: (storyboards: Storyboard[]) => void;
@@ -47,7 +99,15 @@ interface Props {
   onUpdateProject?: (updates: Partial<Project>) => void;
 }
 
-const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdateStoryboards, onStoryboardChange, onBack, onSave, onUpdateProjectDetails, onUpdateProject }) => {
+// Options used when a generation is driven by the job queue rather than a click
+interface GenerateOptions {
+  silent?: boolean; // Throw errors to the caller instead of alerting
+  isCancelled?: () => boolean; // Discard the result if the job was cancelled meanwhile
+  variations?: number; // Image candidates to generate (defaults to the Image Variations setting)
+  animation?: PanelAnimation; // Video from the storyboard's image instead of from text
+}
+
+const Studio: React.FC<Props> = ({ project, characters, stylePresets, settings, user, onUpdateStoryboards, onStoryboardChange, onBack, onSave, onUpdateProjectDetails, onUpdateProject }) => {
   const [storyboards, setStoryboards] = useState<Storyboard[]>(project.storyboards || (project as any).panels || []);
   const [storyboardStates, setStoryboardStates] = useState<Record<string, string>>({});
   const [uploadErrors, setUploadErrors] = useState<Record<string, string>>({});
@@ -74,16 +134,79 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
   const [sceneDesc, setSceneDesc] = useState(project.sceneDescription || '');
   const [mood, setMood] = useState(project.mood || '');
   const [isGeneratingScript, setIsGeneratingScript] = useState(false);
-  const [isBatchGenerating, setIsBatchGenerating] = useState(false);
-  const [isBatchAudioGenerating, setIsBatchAudioGenerating] = useState(false);
+
+  // Generation Queue State (persisted in Firestore, see services/generationQueue.ts)
+  const [jobs, setJobs] = useState<GenerationJob[]>([]);
+  const [showQueuePanel, setShowQueuePanel] = useState(false);
+  const [hasLoadedJobs, setHasLoadedJobs] = useState(false);
+  const [showExportMenu, setShowExportMenu] = useState(false);
+  const [showMovieExport, setShowMovieExport] = useState(false);
+  const [showPdfExport, setShowPdfExport] = useState(false);
+  const [showArchiveExport, setShowArchiveExport] = useState(false);
+  const [isExportingBundle, setIsExportingBundle] = useState(false);
+
+  // Revision History State (snapshots in users/{uid}/projects/{id}/revisions)
+  const [revisions, setRevisions] = useState<ProjectRevision[] | null>(null);
+  const [showHistoryPanel, setShowHistoryPanel] = useState(false);
+  const isSnapshottingRef = useRef(false);
+
+  // Undo/Redo State (in memory, per project session)
+  const [undoHistory, setUndoHistory] = useState<UndoHistory>(EMPTY_UNDO_HISTORY);
+  const [showUndoMenu, setShowUndoMenu] = useState(false);
+  const [deletedNotice, setDeletedNotice] = useState<string | null>(null);
+
+  // Lettering editor (speech balloons over the art)
+  const [letteringStoryboardId, setLetteringStoryboardId] = useState<string | null>(null);
+
+  // Prompt templates & recorded final prompts
+  const [showPromptTemplates, setShowPromptTemplates] = useState(false);
+  const [promptStoryboardId, setPromptStoryboardId] = useState<string | null>(null);
+
+  // Selection & Reordering State
+  const [selectedStoryboardIds, setSelectedStoryboardIds] = useState<Set<string>>(new Set());
+  const [dragState, setDragState] = useState<{ ids: string[]; targetIndex: number } | null>(null);
+  const lastSelectedIdRef = useRef<string | null>(null);
+  const storyboardCardRefs = useRef<Map<string, HTMLDivElement>>(new Map());
+  const editorScrollRef = useRef<HTMLDivElement>(null);
+  const queueRef = useRef<GenerationQueue | null>(null);
+  const isBatchGenerating = jobs.some(j => isJobActive(j) && j.kind !== 'audio');
+  const isBatchAudioGenerating = jobs.some(j => isJobActive(j) && j.kind === 'audio');
 
   // Preview State
   const [isPreviewPlaying, setIsPreviewPlaying] = useState(false);
   const [activePreviewIndex, setActivePreviewIndex] = useState(0);
+  const [activePreviewLineId, setActivePreviewLineId] = useState<string | null>(null);
 
   // Location State
   const [locations, setLocations] = useState<Location[]>([]);
-  const [activeLocationId, setActiveLocationId] = useState<string>('');
+  const [activeLocationId, setActiveLocationId] = useState<string>(project.activeLocationId || ''); // Project default location
+  const [locationStoryboardId, setLocationStoryboardId] = useState<string | null>(null); // Storyboard whose location is being picked
+  const [galleryStoryboardId, setGalleryStoryboardId] = useState<string | null>(null); // Storyboard whose image candidates are shown
+  const [inpaintStoryboardId, setInpaintStoryboardId] = useState<string | null>(null); // Storyboard whose image is being fixed
+  const [animateStoryboardId, setAnimateStoryboardId] = useState<string | null>(null); // Storyboard whose image is being animated
+  const [recordStoryboardId, setRecordStoryboardId] = useState<string | null>(null); // Storyboard whose dialogue is being recorded
+  const [editAudioStoryboardId, setEditAudioStoryboardId] = useState<string | null>(null); // Storyboard whose audio clips are being trimmed
+  const [cropRequest, setCropRequest] = useState<{ storyboardId: string; imageUrl: string; file?: File } | null>(null); // Upload or reframe being cropped
+
+  // Art style used for every image/video prompt of this project
+  const activeStyle = resolveStylePreset(project.stylePresetId, stylePresets);
+
+  // Template overrides and variables for generation requests; `onPrompt` receives the final prompt
+  const getPromptContext = (onPrompt?: (record: PromptRecord) => void): PromptContext => ({
+    templates: { ...settings.promptTemplates, ...project.promptTemplates },
+    project: { title: project.title, summary: project.summary, mood },
+    referenceConditioning: project.referenceConditioning,
+    onPrompt,
+  });
+
+  // A storyboard's own location ('' for none), otherwise the project default
+  const getStoryboardLocation = (storyboard: Storyboard) =>
+    locations.find(l => l.id === (storyboard.locationId ?? activeLocationId));
+
+  const handleSelectDefaultLocation = (locationId: string) => {
+    setActiveLocationId(locationId);
+    onUpdateProject?.({ activeLocationId: locationId });
+  };
 
   useEffect(() => {
     if (user) {
@@ -118,7 +241,8 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
     if (project.sceneDescription) setSceneDesc(project.sceneDescription);
     if (project.mood) setMood(project.mood);
     if (project.selectedCharacterIds) setSelectedCharacterIds(new Set(project.selectedCharacterIds));
-  }, [project.title, project.summary, project.sceneDescription, project.mood, project.selectedCharacterIds]);
+    setActiveLocationId(project.activeLocationId || '');
+  }, [project.title, project.summary, project.sceneDescription, project.mood, project.selectedCharacterIds, project.activeLocationId]);
 
   const handleOpenEditModal = () => {
     setEditProjectTitle(project.title);
@@ -136,6 +260,7 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
 
   // SANITIZATION ON LOAD:
   useEffect(() => {
+    flushImageDeletes(storyboardsRef.current); // The previous project's undo history goes away below
     const cleanStoryboards = (project.storyboards || (project as any).panels || []).map(p => ({
       ...p,
       isGeneratingImage: false,
@@ -143,6 +268,8 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
       isGeneratingAudio: false
     }));
     setStoryboards(cleanStoryboards);
+    setUndoHistory(EMPTY_UNDO_HISTORY);
+    setSelectedStoryboardIds(new Set());
   }, [project.id]);
 
   // Keep local storyboard state in sync with Smart Merge
@@ -172,16 +299,84 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
   useEffect(() => {
     return () => {
       setUploadingStoryboardId(null);
-      setIsBatchGenerating(false);
-      setIsBatchAudioGenerating(false);
+      flushImageDeletes(storyboardsRef.current);
     };
   }, []);
 
-  const updateLocalStoryboards = (newStoryboards: Storyboard[]) => {
+  // Files of deleted gallery images stay in Storage while the delete can still be undone,
+  // i.e. until the undo history is dropped (project switch or leaving the Studio).
+  // Candidates dropped by the gallery cap were never deleted by the user, so their files also stay
+  // while any revision snapshot still shows them.
+  const pendingImageDeletesRef = useRef<Set<string>>(new Set());
+  const droppedImagesRef = useRef<Set<string>>(new Set());
+  const storyboardsRef = useRef(storyboards);
+  storyboardsRef.current = storyboards;
+  const revisionsRef = useRef(revisions);
+  revisionsRef.current = revisions;
+
+  // Duplicated storyboards share files, and undo may have brought an image back; those stay
+  const flushImageDeletes = (current: Storyboard[]) => {
+    const snapshots = revisionsRef.current;
+    const deletable: string[] = [];
+    pendingImageDeletesRef.current.forEach(url => { if (!isImageInUse(current, url)) deletable.push(url); });
+    droppedImagesRef.current.forEach(url => {
+      // Without loaded revisions there is no telling whether one still needs the file
+      if (snapshots && !isImageInUse(current, url) && !snapshots.some(r => isImageInUse(r.storyboards, url))) deletable.push(url);
+    });
+    pendingImageDeletesRef.current.clear();
+    droppedImagesRef.current.clear();
+    deletable.forEach(url => deleteImageFromStorage(url));
+  };
+
+  const queueImageDeletes = (candidates: ImageCandidate[], target = pendingImageDeletesRef.current) =>
+    candidates.filter(c => c.url.startsWith('https://')).forEach(c => target.add(c.url));
+
+  // New images at the top of a storyboard's gallery; candidates dropped by the gallery cap may be deleted later
+  const addToGallery = (storyboard: Storyboard, added: ImageCandidate[]) => {
+    const gallery = addImageCandidates(storyboard, added);
+    queueImageDeletes(getDroppedCandidates(storyboard, gallery), droppedImagesRef.current);
+    return gallery;
+  };
+
+  const commitStoryboards = (newStoryboards: Storyboard[]) => {
     setStoryboards(newStoryboards);
     onUpdateStoryboards(newStoryboards);
   };
 
+  const recordUndo = (label: string, before: Storyboard[], after: Storyboard[], mergeKey?: string) => {
+    const entry = createUndoEntry(label, before, after, mergeKey);
+    if (!entry) return;
+    setUndoHistory(prev => pushUndoEntry(prev, entry));
+    setDeletedNotice(null); // Its Undo button would now undo this newer edit
+  };
+
+  // Every user-facing storyboard edit goes through here so it can be undone.
+  // `mergeKey` groups rapid edits (typing in a field) into a single undo step.
+  const updateLocalStoryboards = (newStoryboards: Storyboard[], label: string, mergeKey?: string) => {
+    recordUndo(label, storyboards, newStoryboards, mergeKey);
+    commitStoryboards(newStoryboards);
+  };
+
+  // Atomic per-storyboard update (see onStoryboardChange) that is also recorded for undo.
+  // `original` is the storyboard as it was before the action started, not the optimistic local preview.
+  const changeStoryboard = (original: Storyboard, updates: Partial<Storyboard>, label: string) => {
+    const index = storyboards.findIndex(p => p.id === original.id);
+    recordUndo(index >= 0 ? `${label} for storyboard ${index + 1}` : label, [original], [{ ...original, ...updates }]);
+    onStoryboardChange(original.id, updates);
+  };
+
+  // Written directly as well: the debounced project save merges maps, so removed overrides would survive it
+  const handleSavePromptTemplates = async (promptTemplates: PromptTemplateOverrides) => {
+    onUpdateProject?.({ promptTemplates });
+    if (!user) return;
+    try {
+      await updateProjectMetadata(user.uid, project.id, { promptTemplates });
+    } catch (error) {
+      console.error("Failed to save prompt templates:", error);
+      alert("Failed to save prompt templates.");
+    }
+  };
+
   const handleUpdateProject = async (shouldGenerate: boolean = false) => {
     if (!user || !editProjectTitle.trim()) return;
 
@@ -223,8 +418,9 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
     }
   };
 
-  const toggleStoryboardAudio = (storyboardId: string, audioUrl?: string) => {
-    if (!audioUrl) return;
+  // Plays the storyboard's clips one after another (one per dialogue line, or a single track)
+  const toggleStoryboardAudio = (storyboardId: string, clips: string[]) => {
+    if (clips.length === 0) return;
 
     if (playingStoryboardId === storyboardId) {
       if (currentAudioRef.current) {
@@ -240,12 +436,19 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
       currentAudioRef.current = null;
     }
 
-    const audio = new Audio(audioUrl);
+    const audio = new Audio(clips[0]);
     currentAudioRef.current = audio;
 
     setPlayingStoryboardId(storyboardId);
 
+    let clipIndex = 0;
     audio.onended = () => {
+      clipIndex++;
+      if (clipIndex < clips.length && currentAudioRef.current === audio) {
+        audio.src = clips[clipIndex];
+        audio.play().catch(e => console.error("Play error:", e));
+        return;
+      }
       setPlayingStoryboardId(null);
       currentAudioRef.current = null;
     };
@@ -302,11 +505,14 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
       // Filter characters based on selection
       const activeCharacters = characters.filter(c => selectedCharacterIds.has(c.id));
 
-      const generatedStoryboards = await gemini.generateScript(
+      let scriptPrompt: PromptRecord | undefined;
+      const generatedStoryboards = await getAIProvider().generateScript(
         sceneDesc,
         mood,
         activeCharacters,
-        project.summary
+        project.summary,
+        locations,
+        getPromptContext(record => { scriptPrompt = record; })
       );
 
       const newStoryboards: Storyboard[] = generatedStoryboards.map(p => ({
@@ -314,12 +520,17 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
         description: p.description || '',
         dialogue: p.dialogue || '',
         characterId: p.characterId,
+        characterIds: p.characterIds,
+        locationId: p.locationId,
+        lines: p.lines,
+        prompts: scriptPrompt ? { script: scriptPrompt } : undefined,
         isGeneratingImage: false,
         isGeneratingVideo: false,
         isGeneratingAudio: false,
       }));
 
-      updateLocalStoryboards([...storyboards, ...newStoryboards]);
+      await snapshotRevision('script');
+      updateLocalStoryboards([...storyboards, ...newStoryboards], `Generate ${newStoryboards.length} storyboards`);
       setSceneDesc('');
       if (showMobileTools) setShowMobileTools(false);
     } catch (error) {
@@ -329,7 +540,7 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
     }
   };
 
-  const handleGenerateImage = async (storyboardId: string) => {
+  const handleGenerateImage = async (storyboardId: string, options: GenerateOptions = {}) => {
     if (!user) {
       alert("Cannot generate image without a logged-in user.");
       return;
@@ -338,7 +549,7 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
     const storyboard = storyboards.find(p => p.id === storyboardId);
     if (!storyboard) return;
 
-    if (storyboard.isGeneratingAudio || isBatchAudioGenerating) {
+    if (!options.silent && (storyboard.isGeneratingAudio || isBatchAudioGenerating)) {
       alert("Please wait for audio generation to finish.");
       return;
     }
@@ -353,10 +564,17 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
     setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Preparing...' }));
 
     try {
-      const character = characters.find(c => c.id === storyboard.characterId);
-
-      if (character?.imageUrl) {
-        setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Fetching Ref...' }));
+      // Everyone in frame, the speaker first when visible
+      const panelCharacterIds = getPanelCharacterIds(storyboard);
+      const speakerId = storyboard.characterId && panelCharacterIds.includes(storyboard.characterId) ? storyboard.characterId : undefined;
+      let panelCharacters = (speakerId ? [speakerId, ...panelCharacterIds.filter(id => id !== speakerId)] : panelCharacterIds)
+        .map(id => characters.find(c => c.id === id))
+        .filter((c): c is Character => !!c);
+
+      // Described once from the reference images, then reused from the character
+      if (panelCharacters.some(c => c.imageUrl && !hasCurrentVisualDescription(c))) {
+        setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Describing characters...' }));
+        panelCharacters = await Promise.all(panelCharacters.map(c => ensureVisualDescription(user.uid, c, getAIProvider(), getPromptContext())));
       }
 
       await new Promise(r => setTimeout(r, 100));
@@ -365,17 +583,44 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
 
       setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Generating...' }));
 
-      const activeLocation = locations.find(l => l.id === activeLocationId);
+      const storyboardLocation = getStoryboardLocation(storyboard);
+      const variationCount = Math.min(MAX_IMAGE_VARIATIONS, Math.max(1, options.variations ?? settings.imageVariations ?? 1));
+      const firstVariation = getImageCandidates(storyboard).length;
+
+      // One request per variation; each keeps its own prompt record.
+      // When a later variation fails, the ones already generated are still kept.
+      const generated: { dataUrl: string; prompt?: PromptRecord }[] = [];
+      let variationError: unknown;
+      for (let i = 0; i < variationCount; i++) {
+        if (variationCount > 1) setStoryboardStates(prev => ({ ...prev, [storyboardId]: `Generating ${i + 1}/${variationCount}...` }));
+        let imagePrompt: PromptRecord | undefined;
+        try {
+          const dataUrl = await getAIProvider().generateStoryboardImage(
+            storyboard.description,
+            panelCharacters,
+            storyboardLocation,
+            activeStyle,
+            { ...getPromptContext(record => { imagePrompt = record; }), variation: firstVariation + i, aspectRatio: getStoryboardAspectRatio(storyboard, project) }
+          );
+          generated.push({ dataUrl, prompt: imagePrompt });
+        } catch (error) {
+          if (generated.length === 0) throw error;
+          console.error(`Image variation ${i + 1}/${variationCount} failed:`, error);
+          variationError = error;
+          break;
+        }
+        if (options.isCancelled?.()) break;
+      }
+      const prompts = generated[0].prompt ? { ...storyboard.prompts, image: generated[0].prompt } : storyboard.prompts;
 
-      const base64ImageDataUrl = await gemini.generateStoryboardImage(
-        storyboard.description,
-        character,
-        activeLocation
-      );
+      if (options.isCancelled?.()) {
+        setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, isGeneratingImage: false } : p));
+        return;
+      }
 
       setStoryboards(prev => {
         const updated = prev.map(p =>
-          p.id === storyboardId ? { ...p, imageUrl: base64ImageDataUrl, isGeneratingImage: false } : p
+          p.id === storyboardId ? { ...p, imageUrl: generated[0].dataUrl, prompts, isGeneratingImage: false } : p
         );
         return updated;
       });
@@ -384,19 +629,30 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
       setUploadingStoryboardId(storyboardId);
 
       try {
-        const finalImageUrl = await uploadStoryboardImageFromString(user.uid, base64ImageDataUrl);
+        const candidates: ImageCandidate[] = [];
+        for (const image of generated) {
+          candidates.push(createImageCandidate(await uploadStoryboardImageFromString(user.uid, image.dataUrl), image.prompt));
+        }
+        const gallery = addToGallery(storyboard, candidates);
 
         // ATOMIC UPDATE: Send to parent immediately to ensure persistence
-        onStoryboardChange(storyboardId, { imageUrl: finalImageUrl });
+        changeStoryboard(storyboard, { ...gallery, prompts }, variationCount > 1 ? `Generate ${variationCount} image variations` : 'Generate image');
 
         // Also update local state for immediate UI reflection
         setStoryboards(prev => prev.map(p =>
-          p.id === storyboardId ? { ...p, imageUrl: finalImageUrl } : p
+          p.id === storyboardId ? { ...p, ...gallery } : p
         ));
 
+        if (variationError) {
+          const message = `Only ${generated.length} of ${variationCount} variations were generated: ${variationError instanceof Error ? variationError.message : String(variationError)}`;
+          setUploadErrors(prev => ({ ...prev, [storyboardId]: message }));
+          if (!options.silent) alert(message);
+        }
+
       } catch (uploadError) {
         console.error("Background upload failed:", uploadError);
         setUploadErrors(prev => ({ ...prev, [storyboardId]: "Save failed. Image is local only." }));
+        if (options.silent) throw uploadError;
       }
 
     } catch (error) {
@@ -404,6 +660,8 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
 
       setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, isGeneratingImage: false } : p));
 
+      if (options.silent) throw error;
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       if (errorMessage.includes("timed out")) {
         alert(`Generation timed out: ${errorMessage}. Please try again.`);
@@ -421,7 +679,87 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
     }
   };
 
-  const handleGenerateVideo = async (storyboardId: string) => {
+  // In-painting: the edited image is added as a new candidate and becomes the active one
+  const handleInpaint = async (storyboardId: string, maskDataUrl: string, instruction: string) => {
+    const storyboard = storyboards.find(p => p.id === storyboardId);
+    if (!user || !storyboard?.imageUrl) return;
+
+    setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, isGeneratingImage: true } : p));
+    setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Fixing region...' }));
+
+    try {
+      let editPrompt: PromptRecord | undefined;
+      const base64ImageDataUrl = await getAIProvider().editStoryboardImage(
+        storyboard.imageUrl,
+        maskDataUrl,
+        instruction,
+        activeStyle,
+        { ...getPromptContext(record => { editPrompt = record; }), variation: getImageCandidates(storyboard).length, aspectRatio: getStoryboardAspectRatio(storyboard, project) }
+      );
+
+      setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Uploading...' }));
+      const finalImageUrl = await uploadStoryboardImageFromString(user.uid, base64ImageDataUrl);
+      const gallery = addToGallery(storyboard, [createImageCandidate(finalImageUrl, editPrompt)]);
+      const prompts = editPrompt ? { ...storyboard.prompts, image: editPrompt } : storyboard.prompts;
+
+      changeStoryboard(storyboard, { ...gallery, prompts }, 'Fix image region');
+      setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, ...gallery, prompts, isGeneratingImage: false } : p));
+      setInpaintStoryboardId(null);
+    } catch (error) {
+      console.error("In-painting failed:", error);
+      setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, isGeneratingImage: false } : p));
+      alert(`Fixing the region failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setStoryboardStates(prev => {
+        const newState = { ...prev };
+        delete newState[storyboardId];
+        return newState;
+      });
+    }
+  };
+
+  // Image gallery: the active candidate is the storyboard's image; its prompt becomes the storyboard's image prompt
+  const handleSelectCandidate = (storyboardId: string, candidate: ImageCandidate) => {
+    const index = storyboards.findIndex(p => p.id === storyboardId);
+    const newStoryboards = storyboards.map(p => p.id === storyboardId
+      ? { ...p, imageCandidates: getImageCandidates(p), imageUrl: candidate.url, prompts: candidate.prompt ? { ...p.prompts, image: candidate.prompt } : p.prompts }
+      : p);
+    updateLocalStoryboards(newStoryboards, `Choose image for storyboard ${index + 1}`);
+  };
+
+  const handleToggleCandidateStar = (storyboardId: string, candidate: ImageCandidate) => {
+    const index = storyboards.findIndex(p => p.id === storyboardId);
+    const newStoryboards = storyboards.map(p => p.id === storyboardId ? { ...p, ...setCandidateStarred(p, candidate.id, !candidate.starred) } : p);
+    updateLocalStoryboards(newStoryboards, `${candidate.starred ? 'Unstar' : 'Star'} image of storyboard ${index + 1}`);
+  };
+
+  // Deleting is undoable; the files are removed from Storage once the undo history is dropped
+  const handleDeleteCandidates = (storyboardId: string, candidates: ImageCandidate[]) => {
+    if (candidates.length === 0) return;
+    if (!window.confirm(`Delete ${candidates.length === 1 ? 'this image' : `${candidates.length} images`}? The files are removed from storage when you leave the project, so older revisions lose them too.`)) return;
+
+    const index = storyboards.findIndex(p => p.id === storyboardId);
+    const newStoryboards = storyboards.map(p => p.id === storyboardId ? { ...p, ...removeImageCandidates(p, candidates.map(c => c.id)) } : p);
+    updateLocalStoryboards(newStoryboards, `Delete ${candidates.length === 1 ? 'image' : `${candidates.length} images`} of storyboard ${index + 1}`);
+
+    queueImageDeletes(candidates);
+  };
+
+  // In-flight video runs per storyboard, so a resumed operation is never polled twice
+  const videoRunsRef = useRef<Map<string, Promise<void>>>(new Map());
+
+  const handleGenerateVideo = (storyboardId: string, options: GenerateOptions = {}): Promise<void> => {
+    const existingRun = videoRunsRef.current.get(storyboardId);
+    if (existingRun) return existingRun;
+
+    const run = runVideoGeneration(storyboardId, options).finally(() => {
+      videoRunsRef.current.delete(storyboardId);
+    });
+    videoRunsRef.current.set(storyboardId, run);
+    return run;
+  };
+
+  const runVideoGeneration = async (storyboardId: string, options: GenerateOptions) => {
     if (!user) {
       alert("Cannot generate video without a logged-in user.");
       return;
@@ -430,7 +768,7 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
     const storyboard = storyboards.find(p => p.id === storyboardId);
     if (!storyboard) return;
 
-    if (storyboard.isGeneratingAudio || isBatchAudioGenerating) {
+    if (!options.silent && (storyboard.isGeneratingAudio || isBatchAudioGenerating)) {
       alert("Please wait for audio generation to finish.");
       return;
     }
@@ -445,21 +783,72 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
     setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Preparing...' }));
 
     try {
-      const character = characters.find(c => c.id === storyboard.characterId);
-      const activeLocation = locations.find(l => l.id === activeLocationId);
+      let operation = storyboard.pendingVideoOperation;
+
+      if (operation) {
+        setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Resuming Video...' }));
+      } else if (options.animation) {
+        setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Animating panel...' }));
+
+        let videoPrompt: PromptRecord | undefined;
+        operation = await getAIProvider().startStoryboardAnimation(
+          storyboard.description,
+          getDialogueText(storyboard, characters).text,
+          options.animation,
+          activeStyle,
+          { ...getPromptContext(record => { videoPrompt = record; }), aspectRatio: getStoryboardAspectRatio(storyboard, project) }
+        );
+        const prompts = videoPrompt ? { ...storyboard.prompts, video: videoPrompt } : storyboard.prompts;
 
-      setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Director at work...' }));
-      await new Promise(r => setTimeout(r, 100));
+        onStoryboardChange(storyboardId, { pendingVideoOperation: operation, prompts });
+        setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, pendingVideoOperation: operation, prompts } : p));
+      } else {
+        if (characters.some(c => c.imageUrl && !hasCurrentVisualDescription(c))) {
+          setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Describing characters...' }));
+        }
+        const describedCharacters = await Promise.all(characters.map(c => ensureVisualDescription(user.uid, c, getAIProvider(), getPromptContext())));
+        const character = describedCharacters.find(c => c.id === storyboard.characterId);
+        const storyboardLocation = getStoryboardLocation(storyboard);
+
+        setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Director at work...' }));
+        await new Promise(r => setTimeout(r, 100));
+
+        setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Generating Video...' }));
+
+        let videoPrompt: PromptRecord | undefined;
+        operation = await getAIProvider().startStoryboardVideo(
+          storyboard.description,
+          getDialogueText(storyboard, characters).text,
+          character,
+          storyboardLocation,
+          describedCharacters,
+          activeStyle,
+          { ...getPromptContext(record => { videoPrompt = record; }), aspectRatio: getStoryboardAspectRatio(storyboard, project) }
+        );
+        const prompts = videoPrompt ? { ...storyboard.prompts, video: videoPrompt } : storyboard.prompts;
 
-      setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Generating Video...' }));
+        // ATOMIC UPDATE: Persist the operation (and its prompt) so polling can resume after a reload
+        onStoryboardChange(storyboardId, { pendingVideoOperation: operation, prompts });
+        setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, pendingVideoOperation: operation, prompts } : p));
+      }
 
-      const base64VideoDataUrl = await gemini.generateStoryboardVideo(
-        storyboard.description,
-        storyboard.dialogue,
-        character,
-        activeLocation,
-        characters
-      );
+      // Poll with the backend that started the operation, even if the user switched since
+      const provider = AI_PROVIDERS[operation.provider] || getAIProvider();
+      let base64VideoDataUrl: string;
+      try {
+        base64VideoDataUrl = await provider.pollStoryboardVideo(operation);
+      } catch (pollError) {
+        // The operation is dead (failed, expired or timed out); forget it so the next attempt starts fresh
+        onStoryboardChange(storyboardId, { pendingVideoOperation: undefined });
+        setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, pendingVideoOperation: undefined } : p));
+        throw pollError;
+      }
+
+      if (options.isCancelled?.()) {
+        onStoryboardChange(storyboardId, { pendingVideoOperation: undefined });
+        setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, pendingVideoOperation: undefined, isGeneratingVideo: false } : p));
+        return;
+      }
 
       setStoryboards(prev => {
         const updated = prev.map(p =>
@@ -474,21 +863,25 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
       try {
         const finalVideoUrl = await uploadStoryboardVideoFromString(user.uid, base64VideoDataUrl);
 
-        onStoryboardChange(storyboardId, { videoUrl: finalVideoUrl });
+        changeStoryboard(storyboard, { videoUrl: finalVideoUrl, pendingVideoOperation: undefined }, options.animation ? 'Animate panel' : 'Generate video');
 
         setStoryboards(prev => prev.map(p =>
-          p.id === storyboardId ? { ...p, videoUrl: finalVideoUrl } : p
+          p.id === storyboardId ? { ...p, videoUrl: finalVideoUrl, pendingVideoOperation: undefined } : p
         ));
 
       } catch (uploadError) {
+        // Keep the pending operation: the finished video can still be fetched again after a reload
         console.error("Background video upload failed:", uploadError);
         setUploadErrors(prev => ({ ...prev, [storyboardId]: "Save failed. Video is local only." }));
+        if (options.silent) throw uploadError;
       }
 
     } catch (error) {
       console.error("Video generation failed:", error);
       setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, isGeneratingVideo: false } : p));
 
+      if (options.silent) throw error;
+
       const errorMessage = error instanceof Error ? error.message : String(error);
       alert(`Video generation failed: ${errorMessage}`);
     } finally {
@@ -502,11 +895,6 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
   };
 
   const handleGenerateAllVisuals = async () => {
-    if (isBatchAudioGenerating) {
-      alert("Please wait for audio generation to complete.");
-      return;
-    }
-
     const isVideoMode = project.mode === 'video';
     const storyboardsToGenerate = storyboards.filter(p => isVideoMode ? (!p.videoUrl && !p.isGeneratingVideo) : (!p.imageUrl && !p.isGeneratingImage));
 
@@ -515,65 +903,147 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
       return;
     }
 
-    if (!confirm(`Generate ${isVideoMode ? 'videos' : 'visuals'} for ${storyboardsToGenerate.length} storyboards? This may take a moment.`)) return;
-
-    setIsBatchGenerating(true);
+    if (!confirm(`Queue ${isVideoMode ? 'videos' : 'visuals'} for ${storyboardsToGenerate.length} storyboards? They keep running in the queue even if you reload.`)) return;
 
-    try {
-      for (const storyboard of storyboardsToGenerate) {
-        if (isVideoMode) {
-          await handleGenerateVideo(storyboard.id);
-        } else {
-          await handleGenerateImage(storyboard.id);
-        }
-        // Stagger requests
-        await new Promise(resolve => setTimeout(resolve, 2000));
-      }
-    } finally {
-      setIsBatchGenerating(false);
-    }
+    await enqueueJobs(storyboardsToGenerate.map(p => p.id), isVideoMode ? 'video' : 'image');
   };
 
-  const handleGenerateAudio = async (storyboardId: string, silent = false) => {
+  const handleGenerateAudio = async (storyboardId: string, options: GenerateOptions = {}) => {
     if (!user) {
-      if (!silent) alert("Cannot generate audio without a logged-in user.");
+      if (!options.silent) alert("Cannot generate audio without a logged-in user.");
       return;
     }
     const storyboard = storyboards.find(p => p.id === storyboardId);
-    if (!storyboard || !storyboard.dialogue) return;
+    if (!storyboard || !hasSpokenDialogue(storyboard)) return;
 
-    if (storyboard.isGeneratingImage || isBatchGenerating) {
-      if (!silent) alert("Please wait for image generation to finish.");
+    if (!options.silent && (storyboard.isGeneratingImage || isBatchGenerating)) {
+      alert("Please wait for image generation to finish.");
       return;
     }
 
     setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, isGeneratingAudio: true } : p));
 
     try {
-      const character = characters.find(c => c.id === storyboard.characterId);
-      const voiceId = character?.voiceId || settings.defaultNarratorVoiceId || AVAILABLE_VOICES[0].id;
+      const narratorVoiceId = settings.defaultNarratorVoiceId || AVAILABLE_VOICES[0].id;
+      const lines = getDialogueLines(storyboard);
+      const spokenLines = lines.filter(isSpokenLine);
+      const speechPrompts: PromptRecord[] = [];
+      const promptContext = getPromptContext(record => { speechPrompts.push(record); });
+      let updates: Partial<Storyboard>;
+
+      if ((settings.dialogueAudioMode || 'conversation') === 'conversation') {
+        // One mixed track for the whole exchange; each line keeps its position in it for caption sync
+        setStoryboardStates(prev => ({ ...prev, [storyboardId]: `Voicing conversation (${spokenLines.length} lines)...` }));
+        const conversation = await getAIProvider().generateConversation(spokenLines.map(line => ({
+          text: line.text,
+          voiceName: getLineVoiceId(line, characters, narratorVoiceId),
+          speakerName: getSpeakerName(line, characters) || 'Narrator',
+        })), promptContext);
+
+        if (options.isCancelled?.()) return;
+
+        const storageAudioUrl = await uploadStoryboardAudio(user.uid, conversation.audio);
+        const timedLines = lines.map(line => {
+          const { audioUrl, audioEdit, startTime, endTime, ...rest } = line;
+          const timing = conversation.timings[spokenLines.indexOf(line)];
+          return timing ? { ...rest, startTime: timing.start, endTime: timing.end } : rest;
+        });
+        updates = { ...withDialogueLines(timedLines), audioUrl: storageAudioUrl, audioEdit: undefined };
+      } else {
+        // One clip per spoken line, each in its speaker's voice
+        const voicedLines: DialogueLine[] = [];
+        for (const line of lines) {
+          const { audioEdit, startTime, endTime, ...rest } = line;
+          if (!isSpokenLine(line)) {
+            voicedLines.push(rest);
+            continue;
+          }
+
+          const lineNumber = voicedLines.filter(isSpokenLine).length + 1;
+          setStoryboardStates(prev => ({ ...prev, [storyboardId]: `Voicing line ${lineNumber}/${spokenLines.length}...` }));
+          const base64Audio = await getAIProvider().generateSpeech(line.text, getLineVoiceId(line, characters, narratorVoiceId), promptContext);
+
+          if (options.isCancelled?.()) return;
+
+          const storageAudioUrl = await uploadStoryboardAudio(user.uid, base64Audio);
+          voicedLines.push({ ...rest, audioUrl: storageAudioUrl });
+        }
 
-      const base64Audio = await gemini.generateSpeech(storyboard.dialogue, voiceId);
+        // Line clips replace any storyboard-wide track
+        updates = { ...withDialogueLines(voicedLines), audioUrl: undefined, audioEdit: undefined };
+      }
+
+      // Per-line clips are separate requests; they are recorded as one prompt
+      if (speechPrompts.length > 0) {
+        updates.prompts = {
+          ...storyboard.prompts,
+          audio: { ...speechPrompts[speechPrompts.length - 1], prompt: speechPrompts.map(r => r.prompt).join('\n\n') },
+        };
+      }
+
+      // ATOMIC UPDATE
+      changeStoryboard(storyboard, updates, 'Generate speech');
 
-      // OPTIMISTIC UPDATE: Set local data URI immediately so it can be played without CORS waiting
       setStoryboards(prev => prev.map(p =>
-        p.id === storyboardId ? { ...p, audioUrl: base64Audio } : p
+        p.id === storyboardId ? { ...p, ...updates, isGeneratingAudio: false } : p
       ));
 
-      setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Saving Audio...' }));
+    } catch (error) {
+      console.error("Audio gen failed", error);
+      if (options.silent) throw error;
+      alert(`Audio generation failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, isGeneratingAudio: false } : p));
+      setStoryboardStates(prev => {
+        const newState = { ...prev };
+        delete newState[storyboardId];
+        return newState;
+      });
+    }
+  };
 
-      const storageAudioUrl = await uploadStoryboardAudio(user.uid, base64Audio);
+  // Microphone take: replaces the storyboard's track (whole storyboard) or one line's clip
+  const handleSaveRecording = async (storyboardId: string, lineId: string | undefined, wavDataUrl: string) => {
+    const storyboard = storyboards.find(p => p.id === storyboardId);
+    if (!user || !storyboard) return;
 
-      // ATOMIC UPDATE: Replace with long-term cloud URL
-      onStoryboardChange(storyboardId, { audioUrl: storageAudioUrl });
+    setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, isGeneratingAudio: true } : p));
+    setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Uploading recording...' }));
 
-      setStoryboards(prev => prev.map(p =>
-        p.id === storyboardId ? { ...p, audioUrl: storageAudioUrl, isGeneratingAudio: false } : p
-      ));
+    try {
+      const storageAudioUrl = await uploadStoryboardAudio(user.uid, wavDataUrl);
+      const lines = getDialogueLines(storyboard);
+      let updates: Partial<Storyboard>;
+
+      if (lineId) {
+        // Line clips replace any storyboard-wide track, as with generated per-line speech
+        updates = {
+          ...withDialogueLines(lines.map(({ startTime, endTime, ...rest }) => {
+            if (rest.id !== lineId) return rest;
+            const { audioEdit, ...line } = rest;
+            return { ...line, audioUrl: storageAudioUrl };
+          })),
+          audioUrl: undefined,
+          audioEdit: undefined,
+        };
+      } else {
+        // A recorded track has no per-line timings, and no speech prompt behind it
+        const { audio, ...otherPrompts } = storyboard.prompts || {};
+        updates = {
+          ...withDialogueLines(lines.map(({ audioUrl, audioEdit, startTime, endTime, ...rest }) => rest)),
+          audioUrl: storageAudioUrl,
+          audioEdit: undefined,
+          prompts: otherPrompts,
+        };
+      }
 
+      // ATOMIC UPDATE
+      changeStoryboard(storyboard, updates, lineId ? 'Record line' : 'Record dialogue');
+      setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, ...updates, isGeneratingAudio: false } : p));
+      setRecordStoryboardId(null);
     } catch (error) {
-      console.error("Audio gen failed", error);
-      if (!silent) alert(`Audio generation failed: ${error instanceof Error ? error.message : String(error)}`);
+      console.error("Recording upload failed:", error);
+      alert(`Saving the recording failed: ${error instanceof Error ? error.message : String(error)}`);
     } finally {
       setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, isGeneratingAudio: false } : p));
       setStoryboardStates(prev => {
@@ -584,33 +1054,177 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
     }
   };
 
-  const handleGenerateAllAudio = async () => {
-    if (isBatchGenerating) {
-      alert("Please wait for image generation to complete.");
-      return;
+  // Audio edit: the rendered clip replaces the playing one; the original stays in the edit for re-edits
+  const handleSaveAudioEdit = async (storyboardId: string, lineId: string | undefined, wavDataUrl: string | null, edit?: AudioClipEdit) => {
+    const storyboard = storyboards.find(p => p.id === storyboardId);
+    if (!user || !storyboard) return;
+
+    setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, isGeneratingAudio: true } : p));
+    setStoryboardStates(prev => ({ ...prev, [storyboardId]: 'Saving edited audio...' }));
+
+    try {
+      const current = lineId ? getDialogueLines(storyboard).find(l => l.id === lineId) : storyboard;
+      if (!current) return;
+
+      // No wav means the edit was reset: go back to the original file
+      const audioUrl = wavDataUrl ? await uploadStoryboardAudio(user.uid, wavDataUrl) : current.audioEdit?.originalUrl || current.audioUrl;
+      const updates: Partial<Storyboard> = lineId
+        ? withDialogueLines(getDialogueLines(storyboard).map(l => l.id === lineId ? { ...l, audioUrl, audioEdit: edit } : l))
+        : { audioUrl, audioEdit: edit };
+
+      // ATOMIC UPDATE
+      changeStoryboard(storyboard, updates, 'Edit audio');
+      setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, ...updates, isGeneratingAudio: false } : p));
+      setEditAudioStoryboardId(null);
+    } catch (error) {
+      console.error("Audio edit upload failed:", error);
+      alert(`Saving the edited audio failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setStoryboards(prev => prev.map(p => p.id === storyboardId ? { ...p, isGeneratingAudio: false } : p));
+      setStoryboardStates(prev => {
+        const newState = { ...prev };
+        delete newState[storyboardId];
+        return newState;
+      });
     }
+  };
 
-    const storyboardsToGenerate = storyboards.filter(p => p.dialogue && !p.audioUrl && !p.isGeneratingAudio);
+  const handleGenerateAllAudio = async () => {
+    const storyboardsToGenerate = storyboards.filter(p => hasSpokenDialogue(p) && getAudioClips(p).length === 0 && !p.isGeneratingAudio);
     if (storyboardsToGenerate.length === 0) {
       alert("All speech has been generated!");
       return;
     }
 
-    if (!confirm(`Generate voiceovers for ${storyboardsToGenerate.length} storyboards?`)) return;
+    if (!confirm(`Queue voiceovers for ${storyboardsToGenerate.length} storyboards?`)) return;
 
-    setIsBatchAudioGenerating(true);
-    try {
-      for (const storyboard of storyboardsToGenerate) {
-        // Pass 'true' for silent to avoid alert spam if one fails
-        await handleGenerateAudio(storyboard.id, true);
-        // Stagger requests slightly to avoid flooding but allow parallel uploads
-        await new Promise(r => setTimeout(r, 500));
+    await enqueueJobs(storyboardsToGenerate.map(p => p.id), 'audio');
+  };
+
+  // --- GENERATION QUEUE ---
+
+  // The queue outlives individual renders, so it reads the latest handlers and settings through refs
+  const settingsRef = useRef(settings);
+  settingsRef.current = settings;
+
+  const jobExecutorRef = useRef<(job: GenerationJob, isCancelled: () => boolean) => Promise<void>>();
+  jobExecutorRef.current = async (job, isCancelled) => {
+    if (!storyboards.some(p => p.id === job.storyboardId)) {
+      throw new Error("Storyboard no longer exists.");
+    }
+
+    const options: GenerateOptions = { silent: true, isCancelled };
+    if (job.kind === 'video') {
+      await handleGenerateVideo(job.storyboardId, options);
+    } else if (job.kind === 'audio') {
+      await handleGenerateAudio(job.storyboardId, options);
+    } else {
+      await handleGenerateImage(job.storyboardId, options);
+    }
+  };
+
+  useEffect(() => {
+    if (!user) return;
+
+    const queue = new GenerationQueue(
+      user.uid,
+      project.id,
+      (job, isCancelled) => jobExecutorRef.current!(job, isCancelled),
+      () => settingsRef.current.jobConcurrency || DEFAULT_JOB_CONCURRENCY,
+      (nextJobs) => {
+        setJobs(nextJobs);
+        setHasLoadedJobs(true);
       }
+    );
+    queueRef.current = queue;
+    queue.start();
+
+    return () => {
+      queue.stop();
+      queueRef.current = null;
+      setJobs([]);
+      setHasLoadedJobs(false);
+    };
+  }, [user, project.id]);
+
+  // Resume video operations that were still rendering when the page was closed.
+  // Storyboards with an active video job are left to the queue, which resumes them itself.
+  useEffect(() => {
+    if (!user || !hasLoadedJobs) return;
+
+    storyboards
+      .filter(p => p.pendingVideoOperation && !p.isGeneratingVideo)
+      .filter(p => !jobs.some(j => j.kind === 'video' && j.storyboardId === p.id && isJobActive(j)))
+      .forEach(p => {
+        console.log(`[Studio] Resuming video operation for storyboard ${p.id}`);
+        handleGenerateVideo(p.id, { silent: true }).catch(error => {
+          const errorMessage = error instanceof Error ? error.message : String(error);
+          setUploadErrors(prev => ({ ...prev, [p.id]: `Video failed: ${errorMessage}` }));
+        });
+      });
+  }, [user, hasLoadedJobs, project.id]);
+
+  const enqueueJobs = async (storyboardIds: string[], kind: GenerationJobKind) => {
+    if (!queueRef.current) return;
+    await snapshotRevision('batch');
+    try {
+      await queueRef.current.enqueue(storyboardIds, kind);
+    } catch (error) {
+      console.error("Failed to queue jobs:", error);
+      alert("Failed to add jobs to the generation queue.");
+    }
+  };
+
+  // --- REVISION HISTORY ---
+
+  useEffect(() => {
+    if (!user) return;
+    const unsubscribe = subscribeToRevisions(user.uid, project.id, setRevisions);
+    return () => {
+      unsubscribe();
+      setRevisions(null);
+    };
+  }, [user, project.id]);
+
+  // Never throws: a failed snapshot must not block the action it protects
+  const snapshotRevision = async (reason: RevisionReason) => {
+    if (!user || !revisions || isSnapshottingRef.current) return;
+    isSnapshottingRef.current = true;
+    try {
+      await createRevision(user.uid, project, storyboards, reason, revisions);
+    } catch (error) {
+      console.error(`[Studio] Failed to create ${reason} revision:`, error);
     } finally {
-      setIsBatchAudioGenerating(false);
+      isSnapshottingRef.current = false;
     }
   };
 
+  // Periodic snapshot while editing
+  useEffect(() => {
+    if (!revisions) return;
+    const lastSnapshotAt = revisions[0]?.createdAt || 0;
+    if (Date.now() - lastSnapshotAt >= AUTOSAVE_REVISION_INTERVAL) {
+      snapshotRevision('autosave');
+    }
+  }, [storyboards, revisions]);
+
+  const handleRestoreRevision = async (revision: ProjectRevision) => {
+    if (isBatchGenerating || isBatchAudioGenerating) {
+      alert("Please wait for queued generation to finish (or cancel it) before restoring.");
+      return;
+    }
+    if (!confirm(`Restore the storyboards from ${new Date(revision.createdAt).toLocaleString()}? The current version is kept in the history.`)) return;
+
+    await snapshotRevision('restore');
+    updateLocalStoryboards(revision.storyboards.map(p => ({
+      ...p,
+      isGeneratingImage: false,
+      isGeneratingVideo: false,
+      isGeneratingAudio: false,
+    })), 'Restore revision');
+    setShowHistoryPanel(false);
+  };
+
   const handleManualSave = async () => {
     setIsSavingProject(true);
     try {
@@ -623,10 +1237,199 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
     }
   };
 
-  const deleteStoryboard = (id: string) => {
-    updateLocalStoryboards(storyboards.filter(p => p.id !== id));
+  const deleteStoryboards = (ids: string[]) => {
+    const toDelete = new Set(ids);
+    const remaining = storyboards.filter(p => !toDelete.has(p.id));
+    const count = storyboards.length - remaining.length;
+    if (count === 0) return;
+
+    if (count === 1) {
+      const index = storyboards.findIndex(p => toDelete.has(p.id));
+      updateLocalStoryboards(remaining, `Delete storyboard ${index + 1}`);
+      setDeletedNotice(`Storyboard ${index + 1} deleted`);
+    } else {
+      updateLocalStoryboards(remaining, `Delete ${count} storyboards`);
+      setDeletedNotice(`${count} storyboards deleted`);
+    }
+    setSelectedStoryboardIds(prev => {
+      const next = new Set<string>(prev);
+      toDelete.forEach(id => next.delete(id));
+      return next;
+    });
   };
 
+  const deleteStoryboard = (id: string) => deleteStoryboards([id]);
+
+  // --- SELECTION & REORDERING ---
+
+  // Selected ids in storyboard order (ids of storyboards removed meanwhile, e.g. by undo, drop out)
+  const selectedIds = storyboards.filter(p => selectedStoryboardIds.has(p.id)).map(p => p.id);
+
+  // Shift-click selects the range from the previously clicked storyboard
+  const toggleStoryboardSelection = (storyboardId: string, isRange: boolean) => {
+    const anchorIndex = storyboards.findIndex(p => p.id === lastSelectedIdRef.current);
+    const index = storyboards.findIndex(p => p.id === storyboardId);
+
+    setSelectedStoryboardIds(prev => {
+      const next = new Set(prev);
+      if (isRange && anchorIndex >= 0) {
+        storyboards.slice(Math.min(anchorIndex, index), Math.max(anchorIndex, index) + 1).forEach(p => next.add(p.id));
+      } else if (next.has(storyboardId)) {
+        next.delete(storyboardId);
+      } else {
+        next.add(storyboardId);
+      }
+      return next;
+    });
+    lastSelectedIdRef.current = storyboardId;
+  };
+
+  const handleDuplicateSelected = () => {
+    if (selectedIds.length === 0) return;
+    updateLocalStoryboards(
+      duplicateStoryboards(storyboards, selectedIds),
+      selectedIds.length === 1 ? `Duplicate storyboard ${storyboards.findIndex(p => p.id === selectedIds[0]) + 1}` : `Duplicate ${selectedIds.length} storyboards`
+    );
+  };
+
+  const handleInsertStoryboard = (index: number) => {
+    updateLocalStoryboards(insertStoryboardAt(storyboards, index, createEmptyStoryboard()), `Insert storyboard at position ${index + 1}`);
+  };
+
+  // Position (0..length) the dragged block would be dropped at: before the first card whose middle is below the pointer
+  const getDropIndex = (clientY: number) => {
+    const index = storyboards.findIndex(p => {
+      const card = storyboardCardRefs.current.get(p.id);
+      if (!card) return false;
+      const rect = card.getBoundingClientRect();
+      return clientY < rect.top + rect.height / 2;
+    });
+    return index < 0 ? storyboards.length : index;
+  };
+
+  // Dragging uses pointer events on the grip handle, so mouse and touch behave the same.
+  // Dragging a selected storyboard moves the whole selection.
+  const handleDragStart = (e: React.PointerEvent, storyboardId: string) => {
+    if (e.button !== 0) return;
+    e.preventDefault();
+    (e.currentTarget as HTMLElement).setPointerCapture(e.pointerId);
+
+    const ids = selectedStoryboardIds.has(storyboardId) ? selectedIds : [storyboardId];
+    setDragState({ ids, targetIndex: storyboards.findIndex(p => p.id === storyboardId) });
+  };
+
+  const handleDragMove = (e: React.PointerEvent) => {
+    if (!dragState) return;
+
+    // Scroll the editor when dragging near its top or bottom edge
+    const container = editorScrollRef.current;
+    if (container) {
+      const rect = container.getBoundingClientRect();
+      if (e.clientY < rect.top + 60) container.scrollBy(0, -16);
+      else if (e.clientY > rect.bottom - 60) container.scrollBy(0, 16);
+    }
+
+    const targetIndex = getDropIndex(e.clientY);
+    if (targetIndex !== dragState.targetIndex) setDragState({ ...dragState, targetIndex });
+  };
+
+  const handleDragEnd = () => {
+    if (!dragState) return;
+    const { ids, targetIndex } = dragState;
+    setDragState(null);
+
+    const reordered = moveStoryboards(storyboards, ids, targetIndex);
+    if (reordered.every((p, i) => p.id === storyboards[i].id)) return;
+
+    const from = storyboards.findIndex(p => p.id === ids[0]);
+    const to = reordered.findIndex(p => p.id === ids[0]);
+    updateLocalStoryboards(
+      reordered,
+      ids.length === 1 ? `Move storyboard ${from + 1} to position ${to + 1}` : `Move ${ids.length} storyboards`
+    );
+  };
+
+  // Gap between cards: the drop indicator while dragging, otherwise an "insert storyboard here" button
+  const renderInsertSlot = (index: number) => (
+    <div key={`slot-${index}`} className="group/slot relative h-6 flex items-center justify-center">
+      {dragState ? (
+        dragState.targetIndex === index && <div className="absolute inset-x-0 h-1 rounded-full bg-indigo-500 shadow-lg shadow-indigo-500/40" />
+      ) : (
+        <>
+          <div className="absolute inset-x-0 h-px bg-slate-800 opacity-0 group-hover/slot:opacity-100 transition-opacity" />
+          <button
+            onClick={() => handleInsertStoryboard(index)}
+            className="relative flex items-center gap-1 px-2 py-0.5 bg-slate-900 border border-slate-700 hover:border-indigo-500 hover:text-indigo-300 text-slate-500 rounded-full text-[10px] font-bold uppercase md:opacity-0 group-hover/slot:opacity-100 focus:opacity-100 transition-opacity"
+            title="Insert storyboard here"
+          >
+            <Plus size={12} /> Insert
+          </button>
+        </>
+      )}
+    </div>
+  );
+
+  // --- UNDO / REDO ---
+
+  // Undo/redo replace the whole storyboard list, which would race with the queue writing results
+  const canEditHistory = () => {
+    if (isBatchGenerating || isBatchAudioGenerating) {
+      alert("Please wait for queued generation to finish (or cancel it) before undoing.");
+      return false;
+    }
+    return true;
+  };
+
+  // Moves through the history: negative steps undo, positive steps redo
+  const handleUndoJump = (steps: number) => {
+    if (steps === 0 || !canEditHistory()) return;
+
+    let history = undoHistory;
+    let current = storyboards;
+    for (let i = 0; i < Math.abs(steps); i++) {
+      const result = steps < 0 ? undoStep(history, current) : redoStep(history, current);
+      if (!result) break;
+      history = result.history;
+      current = result.storyboards;
+    }
+
+    if (history === undoHistory) return;
+    setUndoHistory(history);
+    setDeletedNotice(null);
+    commitStoryboards(current);
+  };
+
+  // Keyboard shortcuts read the latest state through a ref, like the queue executor
+  const undoShortcutRef = useRef<(e: KeyboardEvent) => void>();
+  undoShortcutRef.current = (e) => {
+    if (!(e.ctrlKey || e.metaKey) || e.altKey || isPreviewPlaying) return;
+
+    // Text fields keep their native undo
+    const target = e.target as HTMLElement | null;
+    if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT' || target.isContentEditable)) return;
+
+    const key = e.key.toLowerCase();
+    if (key === 'z' && !e.shiftKey) {
+      e.preventDefault();
+      handleUndoJump(-1);
+    } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+      e.preventDefault();
+      handleUndoJump(1);
+    }
+  };
+
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => undoShortcutRef.current!(e);
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, []);
+
+  useEffect(() => {
+    if (!deletedNotice) return;
+    const timer = setTimeout(() => setDeletedNotice(null), 6000);
+    return () => clearTimeout(timer);
+  }, [deletedNotice]);
+
   const triggerFileUpload = (storyboardId: string) => {
     setActiveUploadStoryboardId(storyboardId);
     if (fileInputRef.current) {
@@ -635,7 +1438,8 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
     }
   };
 
-  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+  // Uploads open the crop tool first, so they can be fitted to the panel shape
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
     if (!file || !activeUploadStoryboardId || !user) return;
 
@@ -644,7 +1448,19 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
       return;
     }
 
-    const storyboardId = activeUploadStoryboardId;
+    setCropRequest({ storyboardId: activeUploadStoryboardId, imageUrl: URL.createObjectURL(file), file });
+    setActiveUploadStoryboardId(null);
+  };
+
+  const closeCropRequest = () => {
+    if (cropRequest?.file) URL.revokeObjectURL(cropRequest.imageUrl);
+    setCropRequest(null);
+  };
+
+  // Manual image (an uploaded file or a cropped data URI): uploaded and added as the active candidate
+  const uploadManualImage = async (storyboardId: string, image: File | string, label: string) => {
+    const storyboard = storyboards.find(p => p.id === storyboardId);
+    if (!storyboard || !user) return;
     setUploadingStoryboardId(storyboardId);
 
     setUploadErrors(prev => {
@@ -653,19 +1469,22 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
       return newState;
     });
 
-    const localUrl = URL.createObjectURL(file);
+    const localUrl = typeof image === 'string' ? image : URL.createObjectURL(image);
     setStoryboards(prev => prev.map(p =>
       p.id === storyboardId ? { ...p, imageUrl: localUrl } : p
     ));
 
     try {
-      const downloadUrl = await uploadStoryboardImageFromFile(user.uid, file);
+      const downloadUrl = typeof image === 'string'
+        ? await uploadStoryboardImageFromString(user.uid, image)
+        : await uploadStoryboardImageFromFile(user.uid, image);
 
       // ATOMIC UPDATE
-      onStoryboardChange(storyboardId, { imageUrl: downloadUrl });
+      const gallery = addToGallery(storyboard, [createImageCandidate(downloadUrl)]);
+      changeStoryboard(storyboard, gallery, label);
 
       setStoryboards(prev => prev.map(p =>
-        p.id === storyboardId ? { ...p, imageUrl: downloadUrl } : p
+        p.id === storyboardId ? { ...p, ...gallery } : p
       ));
 
     } catch (error) {
@@ -673,13 +1492,63 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
       setUploadErrors(prev => ({ ...prev, [storyboardId]: "Upload failed. Image is local only." }));
     } finally {
       setUploadingStoryboardId(null);
-      setActiveUploadStoryboardId(null);
+    }
+  };
+
+  const handleApplyCrop = (croppedDataUrl: string) => {
+    if (!cropRequest) return;
+    uploadManualImage(cropRequest.storyboardId, croppedDataUrl, cropRequest.file ? 'Upload image' : 'Reframe image');
+    closeCropRequest();
+  };
+
+  const handleUseOriginalUpload = () => {
+    if (!cropRequest?.file) return;
+    uploadManualImage(cropRequest.storyboardId, cropRequest.file, 'Upload image');
+    closeCropRequest();
+  };
+
+  // Portable backup: project, referenced characters/locations and all media in one zip
+  const handleExportBundle = async () => {
+    setIsExportingBundle(true);
+    try {
+      const characterIds = new Set([...storyboards.flatMap(getLineCharacterIds), ...storyboards.flatMap(getPanelCharacterIds), ...(project.selectedCharacterIds || [])]);
+      const bundle = await buildProjectBundle(
+        { ...project, storyboards },
+        characters.filter(c => characterIds.has(c.id)),
+        locations.filter(l => l.id === activeLocationId || storyboards.some(p => p.locationId === l.id))
+      );
+
+      const url = URL.createObjectURL(bundle);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${project.title.replace(/["<>\\]/g, '').replace(/\s+/g, '_').toLowerCase()}${PROJECT_BUNDLE_EXTENSION}`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+    } catch (error) {
+      console.error("Bundle export failed:", error);
+      alert(`Bundle export failed: ${error instanceof Error ? error.message : String(error)}`);
+    } finally {
+      setIsExportingBundle(false);
     }
   };
 
   const handleExport = () => {
     const safeTitle = project.title.replace(/["<>\\]/g, '');
-    const storyboardsData = JSON.stringify(storyboards);
+    // The player gets dialogue pre-formatted (speaker names resolved) and the audio clips in play order
+    const storyboardsData = JSON.stringify(storyboards.map(p => ({
+      ...p,
+      captionLines: getDialogueLines(p).filter(l => l.text.trim()).map(l => ({
+        speaker: getSpeakerName(l, characters) || '',
+        text: formatLineText(l),
+        type: l.type,
+        // Position in the conversation track, for highlighting; timings refer to the untrimmed track
+        start: p.audioUrl && l.startTime !== undefined ? l.startTime - (p.audioEdit?.trimStart || 0) * 1000 : undefined,
+      })),
+      balloonsHtml: hasBalloons(p) ? renderBalloonsHtml(p.overlays!) : '',
+      clips: getAudioClips(p),
+    })));
     const charactersData = JSON.stringify(characters);
 
     const htmlContent = `<!DOCTYPE html>
@@ -688,11 +1557,14 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
     <meta charset="UTF-8">
     <meta name="viewport" content="width=device-width, initial-scale=1.0">
     <title>${safeTitle} - Stryp Comic</title>
+    <link href="${BALLOON_FONTS_STYLESHEET}" rel="stylesheet">
     <style>
         body { margin: 0; background: #020617; color: #fff; font-family: sans-serif; display: flex; flex-direction: column; height: 100vh; overflow: hidden; }
         #stage { flex: 1; display: flex; items-center; justify-content: center; position: relative; background: #000; }
-        #stage { flex: 1; display: flex; items-center; justify-content: center; position: relative; background: #000; overflow: hidden; }
-        .media { max-width: 100%; max-height: 100%; object-fit: contain; opacity: 0; transition: opacity 0.5s; display: none; }
+        #stage { flex: 1; display: flex; align-items: center; justify-content: center; position: relative; background: #000; overflow: hidden; }
+        #panel { position: relative; display: inline-block; }
+        #balloons { position: absolute; inset: 0; container-type: size; pointer-events: none; }
+        .media { max-width: 100vw; max-height: calc(100vh - 70px); object-fit: contain; opacity: 0; transition: opacity 0.5s; display: none; }
         .media.visible { opacity: 1; display: block; }
         #captions { position: absolute; bottom: 0; left: 0; right: 0; background: linear-gradient(to top, rgba(0,0,0,0.9), transparent); padding: 40px 20px 20px; text-align: center; font-size: 20px; min-height: 100px; display: flex; align-items: flex-end; justify-content: center; }
         #controls { padding: 15px; background: #0f172a; display: flex; justify-content: center; gap: 15px; }
@@ -701,6 +1573,11 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
         #start-screen { position: absolute; inset: 0; background: #020617; z-index: 10; display: flex; flex-direction: column; align-items: center; justify-content: center; }
         h1 { margin-bottom: 20px; text-align: center; color: #e2e8f0; }
         .character-name { color: #22d3ee; font-weight: bold; margin-right: 8px; display: block; font-size: 0.8em; margin-bottom: 4px; }
+        #captions > div { display: flex; flex-direction: column; gap: 10px; }
+        .line.thought { font-style: italic; }
+        .line.caption { color: #fef3c7; }
+        .line { transition: opacity 0.3s; }
+        .line.dim { opacity: 0.4; }
     </style>
 </head>
 <body>
@@ -709,8 +1586,11 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
         <button onclick="startPlayback()">Start Comic</button>
     </div>
     <div id="stage">
-        <img id="current-img" class="media" />
-        <video id="current-vid" class="media" muted playsinline></video>
+        <div id="panel">
+            <img id="current-img" class="media" />
+            <video id="current-vid" class="media" muted playsinline></video>
+            <div id="balloons"></div>
+        </div>
         <div id="captions"></div>
     </div>
     <div id="controls">
@@ -740,41 +1620,48 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
             const storyboard = storyboards[index];
             const img = document.getElementById('current-img');
             const vid = document.getElementById('current-vid');
+            const balloonsEl = document.getElementById('balloons');
             
             img.classList.remove('visible');
             vid.classList.remove('visible');
             vid.pause();
+            balloonsEl.innerHTML = '';
 
             setTimeout(() => {
                 if (storyboard.videoUrl) {
                     vid.src = storyboard.videoUrl;
                     vid.oncanplay = () => {
                         vid.classList.add('visible');
+                        balloonsEl.innerHTML = storyboard.balloonsHtml;
                         if (isPlaying) vid.play();
                     };
                 } else {
                     img.src = storyboard.imageUrl || '';
-                    img.onload = () => img.classList.add('visible');
+                    img.onload = () => {
+                        img.classList.add('visible');
+                        balloonsEl.innerHTML = storyboard.balloonsHtml;
+                    };
                 }
             }, 50);
             
             const captionEl = document.getElementById('captions');
-            const charName = storyboard.characterId ? characters.find(c => c.id === storyboard.characterId)?.name : '';
             
-            let html = '';
-            if (charName) html += '<span class="character-name">' + charName + '</span>';
-            html += storyboard.dialogue || '';
-            captionEl.innerHTML = html;
+            let html = '<div>';
+            storyboard.captionLines.forEach(line => {
+                html += '<div class="line ' + line.type + '">';
+                if (line.speaker) html += '<span class="character-name">' + line.speaker + '</span>';
+                html += line.text + '</div>';
+            });
+            captionEl.innerHTML = html + '</div>';
+            // Lettered storyboards carry their dialogue in balloons
+            captionEl.style.display = storyboard.balloonsHtml ? 'none' : 'flex';
 
             if (audio) { audio.pause(); audio = null; }
             if (timeout) { clearTimeout(timeout); timeout = null; }
 
             if (isPlaying) {
-                if (storyboard.audioUrl) {
-                    audio = new Audio(storyboard.audioUrl);
-                    audio.onended = () => nextStoryboard();
-                    audio.onerror = () => { setTimeout(nextStoryboard, 3000); };
-                    audio.play().catch(e => { console.log("Autoplay prevented", e); setTimeout(nextStoryboard, 3000); });
+                if (storyboard.clips.length > 0) {
+                    playClip(storyboard.clips, 0);
                 } else {
                     // Default delay if no audio
                     timeout = setTimeout(nextStoryboard, storyboardDelay);
@@ -782,6 +1669,27 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
             }
         }
 
+        // Plays the storyboard's clips (one per dialogue line) back to back, then moves on
+        function playClip(clips, i) {
+            if (i >= clips.length) { nextStoryboard(); return; }
+            const next = () => playClip(clips, i + 1);
+            audio = new Audio(clips[i]);
+            audio.ontimeupdate = highlightTimedLine;
+            audio.onended = next;
+            audio.onerror = () => { setTimeout(next, 3000); };
+            audio.play().catch(e => { console.log("Autoplay prevented", e); setTimeout(next, 3000); });
+        }
+
+        // Dims every line but the one being spoken in a conversation track
+        function highlightTimedLine() {
+            const lines = storyboards[currentIndex].captionLines;
+            const ms = this.currentTime * 1000;
+            let active = -1;
+            lines.forEach((line, i) => { if (line.start !== undefined && ms >= line.start) active = i; });
+            if (active < 0) return;
+            document.querySelectorAll('#captions .line').forEach((el, i) => el.classList.toggle('dim', i !== active));
+        }
+
         function startPlayback() {
             document.getElementById('start-screen').style.display = 'none';
             isPlaying = true;
@@ -845,15 +1753,27 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
       if (!isPlayingRef.current) break;
 
       setActivePreviewIndex(i);
+      setActivePreviewLineId(null);
       const storyboard = storyboards[i];
 
-      if (storyboard.audioUrl) {
+      // Per-line clips play in order and highlight their line; a conversation track highlights lines by their timings
+      const clips = getAudioClips(storyboard);
+      const clipLines = storyboard.audioUrl ? [] : getDialogueLines(storyboard).filter(l => l.audioUrl);
+
+      for (let c = 0; c < clips.length; c++) {
+        if (!isPlayingRef.current) break;
+        setActivePreviewLineId(clipLines[c]?.id || null);
+
         await new Promise<void>((resolve) => {
           if (!isPlayingRef.current) { resolve(); return; }
 
-          const audio = new Audio(storyboard.audioUrl);
+          const audio = new Audio(clips[c]);
           currentAudioRef.current = audio;
 
+          if (storyboard.audioUrl) {
+            audio.ontimeupdate = () => setActivePreviewLineId(getTimedLineAt(storyboard, audio.currentTime * 1000)?.id || null);
+          }
+
           audio.onended = () => {
             currentAudioRef.current = null;
             resolve();
@@ -871,7 +1791,9 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
             }
           }, 30000);
         });
-      } else {
+      }
+
+      if (clips.length === 0) {
         await new Promise(r => setTimeout(r, settings.storyboardDelay || 2000));
       }
     }
@@ -880,12 +1802,14 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
     currentAudioRef.current = null;
     setIsPreviewPlaying(false);
     setActivePreviewIndex(0);
+    setActivePreviewLineId(null);
   };
 
   const stopPreview = () => {
     isPlayingRef.current = false;
     setIsPreviewPlaying(false);
     setActivePreviewIndex(0);
+    setActivePreviewLineId(null);
 
     if (currentAudioRef.current) {
       currentAudioRef.current.pause();
@@ -932,10 +1856,73 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
                 />
               </div>
 
+              {/* Art Style Selector */}
+              <div>
+                <label className="text-xs font-bold text-slate-500 uppercase mb-1 block flex items-center gap-2">
+                  <Palette size={12} /> Art Style
+                </label>
+                <div className="relative">
+                  <select
+                    value={activeStyle.id}
+                    onChange={(e) => onUpdateProject?.({ stylePresetId: e.target.value })}
+                    className="w-full bg-slate-950 border border-slate-800 rounded-lg p-2 pr-8 text-xs text-white focus:border-indigo-500 outline-none appearance-none cursor-pointer"
+                    title="Used for every generated image and video. Manage presets in Settings."
+                  >
+                    {getStylePresets(stylePresets).map(preset => (
+                      <option key={preset.id} value={preset.id}>{preset.name}{preset.builtIn ? '' : ' (custom)'}</option>
+                    ))}
+                  </select>
+                  <ChevronDown size={14} className="absolute right-2 top-1/2 -translate-y-1/2 text-slate-500 pointer-events-none" />
+                </div>
+                <button
+                  onClick={() => setShowPromptTemplates(true)}
+                  className="mt-2 w-full flex items-center justify-between gap-2 px-2 py-1.5 rounded-lg text-xs text-slate-400 hover:text-indigo-300 hover:bg-slate-800 transition-colors"
+                  title="Edit the prompts sent to the AI for this project"
+                >
+                  <span className="flex items-center gap-2"><Braces size={12} /> Prompt Templates</span>
+                  {project.promptTemplates && Object.keys(project.promptTemplates).length > 0 && (
+                    <span className="text-[10px] text-amber-400">{Object.keys(project.promptTemplates).length} customized</span>
+                  )}
+                </button>
+                <div className="mt-2 flex items-center justify-between gap-2 px-2 text-xs text-slate-400">
+                  <span className="flex items-center gap-2" title="How panel images keep characters and the location consistent">
+                    <User size={12} /> Character refs
+                  </span>
+                  <div className="flex bg-slate-950 border border-slate-800 rounded-lg p-0.5">
+                    {(['text', 'images'] as ReferenceConditioning[]).map(option => (
+                      <button
+                        key={option}
+                        onClick={() => onUpdateProject?.({ referenceConditioning: option })}
+                        className={`px-2 py-0.5 rounded-md text-[11px] capitalize transition-colors ${(project.referenceConditioning || 'images') === option ? 'bg-indigo-600 text-white' : 'text-slate-500 hover:text-white'}`}
+                        title={option === 'images'
+                          ? 'Send the character and location reference images with each panel image request'
+                          : 'Describe characters and the location in words only'}
+                      >
+                        {option}
+                      </button>
+                    ))}
+                  </div>
+                </div>
+                <div className="mt-2 flex items-center justify-between gap-2 px-2 text-xs text-slate-400">
+                  <span className="flex items-center gap-2" title="Default shape of panel images and clips; storyboards can override it">
+                    <Crop size={12} /> Panel shape
+                  </span>
+                  <select
+                    value={getProjectAspectRatio(project)}
+                    onChange={(e) => onUpdateProject?.({ aspectRatio: e.target.value as PanelAspectRatio })}
+                    className="bg-slate-950 border border-slate-800 rounded-lg px-2 py-1 text-[11px] text-white focus:border-indigo-500 outline-none cursor-pointer"
+                  >
+                    {PANEL_ASPECT_RATIO_IDS.map(id => (
+                      <option key={id} value={id}>{PANEL_ASPECT_RATIOS[id].label} ({formatAspectRatio(id)})</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
               {/* Location Selector */}
               <div>
                 <label className="text-xs font-bold text-slate-500 uppercase mb-1 block flex items-center gap-2">
-                  <MapPin size={12} /> Active Location Concept
+                  <MapPin size={12} /> Default Location
                 </label>
                 <button
                   onClick={() => setShowLocationPicker(true)}
@@ -948,70 +1935,6 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
                 </button>
               </div>
 
-              {/* Location Picker Drawer */}
-              {showLocationPicker && (
-                <div className="fixed inset-0 z-[60] flex items-end justify-center sm:items-center sm:p-4 bg-black/80 backdrop-blur-sm animate-in fade-in">
-                  <div
-                    className="absolute inset-0 sm:hidden"
-                    onClick={() => setShowLocationPicker(false)}
-                  />
-                  <div className="bg-slate-900 border-t sm:border border-slate-700 rounded-t-2xl sm:rounded-2xl w-full sm:max-w-md max-h-[80vh] flex flex-col shadow-2xl animate-slide-up">
-                    <div className="p-4 border-b border-slate-800 flex justify-between items-center bg-slate-900/50 rounded-t-2xl">
-                      <h3 className="font-bold text-white flex items-center gap-2">
-                        <MapPin size={16} className="text-indigo-400" /> Select Location
-                      </h3>
-                      <button onClick={() => setShowLocationPicker(false)} className="p-1 hover:bg-slate-800 rounded-full text-slate-400">
-                        <X size={20} />
-                      </button>
-                    </div>
-
-                    <div className="p-2 overflow-y-auto custom-scrollbar space-y-2">
-                      <button
-                        onClick={() => { setActiveLocationId(''); setShowLocationPicker(false); }}
-                        className={`w-full p-3 rounded-xl flex items-center gap-3 transition-all ${!activeLocationId ? 'bg-indigo-600/20 border border-indigo-500/50' : 'bg-slate-950 border border-slate-800 hover:border-slate-700'}`}
-                      >
-                        <div className="w-12 h-12 rounded-lg bg-slate-900 flex items-center justify-center text-slate-500 border border-slate-800">
-                          <MapPin size={20} />
-                        </div>
-                        <div className="text-left">
-                          <p className="font-bold text-sm text-white">None</p>
-                          <p className="text-xs text-slate-500">Use scene description only</p>
-                        </div>
-                        {!activeLocationId && <div className="ml-auto text-indigo-400"><Check size={16} /></div>}
-                      </button>
-
-                      {locations.map(loc => {
-                        const isActive = activeLocationId === loc.id;
-                        const mediaUrl = (loc.media && loc.media.length > 0) ? loc.media[0].url : loc.mediaUrl;
-
-                        return (
-                          <button
-                            key={loc.id}
-                            onClick={() => { setActiveLocationId(loc.id); setShowLocationPicker(false); }}
-                            className={`w-full p-2 rounded-xl flex items-center gap-3 transition-all ${isActive ? 'bg-indigo-600/20 border border-indigo-500/50' : 'bg-slate-950 border border-slate-800 hover:border-slate-700'}`}
-                          >
-                            <div className="w-12 h-12 rounded-lg bg-black overflow-hidden border border-slate-800 shrink-0">
-                              {mediaUrl ? (
-                                <img src={mediaUrl} alt={loc.name} className="w-full h-full object-cover" />
-                              ) : (
-                                <div className="w-full h-full flex items-center justify-center text-slate-700">
-                                  <ImageIcon size={16} />
-                                </div>
-                              )}
-                            </div>
-                            <div className="text-left min-w-0 flex-1">
-                              <p className="font-bold text-sm text-white truncate">{loc.name}</p>
-                              <p className="text-xs text-slate-500 truncate">{loc.description || "No description"}</p>
-                            </div>
-                            {isActive && <div className="ml-auto text-indigo-400 shrink-0"><Check size={16} /></div>}
-                          </button>
-                        );
-                      })}
-                    </div>
-                  </div>
-                </div>
-              )}
-
               <button
                 onClick={handleGenerateScript}
                 disabled={isGeneratingScript || !sceneDesc}
@@ -1027,15 +1950,7 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
             <h3 className="text-xs font-bold text-slate-500 uppercase mb-3">Storyboard Tools</h3>
             <button
               onClick={() => {
-                const newStoryboard: Storyboard = {
-                  id: Date.now().toString(),
-                  description: '',
-                  dialogue: '',
-                  isGeneratingImage: false,
-                  isGeneratingVideo: false,
-                  isGeneratingAudio: false,
-                };
-                updateLocalStoryboards([...storyboards, newStoryboard]);
+                updateLocalStoryboards([...storyboards, createEmptyStoryboard()], 'Add storyboard');
               }}
               className="w-full py-2 bg-indigo-600/20 hover:bg-indigo-600/30 text-indigo-400 text-sm font-medium rounded-lg flex items-center justify-center gap-2 transition-colors border border-indigo-500/30"
             >
@@ -1090,8 +2005,8 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
           <div className="flex items-center gap-4">
             <button
               onClick={() => {
-                if (uploadingStoryboardId || isBatchGenerating || isBatchAudioGenerating) {
-                  if (!confirm("Uploads or generations are in progress. Leaving now may result in lost data. Are you sure?")) {
+                if (uploadingStoryboardId || jobs.some(j => j.status === 'running')) {
+                  if (!confirm("Uploads or generations are in progress. Running jobs will restart when you reopen this project. Leave anyway?")) {
                     return;
                   }
                 }
@@ -1151,10 +2066,10 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
           )}
 
           {/* Generate All Audio */}
-          {!isPreviewPlaying && storyboards.some(p => p.dialogue && !p.audioUrl) && (
+          {!isPreviewPlaying && storyboards.some(p => hasSpokenDialogue(p) && getAudioClips(p).length === 0) && (
             <button
               onClick={handleGenerateAllAudio}
-              disabled={isBatchAudioGenerating || isBatchGenerating}
+              disabled={isBatchAudioGenerating}
               className={`flex items-center justify-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-700 rounded-lg text-sm font-medium transition-colors whitespace-nowrap ${isBatchAudioGenerating ? 'opacity-70 cursor-wait' : ''}`}
               title="Generate audio for all storyboards with dialogue"
             >
@@ -1167,7 +2082,7 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
           {!isPreviewPlaying && storyboards.some(p => !p.imageUrl) && (
             <button
               onClick={handleGenerateAllVisuals}
-              disabled={isBatchGenerating || isBatchAudioGenerating}
+              disabled={isBatchGenerating}
               className={`flex items-center justify-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-700 rounded-lg text-sm font-medium transition-colors whitespace-nowrap ${isBatchGenerating ? 'opacity-70 cursor-wait' : ''}`}
               title="Generate visuals for all empty storyboards"
             >
@@ -1176,18 +2091,124 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
             </button>
           )}
 
-          {/* Export / Download */}
+          {/* Generation Queue */}
+          {!isPreviewPlaying && jobs.length > 0 && (
+            <button
+              onClick={() => setShowQueuePanel(true)}
+              className="flex items-center justify-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-700 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+              title="View generation queue"
+            >
+              {(isBatchGenerating || isBatchAudioGenerating) ? <Loader2 className="animate-spin text-indigo-400" size={16} /> : <ListOrdered size={16} className="text-indigo-400" />}
+              <span className="hidden md:inline">Queue</span>
+              <span className="text-[10px] bg-slate-950 px-1.5 py-0.5 rounded-full font-mono">
+                {jobs.filter(isJobActive).length}/{jobs.length}
+              </span>
+            </button>
+          )}
+
+          {/* Undo / Redo */}
+          {!isPreviewPlaying && (
+            <div className="relative flex items-center">
+              <button
+                onClick={() => handleUndoJump(-1)}
+                disabled={undoHistory.past.length === 0}
+                className="flex items-center justify-center px-2.5 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-slate-800 text-slate-200 border border-slate-700 rounded-l-lg text-sm transition-colors"
+                title={undoHistory.past.length > 0 ? `Undo ${undoHistory.past[undoHistory.past.length - 1].label} (Ctrl+Z)` : 'Nothing to undo'}
+              >
+                <Undo2 size={16} />
+              </button>
+              <button
+                onClick={() => handleUndoJump(1)}
+                disabled={undoHistory.future.length === 0}
+                className="flex items-center justify-center px-2.5 py-2 bg-slate-800 hover:bg-slate-700 disabled:opacity-40 disabled:hover:bg-slate-800 text-slate-200 border-y border-slate-700 text-sm transition-colors"
+                title={undoHistory.future.length > 0 ? `Redo ${undoHistory.future[0].label} (Ctrl+Shift+Z)` : 'Nothing to redo'}
+              >
+                <Redo2 size={16} />
+              </button>
+              <button
+                onClick={() => setShowUndoMenu(prev => !prev)}
+                className="flex items-center justify-center px-1.5 py-2 bg-slate-800 hover:bg-slate-700 text-slate-400 border border-slate-700 rounded-r-lg text-sm transition-colors"
+                title="Edit history"
+              >
+                <ChevronDown size={14} />
+              </button>
+
+              {showUndoMenu && (
+                <UndoHistoryMenu history={undoHistory} onJump={handleUndoJump} onClose={() => setShowUndoMenu(false)} />
+              )}
+            </div>
+          )}
+
+          {/* Revision History */}
           {!isPreviewPlaying && (
             <button
-              onClick={handleExport}
+              onClick={() => setShowHistoryPanel(true)}
               className="flex items-center justify-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-700 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
-              title="Download playable HTML file"
+              title="Revision history"
             >
-              <Download size={16} />
-              <span className="hidden lg:inline">Export</span>
+              <History size={16} />
+              <span className="hidden lg:inline">History</span>
             </button>
           )}
 
+          {/* Export / Download */}
+          {!isPreviewPlaying && (
+            <div className="relative">
+              <button
+                onClick={() => setShowExportMenu(prev => !prev)}
+                className="flex items-center justify-center gap-2 px-3 py-2 bg-slate-800 hover:bg-slate-700 text-slate-200 border border-slate-700 rounded-lg text-sm font-medium transition-colors whitespace-nowrap"
+                title="Export project"
+              >
+                {isExportingBundle ? <Loader2 size={16} className="animate-spin" /> : <Download size={16} />}
+                <span className="hidden lg:inline">{isExportingBundle ? 'Bundling...' : 'Export'}</span>
+                <ChevronDown size={14} className="text-slate-500" />
+              </button>
+
+              {showExportMenu && (
+                <>
+                  <div className="fixed inset-0 z-40" onClick={() => setShowExportMenu(false)} />
+                  <div className="fixed md:absolute inset-x-4 bottom-4 md:inset-x-auto md:bottom-auto md:right-0 md:top-full md:mt-2 md:w-56 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-50 p-1.5 animate-in fade-in duration-150">
+                    <button
+                      onClick={() => { setShowExportMenu(false); handleExport(); }}
+                      className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm text-slate-200 hover:bg-slate-800 text-left"
+                    >
+                      <Download size={16} className="text-slate-400" /> HTML Player
+                    </button>
+                    <button
+                      onClick={() => { setShowExportMenu(false); setShowMovieExport(true); }}
+                      disabled={storyboards.length === 0}
+                      className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm text-slate-200 hover:bg-slate-800 disabled:opacity-40 text-left"
+                    >
+                      <Film size={16} className="text-slate-400" /> Video (MP4 / WebM)
+                    </button>
+                    <button
+                      onClick={() => { setShowExportMenu(false); setShowPdfExport(true); }}
+                      disabled={storyboards.length === 0}
+                      className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm text-slate-200 hover:bg-slate-800 disabled:opacity-40 text-left"
+                    >
+                      <FileText size={16} className="text-slate-400" /> Print PDF
+                    </button>
+                    <button
+                      onClick={() => { setShowExportMenu(false); setShowArchiveExport(true); }}
+                      disabled={storyboards.length === 0}
+                      className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm text-slate-200 hover:bg-slate-800 disabled:opacity-40 text-left"
+                    >
+                      <BookOpen size={16} className="text-slate-400" /> Comic Book (CBZ / EPUB)
+                    </button>
+                    <div className="my-1 border-t border-slate-800" />
+                    <button
+                      onClick={() => { setShowExportMenu(false); handleExportBundle(); }}
+                      disabled={isExportingBundle}
+                      className="w-full flex items-center gap-3 px-3 py-2 rounded-lg text-sm text-slate-200 hover:bg-slate-800 disabled:opacity-40 text-left"
+                    >
+                      <Package size={16} className="text-slate-400" /> Project Bundle (backup)
+                    </button>
+                  </div>
+                </>
+              )}
+            </div>
+          )}
+
           {isPreviewPlaying ? (
             <button onClick={stopPreview} className="flex-1 md:flex-none flex items-center justify-center gap-2 px-4 py-2 bg-rose-600 hover:bg-rose-500 text-white rounded-lg text-sm font-medium whitespace-nowrap">
               <StopCircle size={16} /> Stop Preview
@@ -1231,10 +2252,40 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
         )}
 
         {/* Main Content Area */}
-        <div className="flex-1 overflow-y-auto p-4 md:p-8 relative bg-slate-950">
+        <div ref={editorScrollRef} className="flex-1 overflow-y-auto p-4 md:p-8 relative bg-slate-950">
           {/* Editor View */}
           {!isPreviewPlaying && (
-            <div className="max-w-4xl mx-auto space-y-8 pb-20">
+            <div className="max-w-4xl mx-auto space-y-2 pb-20">
+              {/* Bulk actions for selected storyboards */}
+              {selectedIds.length > 0 && (
+                <div className="sticky top-0 z-20 flex items-center gap-2 p-2 pl-4 bg-slate-900/95 backdrop-blur border border-indigo-500/40 rounded-xl shadow-xl">
+                  <span className="text-sm text-indigo-200 font-medium flex-1">{selectedIds.length} selected</span>
+                  <button
+                    onClick={() => setSelectedStoryboardIds(new Set(storyboards.map(p => p.id)))}
+                    className="px-2.5 py-1.5 text-xs text-slate-300 hover:bg-slate-800 rounded-lg hidden sm:block"
+                  >
+                    Select all
+                  </button>
+                  <button
+                    onClick={handleDuplicateSelected}
+                    className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-slate-200 bg-slate-800 hover:bg-slate-700 rounded-lg"
+                    title="Duplicate selected storyboards"
+                  >
+                    <Copy size={14} /> <span className="hidden sm:inline">Duplicate</span>
+                  </button>
+                  <button
+                    onClick={() => deleteStoryboards(selectedIds)}
+                    className="flex items-center gap-1.5 px-2.5 py-1.5 text-xs text-rose-300 bg-rose-500/10 hover:bg-rose-500/20 rounded-lg"
+                    title="Delete selected storyboards"
+                  >
+                    <Trash2 size={14} /> <span className="hidden sm:inline">Delete</span>
+                  </button>
+                  <button onClick={() => setSelectedStoryboardIds(new Set())} className="p-1.5 text-slate-400 hover:text-white hover:bg-slate-800 rounded-lg" title="Clear selection">
+                    <X size={16} />
+                  </button>
+                </div>
+              )}
+
               {storyboards.length === 0 && (
                 <div className="text-center py-20 opacity-50">
                   <Wand2 size={48} className="mx-auto mb-4 text-slate-600" />
@@ -1252,9 +2303,33 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
               )}
 
               {storyboards.map((storyboard, index) => (
-                <div key={storyboard.id} className="group relative bg-slate-900 rounded-xl border border-slate-800 shadow-xl overflow-hidden hover:border-slate-700 transition-all">
+                <React.Fragment key={storyboard.id}>
+                {renderInsertSlot(index)}
+                <div
+                  ref={(el) => { if (el) storyboardCardRefs.current.set(storyboard.id, el); else storyboardCardRefs.current.delete(storyboard.id); }}
+                  className={`group relative bg-slate-900 rounded-xl border shadow-xl overflow-hidden transition-all ${selectedStoryboardIds.has(storyboard.id) ? 'border-indigo-500/70' : 'border-slate-800 hover:border-slate-700'} ${dragState?.ids.includes(storyboard.id) ? 'opacity-40' : ''}`}
+                >
                   <div className="flex items-center justify-between p-3 border-b border-slate-800 bg-slate-900/50">
-                    <span className="font-mono text-xs text-slate-500 font-bold">STORYBOARD {index + 1}</span>
+                    <div className="flex items-center gap-1.5">
+                      <button
+                        onPointerDown={(e) => handleDragStart(e, storyboard.id)}
+                        onPointerMove={handleDragMove}
+                        onPointerUp={handleDragEnd}
+                        onPointerCancel={() => setDragState(null)}
+                        className="p-1 -ml-1 text-slate-600 hover:text-slate-300 cursor-grab active:cursor-grabbing touch-none"
+                        title={selectedStoryboardIds.has(storyboard.id) && selectedIds.length > 1 ? `Drag to move ${selectedIds.length} storyboards` : 'Drag to reorder'}
+                      >
+                        <GripVertical size={16} />
+                      </button>
+                      <button
+                        onClick={(e) => toggleStoryboardSelection(storyboard.id, e.shiftKey)}
+                        className={`p-1 rounded ${selectedStoryboardIds.has(storyboard.id) ? 'text-indigo-400' : 'text-slate-600 hover:text-slate-300'}`}
+                        title="Select (Shift+click for a range)"
+                      >
+                        {selectedStoryboardIds.has(storyboard.id) ? <CheckSquare size={16} /> : <Square size={16} />}
+                      </button>
+                      <span className="font-mono text-xs text-slate-500 font-bold">STORYBOARD {index + 1}</span>
+                    </div>
                     <div className="flex gap-2">
                       <button onClick={() => deleteStoryboard(storyboard.id)} className="p-1.5 hover:bg-rose-500/20 hover:text-rose-400 text-slate-600 rounded">
 
@@ -1264,18 +2339,21 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
                   </div>
 
                   <div className="flex flex-col md:flex-row">
-                    <div className="w-full md:w-1/2 aspect-video bg-black relative flex items-center justify-center border-r border-slate-800 group-hover:border-slate-700">
+                    <div
+                      className="w-full md:w-1/2 max-h-[36rem] bg-black relative flex items-center justify-center border-r border-slate-800 group-hover:border-slate-700"
+                      style={{ aspectRatio: getAspectRatioCss(getStoryboardAspectRatio(storyboard, project)) }}
+                    >
                       {storyboard.videoUrl ? (
                         <video
                           src={storyboard.videoUrl}
-                          className="w-full h-full object-cover"
+                          className="w-full h-full object-contain"
                           autoPlay
                           loop
                           muted
                           playsInline
                         />
                       ) : storyboard.imageUrl ? (
-                        <img src={storyboard.imageUrl} alt="Storyboard" className="w-full h-full object-cover" />
+                        <img src={storyboard.imageUrl} alt="Storyboard" className="w-full h-full object-contain" />
                       ) : (
                         <div className="text-center p-6 w-full">
                           <ImageIcon className="mx-auto text-slate-700 mb-2" size={32} />
@@ -1322,6 +2400,7 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
 
                       {(storyboard.imageUrl || storyboard.videoUrl) && (
                         <>
+                          {hasBalloons(storyboard) && <BalloonLayer balloons={storyboard.overlays!} />}
                           <div className="absolute top-2 left-2 bg-indigo-600/90 backdrop-blur-sm text-white text-[10px] px-2 py-1 rounded-full flex items-center gap-1 shadow-sm border border-indigo-400/30 z-10 pointer-events-none">
                             <User size={10} />
                             <span className="font-semibold">Ref Used</span>
@@ -1354,6 +2433,45 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
                             >
                               <RefreshCw size={16} />
                             </button>
+                            {storyboard.imageUrl && (
+                              <button
+                                onClick={() => setAnimateStoryboardId(storyboard.id)}
+                                disabled={storyboard.isGeneratingVideo || uploadingStoryboardId === storyboard.id}
+                                className="p-2 bg-black/60 text-white rounded-lg hover:bg-indigo-600 backdrop-blur-sm disabled:opacity-50"
+                                title="Animate this panel (image to video)"
+                              >
+                                <Clapperboard size={16} />
+                              </button>
+                            )}
+                            {project.mode !== 'video' && storyboard.imageUrl && (
+                              <button
+                                onClick={() => setCropRequest({ storyboardId: storyboard.id, imageUrl: storyboard.imageUrl! })}
+                                disabled={storyboard.isGeneratingImage || uploadingStoryboardId === storyboard.id}
+                                className="p-2 bg-black/60 text-white rounded-lg hover:bg-indigo-600 backdrop-blur-sm disabled:opacity-50"
+                                title="Reframe to the panel shape"
+                              >
+                                <Crop size={16} />
+                              </button>
+                            )}
+                            {project.mode !== 'video' && storyboard.imageUrl && (
+                              <button
+                                onClick={() => setInpaintStoryboardId(storyboard.id)}
+                                disabled={storyboard.isGeneratingImage || uploadingStoryboardId === storyboard.id}
+                                className="p-2 bg-black/60 text-white rounded-lg hover:bg-indigo-600 backdrop-blur-sm disabled:opacity-50"
+                                title="Fix a region (in-painting)"
+                              >
+                                <Brush size={16} />
+                              </button>
+                            )}
+                            {getImageCandidates(storyboard).length > 0 && (
+                              <button
+                                onClick={() => setGalleryStoryboardId(storyboard.id)}
+                                className="p-2 bg-black/60 text-white rounded-lg hover:bg-indigo-600 backdrop-blur-sm flex items-center gap-1 text-xs"
+                                title="Image variations and history"
+                              >
+                                <Images size={16} /> {getImageCandidates(storyboard).length}
+                              </button>
+                            )}
                           </div>
                         </>
                       )}
@@ -1371,50 +2489,97 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
 
                     <div className="w-full md:w-1/2 p-4 md:p-5 flex flex-col gap-3">
                       <div>
-                        <label className="block text-xs text-slate-500 font-bold uppercase mb-1">Visual Description</label>
+                        <div className="flex items-center justify-between mb-1">
+                          <label className="block text-xs text-slate-500 font-bold uppercase">Visual Description</label>
+                          {storyboard.prompts && Object.keys(storyboard.prompts).length > 0 && (
+                            <button
+                              onClick={() => setPromptStoryboardId(storyboard.id)}
+                              className="flex items-center gap-1 px-2 py-0.5 rounded text-[11px] text-slate-400 hover:text-indigo-300 hover:bg-slate-800"
+                              title="Show the exact prompts and models used for this storyboard"
+                            >
+                              <Terminal size={12} /> Final prompt
+                            </button>
+                          )}
+                        </div>
                         <textarea
                           value={storyboard.description}
                           onChange={(e) => {
-                            const newStoryboards = [...storyboards];
-                            newStoryboards[index].description = e.target.value;
-                            updateLocalStoryboards(newStoryboards);
+                            const newStoryboards = storyboards.map(p => p.id === storyboard.id ? { ...p, description: e.target.value } : p);
+                            updateLocalStoryboards(newStoryboards, `Edit description of storyboard ${index + 1}`, `description:${storyboard.id}`);
                           }}
                           className="w-full bg-slate-950 border border-slate-800 rounded p-2 text-xs text-slate-300 focus:border-indigo-500 h-24 resize-none"
                         />
                       </div>
 
+                      <div>
+                        <div className="flex items-center justify-between mb-1">
+                          <label className="block text-xs text-slate-500 font-bold uppercase">In Frame</label>
+                          <div className="flex items-center gap-1 min-w-0 max-w-[70%]">
+                            <select
+                              value={storyboard.aspectRatio || ''}
+                              onChange={(e) => {
+                                const aspectRatio = (e.target.value || undefined) as PanelAspectRatio | undefined;
+                                const newStoryboards = storyboards.map(p => p.id === storyboard.id ? { ...p, aspectRatio } : p);
+                                updateLocalStoryboards(newStoryboards, `Change shape of storyboard ${index + 1}`);
+                              }}
+                              className={`bg-transparent rounded px-1 py-0.5 text-[11px] hover:bg-slate-800 outline-none cursor-pointer shrink-0 ${storyboard.aspectRatio ? 'text-slate-300' : 'text-slate-500'}`}
+                              title={storyboard.aspectRatio ? 'Panel shape of this storyboard' : 'Uses the project panel shape. Click to change.'}
+                            >
+                              <option value="">{formatAspectRatio(getProjectAspectRatio(project))} (default)</option>
+                              {PANEL_ASPECT_RATIO_IDS.map(id => (
+                                <option key={id} value={id}>{PANEL_ASPECT_RATIOS[id].label} ({formatAspectRatio(id)})</option>
+                              ))}
+                            </select>
+                            <button
+                              onClick={() => setLocationStoryboardId(storyboard.id)}
+                              className={`flex items-center gap-1 px-2 py-0.5 rounded text-[11px] hover:text-indigo-300 hover:bg-slate-800 min-w-0 ${storyboard.locationId === undefined ? 'text-slate-500' : 'text-slate-300'}`}
+                              title={storyboard.locationId === undefined ? 'Uses the project default location. Click to change.' : 'Location of this storyboard'}
+                            >
+                              <MapPin size={12} className="shrink-0" />
+                              <span className="truncate">{getStoryboardLocation(storyboard)?.name || 'No location'}</span>
+                            </button>
+                          </div>
+                        </div>
+                        <PanelCharactersPicker
+                          characters={characters.filter(c => selectedCharacterIds.has(c.id) || getPanelCharacterIds(storyboard).includes(c.id) || getLineCharacterIds(storyboard).includes(c.id))}
+                          selectedIds={getPanelCharacterIds(storyboard)}
+                          isDerived={!storyboard.characterIds}
+                          onChange={(characterIds) => {
+                            const newStoryboards = storyboards.map(p => p.id === storyboard.id ? { ...p, characterIds } : p);
+                            updateLocalStoryboards(newStoryboards, `Edit characters in frame of storyboard ${index + 1}`);
+                          }}
+                        />
+                      </div>
+
                       <div className="flex-1 flex flex-col">
-                        <label className="block text-xs text-slate-500 font-bold uppercase mb-1">Dialogue / Caption</label>
-                        <textarea
-                          value={storyboard.dialogue}
-                          onChange={(e) => {
-                            const newStoryboards = [...storyboards];
-                            newStoryboards[index].dialogue = e.target.value;
-                            updateLocalStoryboards(newStoryboards);
+                        <div className="flex items-center justify-between mb-1">
+                          <label className="block text-xs text-slate-500 font-bold uppercase">Dialogue</label>
+                          <button
+                            onClick={() => setLetteringStoryboardId(storyboard.id)}
+                            className="flex items-center gap-1 px-2 py-0.5 rounded text-[11px] text-slate-400 hover:text-indigo-300 hover:bg-slate-800"
+                            title="Place speech balloons and captions over the art"
+                          >
+                            <MessageCircle size={12} /> {hasBalloons(storyboard) ? `Lettering (${storyboard.overlays!.length})` : 'Letter panel'}
+                          </button>
+                        </div>
+                        <DialogueLinesEditor
+                          lines={getDialogueLines(storyboard)}
+                          characters={characters}
+                          onChange={(lines, label, mergeKey) => {
+                            const newStoryboards = storyboards.map(p => p.id === storyboard.id ? { ...p, ...withDialogueLines(lines) } : p);
+                            updateLocalStoryboards(newStoryboards, `${label} in storyboard ${index + 1}`, mergeKey);
                           }}
-                          className="w-full flex-1 bg-slate-950 border border-slate-800 rounded p-2 text-sm text-white focus:border-indigo-500 resize-none font-sans min-h-[80px]"
                         />
                       </div>
 
                       <div className="flex items-center gap-2 mt-auto pt-2">
-                        <select
-                          value={storyboard.characterId || ''}
-                          onChange={(e) => {
-                            const newStoryboards = [...storyboards];
-                            newStoryboards[index].characterId = e.target.value;
-                            updateLocalStoryboards(newStoryboards);
-                          }}
-                          className="bg-slate-950 border border-slate-800 rounded text-xs text-slate-300 p-2 flex-1 focus:border-indigo-500 outline-none w-full min-w-0"
-                        >
-                          <option value="">No Speaker (Caption)</option>
-                          {characters.map(c => (
-                            <option key={c.id} value={c.id}>{c.name}</option>
-                          ))}
-                        </select>
+                        <span className="flex-1 text-[11px] text-slate-500 truncate">
+                          {getAudioClips(storyboard).length > 0 ? 'Voiced' : hasSpokenDialogue(storyboard) ? 'Not voiced yet' : 'No spoken lines'}
+                        </span>
 
-                        {storyboard.audioUrl && (
+                        {getAudioClips(storyboard).length > 0 && (
                           <button
-                            onClick={() => toggleStoryboardAudio(storyboard.id, storyboard.audioUrl)}
+                            onClick={() => toggleStoryboardAudio(storyboard.id, getAudioClips(storyboard))}
                             className={`p-2 rounded border shrink-0 transition-colors ${playingStoryboardId === storyboard.id
                               ? 'bg-rose-900/30 text-rose-400 border-rose-900 hover:bg-rose-900/50'
                               : 'bg-green-900/30 text-green-400 border-green-900 hover:bg-green-900/50'
@@ -1424,14 +2589,32 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
                             {playingStoryboardId === storyboard.id ? <StopCircle size={16} /> : <Play size={16} />}
                           </button>
                         )}
+                        {getAudioClips(storyboard).length > 0 && (
+                          <button
+                            onClick={() => setEditAudioStoryboardId(storyboard.id)}
+                            disabled={storyboard.isGeneratingAudio}
+                            className="p-2 rounded border shrink-0 transition-colors bg-slate-800 text-slate-300 border-slate-700 hover:bg-slate-700 hover:text-white disabled:opacity-50"
+                            title="Trim, gain and fades"
+                          >
+                            <Scissors size={16} />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => setRecordStoryboardId(storyboard.id)}
+                          disabled={storyboard.isGeneratingAudio}
+                          className="p-2 rounded border shrink-0 transition-colors bg-rose-600/10 text-rose-300 border-rose-500/30 hover:bg-rose-600 hover:text-white disabled:opacity-50"
+                          title="Record dialogue with the microphone"
+                        >
+                          <MicVocal size={16} />
+                        </button>
                         <button
                           onClick={() => handleGenerateAudio(storyboard.id)}
-                          disabled={storyboard.isGeneratingAudio || !storyboard.dialogue || storyboard.isGeneratingImage}
+                          disabled={storyboard.isGeneratingAudio || !hasSpokenDialogue(storyboard) || storyboard.isGeneratingImage}
                           className={`p-2 rounded transition-colors flex items-center justify-center shrink-0 ${storyboard.characterId
                             ? 'bg-indigo-600/20 text-indigo-400 hover:bg-indigo-600 hover:text-white border border-indigo-500/30'
                             : 'bg-amber-600/20 text-amber-400 hover:bg-amber-600 hover:text-white border border-amber-500/30'
-                            } ${(!storyboard.dialogue || storyboard.isGeneratingImage) ? 'opacity-50 cursor-not-allowed' : ''}`}
-                          title={storyboard.characterId ? "Generate Character Speech" : "Generate Caption/Narrator Speech"}
+                            } ${(!hasSpokenDialogue(storyboard) || storyboard.isGeneratingImage) ? 'opacity-50 cursor-not-allowed' : ''}`}
+                          title={storyboard.characterId ? "Generate speech for every line" : "Generate Caption/Narrator Speech"}
                         >
                           {storyboard.isGeneratingAudio ? (
                             <Loader2 className="animate-spin" size={16} />
@@ -1443,21 +2626,16 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
                     </div>
                   </div>
                 </div>
+                </React.Fragment>
               ))}
 
+              {dragState && renderInsertSlot(storyboards.length)}
+
               <button
                 onClick={() => {
-                  const newStoryboard: Storyboard = {
-                    id: Date.now().toString(),
-                    description: '',
-                    dialogue: '',
-                    isGeneratingImage: false,
-                    isGeneratingVideo: false,
-                    isGeneratingAudio: false,
-                  };
-                  updateLocalStoryboards([...storyboards, newStoryboard]);
+                  updateLocalStoryboards([...storyboards, createEmptyStoryboard()], 'Add storyboard');
                 }}
-                className="w-full py-4 border-2 border-dashed border-slate-800 rounded-xl text-slate-600 hover:text-indigo-400 hover:border-indigo-500/50 transition-all flex items-center justify-center gap-2"
+                className="w-full py-4 mt-4 border-2 border-dashed border-slate-800 rounded-xl text-slate-600 hover:text-indigo-400 hover:border-indigo-500/50 transition-all flex items-center justify-center gap-2"
               >
                 <Plus size={20} /> Add Blank Storyboard
               </button>
@@ -1641,6 +2819,217 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
         document.body
       )}
 
+      {showMovieExport && (
+        <MovieExportModal
+          projectTitle={project.title}
+          storyboards={storyboards}
+          characters={characters}
+          storyboardDelay={settings.storyboardDelay || 2000}
+          aspectRatio={getProjectAspectRatio(project)}
+          onClose={() => setShowMovieExport(false)}
+        />
+      )}
+
+      {showPdfExport && (
+        <PdfExportModal
+          projectTitle={project.title}
+          storyboards={storyboards}
+          characters={characters}
+          onClose={() => setShowPdfExport(false)}
+        />
+      )}
+
+      {deletedNotice && !isPreviewPlaying && (
+        <div className="fixed bottom-6 left-1/2 -translate-x-1/2 z-50 flex items-center gap-3 pl-4 pr-2 py-2 bg-slate-800 border border-slate-700 rounded-xl shadow-2xl animate-in fade-in duration-150">
+          <span className="text-sm text-slate-200">{deletedNotice}</span>
+          <button
+            onClick={() => handleUndoJump(-1)}
+            className="flex items-center gap-1.5 px-3 py-1.5 bg-indigo-600 hover:bg-indigo-500 text-white rounded-lg text-xs font-bold"
+          >
+            <Undo2 size={14} /> Undo
+          </button>
+          <button onClick={() => setDeletedNotice(null)} className="p-1 text-slate-400 hover:text-white rounded-full">
+            <X size={14} />
+          </button>
+        </div>
+      )}
+
+      {showHistoryPanel && (
+        <RevisionHistoryPanel
+          revisions={revisions || []}
+          storyboards={storyboards}
+          characters={characters}
+          onRestore={handleRestoreRevision}
+          onClose={() => setShowHistoryPanel(false)}
+        />
+      )}
+
+      {letteringStoryboardId && storyboards.some(p => p.id === letteringStoryboardId) && (
+        <BalloonEditor
+          storyboard={storyboards.find(p => p.id === letteringStoryboardId)!}
+          title={`Storyboard ${storyboards.findIndex(p => p.id === letteringStoryboardId) + 1}`}
+          onSave={(balloons) => {
+            const index = storyboards.findIndex(p => p.id === letteringStoryboardId);
+            const newStoryboards = storyboards.map(p => p.id === letteringStoryboardId ? { ...p, overlays: balloons.length > 0 ? balloons : undefined } : p);
+            updateLocalStoryboards(newStoryboards, `Edit lettering of storyboard ${index + 1}`);
+            setLetteringStoryboardId(null);
+          }}
+          onClose={() => setLetteringStoryboardId(null)}
+        />
+      )}
+
+      {promptStoryboardId && storyboards.some(p => p.id === promptStoryboardId) && (
+        <PromptInspector
+          title={`Storyboard ${storyboards.findIndex(p => p.id === promptStoryboardId) + 1}`}
+          prompts={storyboards.find(p => p.id === promptStoryboardId)!.prompts || {}}
+          onClose={() => setPromptStoryboardId(null)}
+        />
+      )}
+
+      {showLocationPicker && (
+        <LocationPickerModal
+          title="Default Location"
+          locations={locations}
+          selectedId={activeLocationId}
+          onSelect={(locationId) => handleSelectDefaultLocation(locationId || '')}
+          onClose={() => setShowLocationPicker(false)}
+        />
+      )}
+
+      {recordStoryboardId && storyboards.some(p => p.id === recordStoryboardId) && (
+        <VoiceRecorderModal
+          title={`Storyboard ${storyboards.findIndex(p => p.id === recordStoryboardId) + 1}`}
+          lines={getDialogueLines(storyboards.find(p => p.id === recordStoryboardId)!).filter(isSpokenLine).map(line => ({
+            id: line.id,
+            speaker: getSpeakerName(line, characters) || 'Narrator',
+            text: line.text,
+          }))}
+          hasTrack={!!storyboards.find(p => p.id === recordStoryboardId)!.audioUrl}
+          isSaving={!!storyboards.find(p => p.id === recordStoryboardId)!.isGeneratingAudio}
+          onSave={(lineId, wavDataUrl) => handleSaveRecording(recordStoryboardId, lineId, wavDataUrl)}
+          onClose={() => setRecordStoryboardId(null)}
+        />
+      )}
+
+      {editAudioStoryboardId && storyboards.some(p => p.id === editAudioStoryboardId && getAudioClips(p).length > 0) && (
+        <AudioClipEditor
+          title={`Storyboard ${storyboards.findIndex(p => p.id === editAudioStoryboardId) + 1}`}
+          clips={(() => {
+            const storyboard = storyboards.find(p => p.id === editAudioStoryboardId)!;
+            if (storyboard.audioUrl) return [{ key: '', label: 'Storyboard track', url: storyboard.audioUrl, edit: storyboard.audioEdit }];
+            return getDialogueLines(storyboard).filter(l => l.audioUrl).map((line, i) => ({
+              key: line.id,
+              label: `Clip ${i + 1}: ${getSpeakerName(line, characters) || 'Narrator'}`,
+              url: line.audioUrl!,
+              edit: line.audioEdit,
+            }));
+          })()}
+          isSaving={!!storyboards.find(p => p.id === editAudioStoryboardId)!.isGeneratingAudio}
+          onSave={(key, wavDataUrl, edit) => handleSaveAudioEdit(editAudioStoryboardId, key || undefined, wavDataUrl, edit)}
+          onClose={() => setEditAudioStoryboardId(null)}
+        />
+      )}
+
+      {animateStoryboardId && storyboards.find(p => p.id === animateStoryboardId)?.imageUrl && (
+        <AnimatePanelModal
+          title={`Storyboard ${storyboards.findIndex(p => p.id === animateStoryboardId) + 1}`}
+          firstFrameUrl={storyboards.find(p => p.id === animateStoryboardId)!.imageUrl!}
+          nextFrameUrl={storyboards[storyboards.findIndex(p => p.id === animateStoryboardId) + 1]?.imageUrl}
+          hasVideo={!!storyboards.find(p => p.id === animateStoryboardId)!.videoUrl}
+          onAnimate={(animation) => {
+            handleGenerateVideo(animateStoryboardId, { animation });
+            setAnimateStoryboardId(null);
+          }}
+          onClose={() => setAnimateStoryboardId(null)}
+        />
+      )}
+
+      {cropRequest && storyboards.some(p => p.id === cropRequest.storyboardId) && (
+        <ImageCropModal
+          title={`Storyboard ${storyboards.findIndex(p => p.id === cropRequest.storyboardId) + 1}`}
+          imageUrl={cropRequest.imageUrl}
+          aspectRatio={getStoryboardAspectRatio(storyboards.find(p => p.id === cropRequest.storyboardId)!, project)}
+          isWorking={uploadingStoryboardId === cropRequest.storyboardId}
+          onApply={handleApplyCrop}
+          onUseOriginal={cropRequest.file ? handleUseOriginalUpload : undefined}
+          onClose={closeCropRequest}
+        />
+      )}
+
+      {inpaintStoryboardId && storyboards.find(p => p.id === inpaintStoryboardId)?.imageUrl && (
+        <InpaintEditor
+          title={`Storyboard ${storyboards.findIndex(p => p.id === inpaintStoryboardId) + 1}`}
+          imageUrl={storyboards.find(p => p.id === inpaintStoryboardId)!.imageUrl!}
+          isWorking={!!storyboards.find(p => p.id === inpaintStoryboardId)!.isGeneratingImage}
+          status={storyboardStates[inpaintStoryboardId]}
+          onApply={(maskDataUrl, instruction) => handleInpaint(inpaintStoryboardId, maskDataUrl, instruction)}
+          onClose={() => setInpaintStoryboardId(null)}
+        />
+      )}
+
+      {galleryStoryboardId && storyboards.some(p => p.id === galleryStoryboardId) && (
+        <ImageCandidatesModal
+          title={`Storyboard ${storyboards.findIndex(p => p.id === galleryStoryboardId) + 1}`}
+          storyboard={storyboards.find(p => p.id === galleryStoryboardId)!}
+          defaultVariations={settings.imageVariations || 1}
+          isGenerating={storyboards.find(p => p.id === galleryStoryboardId)!.isGeneratingImage || uploadingStoryboardId === galleryStoryboardId}
+          status={storyboardStates[galleryStoryboardId]}
+          onGenerate={(variations) => handleGenerateImage(galleryStoryboardId, { variations })}
+          onSelect={(candidate) => handleSelectCandidate(galleryStoryboardId, candidate)}
+          onToggleStar={(candidate) => handleToggleCandidateStar(galleryStoryboardId, candidate)}
+          onDelete={(candidates) => handleDeleteCandidates(galleryStoryboardId, candidates)}
+          onClose={() => setGalleryStoryboardId(null)}
+        />
+      )}
+
+      {locationStoryboardId && storyboards.some(p => p.id === locationStoryboardId) && (
+        <LocationPickerModal
+          title={`Location of Storyboard ${storyboards.findIndex(p => p.id === locationStoryboardId) + 1}`}
+          locations={locations}
+          selectedId={storyboards.find(p => p.id === locationStoryboardId)!.locationId}
+          inheritLabel={`Project default (${locations.find(l => l.id === activeLocationId)?.name || 'none'})`}
+          onSelect={(locationId) => {
+            const index = storyboards.findIndex(p => p.id === locationStoryboardId);
+            const newStoryboards = storyboards.map(p => p.id === locationStoryboardId ? { ...p, locationId } : p);
+            updateLocalStoryboards(newStoryboards, `Change location of storyboard ${index + 1}`);
+          }}
+          onClose={() => setLocationStoryboardId(null)}
+        />
+      )}
+
+      {showPromptTemplates && (
+        <PromptTemplatesModal
+          overrides={project.promptTemplates || {}}
+          userDefaults={settings.promptTemplates}
+          onSave={handleSavePromptTemplates}
+          onClose={() => setShowPromptTemplates(false)}
+        />
+      )}
+
+      {showArchiveExport && (
+        <ComicArchiveExportModal
+          project={project}
+          storyboards={storyboards}
+          characters={characters}
+          onClose={() => setShowArchiveExport(false)}
+        />
+      )}
+
+      {showQueuePanel && queueRef.current && (
+        <JobQueuePanel
+          jobs={jobs}
+          storyboards={storyboards}
+          onPause={(id) => queueRef.current?.pause(id)}
+          onResume={(id) => queueRef.current?.resume(id)}
+          onCancel={(id) => queueRef.current?.cancel(id)}
+          onRetry={(id) => queueRef.current?.retry(id)}
+          onPauseAll={() => queueRef.current?.pauseAll()}
+          onResumeAll={() => queueRef.current?.resumeAll()}
+          onClearFinished={() => queueRef.current?.clearFinished()}
+          onClose={() => setShowQueuePanel(false)}
+        />
+      )}
+
       {isPreviewPlaying && createPortal(
         <div className="fixed inset-0 z-[100] bg-[#020617] flex flex-col h-screen overflow-hidden text-white font-sans animate-in fade-in duration-300">
           {/* Start Screen / Header */}
@@ -1650,20 +3039,26 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
 
           <div className="flex-1 flex items-center justify-center relative bg-black">
             {storyboards[activePreviewIndex]?.videoUrl ? (
-              <video
-                src={storyboards[activePreviewIndex].videoUrl}
-                className="max-w-full max-h-full object-contain animate-fade-in transition-opacity duration-500"
-                autoPlay
-                loop
-                playsInline
-                controls={false}
-              />
+              <div className="relative inline-block">
+                <video
+                  src={storyboards[activePreviewIndex].videoUrl}
+                  className="block max-w-[100vw] max-h-[calc(100vh-5.5rem)] animate-fade-in transition-opacity duration-500"
+                  autoPlay
+                  loop
+                  playsInline
+                  controls={false}
+                />
+                {hasBalloons(storyboards[activePreviewIndex]) && <BalloonLayer balloons={storyboards[activePreviewIndex].overlays!} />}
+              </div>
             ) : storyboards[activePreviewIndex]?.imageUrl ? (
-              <img
-                src={storyboards[activePreviewIndex].imageUrl}
-                className="max-w-full max-h-full object-contain animate-fade-in transition-opacity duration-500"
-                alt="Storyboard"
-              />
+              <div className="relative inline-block">
+                <img
+                  src={storyboards[activePreviewIndex].imageUrl}
+                  className="block max-w-[100vw] max-h-[calc(100vh-5.5rem)] animate-fade-in transition-opacity duration-500"
+                  alt="Storyboard"
+                />
+                {hasBalloons(storyboards[activePreviewIndex]) && <BalloonLayer balloons={storyboards[activePreviewIndex].overlays!} />}
+              </div>
             ) : (
               <div className="text-slate-600 flex flex-col items-center">
                 <ImageIcon size={48} className="mb-2 opacity-50" />
@@ -1671,16 +3066,22 @@ const Studio: React.FC<Props> = ({ project, characters, settings, user, onUpdate
               </div>
             )}
 
-            {/* Caption Overlay - Matching the HTML download style */}
-            <div className="absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 via-black/60 to-transparent p-6 pb-2 text-center flex flex-col items-center justify-end min-h-[120px]">
-              {storyboards[activePreviewIndex]?.characterId && (
-                <span className="text-cyan-400 font-bold text-sm mb-1 uppercase tracking-wider block">
-                  {characters.find(c => c.id === storyboards[activePreviewIndex].characterId)?.name}
-                </span>
-              )}
-              <p className="text-white text-xl md:text-2xl font-medium leading-relaxed drop-shadow-md pb-4">
-                {storyboards[activePreviewIndex]?.dialogue}
-              </p>
+            {/* Caption Overlay - Matching the HTML download style; lettered storyboards show their balloons instead */}
+            <div className={`absolute bottom-0 left-0 right-0 bg-gradient-to-t from-black/90 via-black/60 to-transparent p-6 pb-2 text-center flex flex-col items-center justify-end min-h-[120px] ${storyboards[activePreviewIndex] && hasBalloons(storyboards[activePreviewIndex]) ? 'hidden' : ''}`}>
+              <div className="pb-4 space-y-2">
+                {storyboards[activePreviewIndex] && getDialogueLines(storyboards[activePreviewIndex]).filter(l => l.text.trim()).map(line => (
+                  <div key={line.id} className={`transition-opacity duration-300 ${activePreviewLineId && activePreviewLineId !== line.id ? 'opacity-40' : ''}`}>
+                    {getSpeakerName(line, characters) && (
+                      <span className="text-cyan-400 font-bold text-sm mb-1 uppercase tracking-wider block">
+                        {getSpeakerName(line, characters)}
+                      </span>
+                    )}
+                    <p className={`text-xl md:text-2xl font-medium leading-relaxed drop-shadow-md ${line.type === 'caption' ? 'text-amber-100' : 'text-white'} ${line.type === 'thought' ? 'italic' : ''}`}>
+                      {formatLineText(line)}
+                    </p>
+                  </div>
+                ))}
+              </div>
             </div>
           </div>
 
@@ -0,0 +1,192 @@
+import React, { useState } from 'react';
+import { Copy, Edit2, Trash2, Plus, X, Upload, Loader2, Lock } from 'lucide-react';
+import { StylePreset } from '../types';
+import { BUILT_IN_STYLE_PRESETS, MAX_STYLE_REFERENCE_IMAGES, createStylePreset } from '../services/stylePresets';
+import { saveStylePresetToFirestore, deleteStylePresetFromFirestore, uploadStyleReferenceImage } from '../services/firebase';
+
+interface Props {
+  userId: string;
+  presets: StylePreset[];
+}
+
+const inputClass = 'w-full bg-slate-950 border border-slate-800 rounded-lg p-2.5 text-sm text-white focus:outline-none focus:border-indigo-500';
+
+// Lists built-in and custom art styles; built-ins are read-only and can be duplicated to customize
+const StylePresetEditor: React.FC<Props> = ({ userId, presets }) => {
+  const [draft, setDraft] = useState<StylePreset | null>(null);
+  const [isSaving, setIsSaving] = useState(false);
+  const [isUploading, setIsUploading] = useState(false);
+
+  const updateDraft = (updates: Partial<StylePreset>) => setDraft(prev => prev ? { ...prev, ...updates } : prev);
+
+  const handleDuplicate = (preset: StylePreset) => {
+    setDraft(createStylePreset({
+      name: `${preset.name} (copy)`,
+      imagePrompt: preset.imagePrompt,
+      videoPrompt: preset.videoPrompt,
+      negativePrompt: preset.negativePrompt,
+      referenceImageUrls: preset.referenceImageUrls,
+    }));
+  };
+
+  const handleSave = async () => {
+    if (!draft || !draft.name.trim() || !draft.imagePrompt.trim()) return;
+    setIsSaving(true);
+    try {
+      await saveStylePresetToFirestore(userId, { ...draft, name: draft.name.trim() });
+      setDraft(null);
+    } catch (error) {
+      console.error('Failed to save style preset', error);
+      alert('Failed to save art style.');
+    } finally {
+      setIsSaving(false);
+    }
+  };
+
+  const handleDelete = async (preset: StylePreset) => {
+    if (!window.confirm(`Delete the "${preset.name}" art style? Projects using it fall back to the default style.`)) return;
+    try {
+      await deleteStylePresetFromFirestore(userId, preset.id);
+      if (draft?.id === preset.id) setDraft(null);
+    } catch (error) {
+      console.error('Failed to delete style preset', error);
+      alert('Failed to delete art style.');
+    }
+  };
+
+  const handleUploadReference = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file || !draft) return;
+    setIsUploading(true);
+    try {
+      const url = await uploadStyleReferenceImage(userId, file);
+      updateDraft({ referenceImageUrls: [...(draft.referenceImageUrls || []), url] });
+    } catch (error) {
+      console.error('Failed to upload style reference', error);
+      alert('Failed to upload reference image.');
+    } finally {
+      setIsUploading(false);
+    }
+  };
+
+  const references = draft?.referenceImageUrls || [];
+
+  return (
+    <div className="space-y-3">
+      <div className="space-y-2">
+        {[...BUILT_IN_STYLE_PRESETS, ...presets].map(preset => (
+          <div key={preset.id} className="flex items-center gap-3 bg-slate-950 border border-slate-800 rounded-xl p-3">
+            <div className="flex-1 min-w-0">
+              <p className="text-sm font-medium text-white flex items-center gap-1.5">
+                {preset.builtIn && <Lock size={10} className="text-slate-600" />}
+                {preset.name}
+              </p>
+              <p className="text-xs text-slate-500 truncate">{preset.imagePrompt}</p>
+            </div>
+            {!!preset.referenceImageUrls?.length && (
+              <div className="flex -space-x-2 shrink-0">
+                {preset.referenceImageUrls.map(url => (
+                  <img key={url} src={url} alt="" className="w-7 h-7 rounded-md object-cover border border-slate-900" />
+                ))}
+              </div>
+            )}
+            <button onClick={() => handleDuplicate(preset)} className="p-1.5 text-slate-500 hover:text-white hover:bg-slate-800 rounded-lg" title="Duplicate">
+              <Copy size={14} />
+            </button>
+            {!preset.builtIn && (
+              <>
+                <button onClick={() => setDraft(preset)} className="p-1.5 text-slate-500 hover:text-white hover:bg-slate-800 rounded-lg" title="Edit">
+                  <Edit2 size={14} />
+                </button>
+                <button onClick={() => handleDelete(preset)} className="p-1.5 text-slate-500 hover:text-rose-400 hover:bg-rose-500/10 rounded-lg" title="Delete">
+                  <Trash2 size={14} />
+                </button>
+              </>
+            )}
+          </div>
+        ))}
+      </div>
+
+      {draft ? (
+        <div className="bg-slate-950 border border-indigo-500/40 rounded-xl p-4 space-y-3">
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">Name</label>
+            <input value={draft.name} onChange={(e) => updateDraft({ name: e.target.value })} className={inputClass} />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">Image Prompt</label>
+            <textarea
+              value={draft.imagePrompt}
+              onChange={(e) => updateDraft({ imagePrompt: e.target.value })}
+              rows={3}
+              placeholder="Hand-inked comic art, bold outlines, flat colors..."
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">Video Prompt</label>
+            <textarea
+              value={draft.videoPrompt}
+              onChange={(e) => updateDraft({ videoPrompt: e.target.value })}
+              rows={2}
+              placeholder="Leave empty to reuse the image prompt."
+              className={`${inputClass} resize-none`}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">Avoid</label>
+            <input
+              value={draft.negativePrompt || ''}
+              onChange={(e) => updateDraft({ negativePrompt: e.target.value || undefined })}
+              placeholder="photorealism, text, watermarks"
+              className={inputClass}
+            />
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-slate-400 mb-1">Reference Images ({references.length}/{MAX_STYLE_REFERENCE_IMAGES})</label>
+            <div className="flex gap-2">
+              {references.map(url => (
+                <div key={url} className="relative w-16 h-16 rounded-lg overflow-hidden border border-slate-800 group">
+                  <img src={url} alt="Style reference" className="w-full h-full object-cover" />
+                  <button
+                    onClick={() => updateDraft({ referenceImageUrls: references.filter(u => u !== url) })}
+                    className="absolute top-0.5 right-0.5 p-0.5 bg-black/70 rounded text-white opacity-0 group-hover:opacity-100"
+                    title="Remove"
+                  >
+                    <X size={10} />
+                  </button>
+                </div>
+              ))}
+              {references.length < MAX_STYLE_REFERENCE_IMAGES && (
+                <label className="w-16 h-16 rounded-lg border border-dashed border-slate-700 hover:border-indigo-500 flex items-center justify-center text-slate-500 hover:text-indigo-400 cursor-pointer">
+                  {isUploading ? <Loader2 size={16} className="animate-spin" /> : <Upload size={16} />}
+                  <input type="file" accept="image/*" className="hidden" disabled={isUploading} onChange={handleUploadReference} />
+                </label>
+              )}
+            </div>
+          </div>
+          <div className="flex justify-end gap-2 pt-1">
+            <button onClick={() => setDraft(null)} className="px-4 py-2 text-sm text-slate-400 hover:text-white rounded-lg">Cancel</button>
+            <button
+              onClick={handleSave}
+              disabled={isSaving || isUploading || !draft.name.trim() || !draft.imagePrompt.trim()}
+              className="px-4 py-2 text-sm bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg flex items-center gap-2"
+            >
+              {isSaving && <Loader2 size={14} className="animate-spin" />} Save Style
+            </button>
+          </div>
+        </div>
+      ) : (
+        <button
+          onClick={() => setDraft(createStylePreset())}
+          className="w-full py-2.5 border border-dashed border-slate-800 hover:border-indigo-500/50 rounded-xl text-sm text-slate-500 hover:text-indigo-400 flex items-center justify-center gap-2 transition-colors"
+        >
+          <Plus size={14} /> New Art Style
+        </button>
+      )}
+    </div>
+  );
+};
+
+export default StylePresetEditor;
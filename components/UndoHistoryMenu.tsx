@@ -0,0 +1,78 @@
+import React from 'react';
+import { Undo2, Redo2, Circle } from 'lucide-react';
+import { UndoHistory, MAX_UNDO_ENTRIES } from '../services/undoHistory';
+
+interface Props {
+  history: UndoHistory;
+  onJump: (steps: number) => void; // Negative: undo that many entries, positive: redo
+  onClose: () => void;
+}
+
+const formatTime = (timestamp: number) => new Date(timestamp).toLocaleTimeString([], { hour: '2-digit', minute: '2-digit', second: '2-digit' });
+
+const UndoHistoryMenu: React.FC<Props> = ({ history, onJump, onClose }) => {
+  const { past, future } = history;
+
+  const jump = (steps: number) => {
+    onClose();
+    if (steps !== 0) onJump(steps);
+  };
+
+  return (
+    <>
+      <div className="fixed inset-0 z-40" onClick={onClose} />
+      <div className="fixed md:absolute inset-x-4 bottom-4 md:inset-x-auto md:bottom-auto md:right-0 md:top-full md:mt-2 md:w-72 bg-slate-900 border border-slate-700 rounded-xl shadow-2xl z-50 animate-in fade-in duration-150 flex flex-col max-h-[60vh]">
+        <div className="px-3 py-2 border-b border-slate-800 flex items-center justify-between shrink-0">
+          <span className="text-xs font-bold uppercase text-slate-500">Edit History</span>
+          <span className="text-[10px] text-slate-600">this session · last {MAX_UNDO_ENTRIES}</span>
+        </div>
+
+        <div className="overflow-y-auto custom-scrollbar p-1.5 space-y-0.5">
+          {past.length === 0 && future.length === 0 && (
+            <p className="text-xs text-slate-500 text-center py-6 px-3">No edits yet. Changes you make in this session can be undone with Ctrl+Z.</p>
+          )}
+
+          {/* Undone entries, latest redo at the bottom so the list reads oldest-to-newest upwards */}
+          {[...future].reverse().map((entry, i) => (
+            <button
+              key={entry.id}
+              onClick={() => jump(future.length - i)}
+              className="w-full flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-slate-500 hover:bg-slate-800 text-left"
+              title="Redo up to here"
+            >
+              <Redo2 size={14} className="shrink-0" />
+              <span className="flex-1 truncate line-through decoration-slate-600">{entry.label}</span>
+              <span className="text-[10px] font-mono">{formatTime(entry.updatedAt)}</span>
+            </button>
+          ))}
+
+          {[...past].reverse().map((entry, i) => (
+            <button
+              key={entry.id}
+              onClick={() => jump(-i)}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-left ${i === 0 ? 'bg-indigo-600/20 text-indigo-200' : 'text-slate-200 hover:bg-slate-800'}`}
+              title={i === 0 ? 'Current state' : 'Undo back to here'}
+            >
+              {i === 0 ? <Circle size={10} className="shrink-0 fill-indigo-400 text-indigo-400 mx-0.5" /> : <Undo2 size={14} className="shrink-0 text-slate-500" />}
+              <span className="flex-1 truncate">{entry.label}</span>
+              <span className="text-[10px] font-mono text-slate-500">{formatTime(entry.updatedAt)}</span>
+            </button>
+          ))}
+
+          {(past.length > 0 || future.length > 0) && (
+            <button
+              onClick={() => jump(-past.length)}
+              className={`w-full flex items-center gap-2 px-3 py-1.5 rounded-lg text-sm text-left ${past.length === 0 ? 'bg-indigo-600/20 text-indigo-200' : 'text-slate-400 hover:bg-slate-800'}`}
+              title="Undo everything"
+            >
+              <Circle size={10} className={`shrink-0 mx-0.5 ${past.length === 0 ? 'fill-indigo-400 text-indigo-400' : ''}`} />
+              <span className="flex-1 truncate italic">Opened project</span>
+            </button>
+          )}
+        </div>
+      </div>
+    </>
+  );
+};
+
+export default UndoHistoryMenu;
@@ -0,0 +1,189 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { createPortal } from 'react-dom';
+import { X, MicVocal, Square, RotateCcw, Check, Loader2, AlertTriangle } from 'lucide-react';
+import { isRecordingSupported, startMicrophoneRecording, decodeToMono, encodeWav, getWaveformPeaks, MicrophoneRecording } from '../services/voiceRecording';
+import Waveform from './Waveform';
+
+interface Props {
+  title: string;
+  lines: { id: string; speaker: string; text: string }[]; // Spoken lines, in order
+  hasTrack: boolean; // The storyboard has a whole-storyboard track (generated or recorded)
+  isSaving: boolean;
+  onSave: (lineId: string | undefined, wavDataUrl: string) => void; // undefined = whole storyboard
+  onClose: () => void;
+}
+
+const WAVEFORM_BARS = 120;
+
+const formatSeconds = (seconds: number) => `${Math.floor(seconds / 60)}:${String(Math.floor(seconds % 60)).padStart(2, '0')}`;
+
+// Records a take for the whole storyboard or a single line, with waveform preview and re-take
+const VoiceRecorderModal: React.FC<Props> = ({ title, lines, hasTrack, isSaving, onSave, onClose }) => {
+  const [lineId, setLineId] = useState(''); // '' = whole storyboard
+  const [phase, setPhase] = useState<'idle' | 'recording' | 'processing' | 'recorded'>('idle');
+  const [elapsed, setElapsed] = useState(0);
+  const [take, setTake] = useState<{ wavDataUrl: string; peaks: number[]; duration: number } | null>(null);
+  const [progress, setProgress] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const recordingRef = useRef<MicrophoneRecording | null>(null);
+
+  // Release the microphone if the modal closes mid-take
+  useEffect(() => () => { recordingRef.current?.stop(); }, []);
+
+  useEffect(() => {
+    if (phase !== 'recording') return;
+    const startedAt = Date.now();
+    const timer = setInterval(() => setElapsed((Date.now() - startedAt) / 1000), 200);
+    return () => clearInterval(timer);
+  }, [phase]);
+
+  const startTake = async () => {
+    setError(null);
+    setTake(null);
+    setProgress(0);
+    setElapsed(0);
+    try {
+      recordingRef.current = await startMicrophoneRecording();
+      setPhase('recording');
+    } catch (err) {
+      console.error("Microphone unavailable:", err);
+      setError('Microphone access was denied or no microphone is available.');
+      setPhase('idle');
+    }
+  };
+
+  const stopTake = async () => {
+    const recording = recordingRef.current;
+    if (!recording) return;
+    recordingRef.current = null;
+    setPhase('processing');
+    try {
+      const buffer = await decodeToMono(await recording.stop());
+      setTake({ wavDataUrl: encodeWav(buffer), peaks: getWaveformPeaks(buffer, WAVEFORM_BARS), duration: buffer.duration });
+      setPhase('recorded');
+    } catch (err) {
+      console.error("Recording could not be processed:", err);
+      setError('The recording could not be processed. Please try again.');
+      setPhase('idle');
+    }
+  };
+
+  const selectedLine = lines.find(l => l.id === lineId);
+  const isBusy = phase === 'recording' || phase === 'processing' || isSaving;
+
+  return createPortal(
+    <div className="fixed inset-0 z-[100] flex items-end md:items-center justify-center sm:p-4">
+      <div className="absolute inset-0 bg-black/80 backdrop-blur-sm" onClick={isBusy ? undefined : onClose} />
+      <div className="bg-slate-900 border-t md:border border-slate-800 rounded-t-2xl md:rounded-2xl w-full max-w-lg max-h-[90vh] flex flex-col shadow-2xl animate-slide-up z-10">
+        <div className="p-4 border-b border-slate-800 flex justify-between items-center shrink-0">
+          <h3 className="font-bold text-white flex items-center gap-2">
+            <MicVocal size={16} className="text-indigo-400" /> Record Dialogue — {title}
+          </h3>
+          <button onClick={onClose} disabled={isBusy} className="p-1 hover:bg-slate-800 rounded-full text-slate-400 disabled:opacity-40">
+            <X size={20} />
+          </button>
+        </div>
+
+        <div className="p-4 overflow-y-auto custom-scrollbar space-y-4">
+          {!isRecordingSupported() ? (
+            <p className="text-sm text-rose-400">This browser cannot record audio.</p>
+          ) : (
+            <>
+              <div>
+                <label className="block text-xs text-slate-500 font-bold uppercase mb-1">Record</label>
+                <select
+                  value={lineId}
+                  onChange={(e) => setLineId(e.target.value)}
+                  disabled={isBusy}
+                  className="w-full bg-slate-950 border border-slate-800 rounded-lg p-2 text-xs text-white focus:border-indigo-500 outline-none"
+                >
+                  <option value="">Whole storyboard (one take)</option>
+                  {lines.map((line, i) => (
+                    <option key={line.id} value={line.id}>Line {i + 1}: {line.speaker}</option>
+                  ))}
+                </select>
+                {selectedLine && hasTrack && (
+                  <p className="mt-1 text-[11px] text-amber-400">Recording a single line switches this storyboard from its full track to per-line clips.</p>
+                )}
+              </div>
+
+              <div className="p-3 bg-slate-950 border border-slate-800 rounded-xl text-sm text-slate-200 space-y-1 max-h-40 overflow-y-auto custom-scrollbar">
+                {(selectedLine ? [selectedLine] : lines).map(line => (
+                  <p key={line.id}><span className="text-slate-500">{line.speaker}:</span> {line.text}</p>
+                ))}
+                {lines.length === 0 && <p className="text-slate-500">No spoken lines. Record narration or ambience freely.</p>}
+              </div>
+
+              <div className="flex flex-col items-center gap-3">
+                {phase === 'recording' ? (
+                  <button
+                    onClick={stopTake}
+                    className="w-16 h-16 rounded-full bg-rose-600 hover:bg-rose-500 text-white flex items-center justify-center animate-pulse"
+                    title="Stop recording"
+                  >
+                    <Square size={22} fill="currentColor" />
+                  </button>
+                ) : phase === 'processing' ? (
+                  <div className="w-16 h-16 rounded-full bg-slate-800 text-slate-400 flex items-center justify-center">
+                    <Loader2 className="animate-spin" size={22} />
+                  </div>
+                ) : !take && (
+                  <button
+                    onClick={startTake}
+                    disabled={isSaving}
+                    className="w-16 h-16 rounded-full bg-rose-600/20 border border-rose-500/40 hover:bg-rose-600 text-rose-300 hover:text-white flex items-center justify-center transition-colors"
+                    title="Start recording"
+                  >
+                    <MicVocal size={24} />
+                  </button>
+                )}
+                <span className="text-xs text-slate-400 font-mono">
+                  {phase === 'recording' ? `Recording ${formatSeconds(elapsed)}` : take ? formatSeconds(take.duration) : 'Press to record'}
+                </span>
+              </div>
+
+              {take && (
+                <div className="space-y-2">
+                  <Waveform peaks={take.peaks} progress={progress} className="bg-slate-950 rounded-lg border border-slate-800" />
+                  <audio
+                    src={take.wavDataUrl}
+                    controls
+                    className="w-full h-8"
+                    onTimeUpdate={(e) => setProgress(e.currentTarget.currentTime / (take.duration || 1))}
+                    onEnded={() => setProgress(0)}
+                  />
+                </div>
+              )}
+
+              {error && (
+                <p className="text-xs text-rose-400 flex items-center gap-1.5"><AlertTriangle size={12} /> {error}</p>
+              )}
+            </>
+          )}
+        </div>
+
+        {take && (
+          <div className="p-4 border-t border-slate-800 flex justify-end gap-2 shrink-0">
+            <button
+              onClick={startTake}
+              disabled={isSaving}
+              className="px-4 py-2 text-sm text-slate-300 hover:text-white hover:bg-slate-800 disabled:opacity-50 rounded-lg flex items-center gap-2"
+            >
+              <RotateCcw size={14} /> Re-take
+            </button>
+            <button
+              onClick={() => onSave(lineId || undefined, take.wavDataUrl)}
+              disabled={isSaving}
+              className="px-4 py-2 text-sm font-bold bg-indigo-600 hover:bg-indigo-500 disabled:opacity-50 text-white rounded-lg flex items-center gap-2"
+            >
+              {isSaving ? <Loader2 size={14} className="animate-spin" /> : <Check size={14} />} Use Take
+            </button>
+          </div>
+        )}
+      </div>
+    </div>,
+    document.body
+  );
+};
+
+export default VoiceRecorderModal;
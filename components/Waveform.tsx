@@ -0,0 +1,32 @@
+import React from 'react';
+
+interface Props {
+  peaks: number[]; // 0-1 per bar (services/voiceRecording.ts getWaveformPeaks)
+  progress?: number; // 0-1 playback position; bars before it are highlighted
+  range?: { start: number; end: number }; // 0-1 span that is kept; bars outside it are dimmed
+  className?: string;
+}
+
+// Static waveform drawn as centered bars
+const Waveform: React.FC<Props> = ({ peaks, progress, range, className = '' }) => (
+  <svg viewBox={`0 0 ${peaks.length} 100`} preserveAspectRatio="none" className={`w-full h-16 ${className}`}>
+    {peaks.map((peak, i) => {
+      const height = Math.max(2, peak * 100);
+      const position = i / peaks.length;
+      const isPlayed = progress !== undefined && position < progress;
+      const isCut = range !== undefined && (position < range.start || position >= range.end);
+      return (
+        <rect
+          key={i}
+          x={i + 0.15}
+          y={(100 - height) / 2}
+          width={0.7}
+          height={height}
+          className={isCut ? 'fill-slate-800' : isPlayed ? 'fill-indigo-400' : 'fill-slate-500'}
+        />
+      );
+    })}
+  </svg>
+);
+
+export default Waveform;
@@ -1,12 +1,16 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { linkBalloonFonts } from './services/balloons';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
+// Lettering fonts for speech balloons
+linkBalloonFonts();
+
 const root = ReactDOM.createRoot(rootElement);
 root.render(
   <React.StrictMode>
@@ -0,0 +1,26 @@
+import { AIProviderId } from '../types';
+import { AIProvider } from './aiProvider';
+import { gemini } from './geminiService';
+import { fixtureProvider } from './fixtureProvider';
+
+// Registry of available AI backends. Add new implementations here.
+export const AI_PROVIDERS: Record<AIProviderId, AIProvider> = {
+  gemini,
+  fixture: fixtureProvider,
+};
+
+const DEFAULT_PROVIDER: AIProviderId =
+  (import.meta.env.VITE_AI_PROVIDER as AIProviderId) in AI_PROVIDERS
+    ? (import.meta.env.VITE_AI_PROVIDER as AIProviderId)
+    : 'gemini';
+
+let activeProviderId: AIProviderId = DEFAULT_PROVIDER;
+
+// Switch the backend used by every subsequent generation call
+export const setAIProvider = (id?: AIProviderId) => {
+  if (id && !AI_PROVIDERS[id]) console.warn(`[AI] Unknown provider "${id}", using ${DEFAULT_PROVIDER}.`);
+  activeProviderId = id && AI_PROVIDERS[id] ? id : DEFAULT_PROVIDER;
+};
+
+// Resolve the active provider at call time (never cache the result in components)
+export const getAIProvider = (): AIProvider => AI_PROVIDERS[activeProviderId];
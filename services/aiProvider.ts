@@ -0,0 +1,92 @@
+import { Character, Storyboard, Location, AIProviderId, VideoOperation, PanelAnimation, ConversationLine, ConversationAudio, StylePreset, PromptContext } from '../types';
+
+/**
+ * Contract every AI backend must fulfil.
+ * Components never talk to a concrete backend directly; they go through
+ * `getAIProvider()` in `services/ai.ts`, so backends can be swapped at runtime.
+ *
+ * All media is returned as data URIs (base64), ready for the Storage upload helpers.
+ * Prompts are rendered from the templates in `services/promptTemplates.ts`. The optional `context`
+ * carries the project's template overrides and variables, and receives each final prompt via `onPrompt`.
+ */
+export interface AIProvider {
+  readonly id: AIProviderId;
+  readonly label: string;
+
+  // Script: turns a scene description into a list of storyboards, placed in `locations` (`locationId`) when the scene moves
+  generateScript(
+    sceneDescription: string,
+    mood: string,
+    characters: Character[],
+    existingContext: string,
+    locations: Location[],
+    context?: PromptContext
+  ): Promise<Partial<Storyboard>[]>;
+
+  // Vision: describe reference media so it can be injected into prompts.
+  // Character descriptions cover appearance only (empty when there are no images or the request fails);
+  // callers cache them on the character (services/characterDescriptions.ts).
+  getLocationVisualDescription(mediaItems: { url: string, type: 'image' | 'video' }[], context?: PromptContext): Promise<string>;
+  getCharacterVisualDescription(character: Character, context?: PromptContext): Promise<string>;
+
+  // Image: returns a data URI (image/*). `characters` are the characters in frame, the visible speaker first;
+  // their reference images are attached unless context.referenceConditioning is 'text'.
+  // `style` is the project's art style preset (default preset when omitted).
+  // The image has the shape of context.aspectRatio (16:9 when omitted).
+  generateStoryboardImage(
+    storyboardDescription: string,
+    characters: Character[],
+    location?: Location,
+    style?: StylePreset,
+    context?: PromptContext
+  ): Promise<string>;
+
+  // In-painting: regenerates the region that is white in `maskDataUrl` (a PNG the size of the image)
+  // following `instruction`, and returns the whole edited image as a data URI
+  editStoryboardImage(
+    imageUrl: string,
+    maskDataUrl: string,
+    instruction: string,
+    style?: StylePreset,
+    context?: PromptContext
+  ): Promise<string>;
+
+  // Video: returns a data URI (video/*), vertical when context.aspectRatio is a portrait shape
+  generateStoryboardVideo(
+    storyboardDescription: string,
+    dialogue?: string,
+    character?: Character,
+    location?: Location,
+    allCharacters?: Character[],
+    style?: StylePreset,
+    context?: PromptContext
+  ): Promise<string>;
+
+  // Video, in two steps: start returns a persistable handle, poll waits for it (also after a reload)
+  startStoryboardVideo(
+    storyboardDescription: string,
+    dialogue?: string,
+    character?: Character,
+    location?: Location,
+    allCharacters?: Character[],
+    style?: StylePreset,
+    context?: PromptContext
+  ): Promise<VideoOperation>;
+  pollStoryboardVideo(operation: VideoOperation): Promise<string>;
+
+  // Image-to-video: animates an existing panel image (optionally ending on `animation.lastFrameUrl`).
+  // Returns a handle polled with pollStoryboardVideo, like a text-to-video clip.
+  startStoryboardAnimation(
+    storyboardDescription: string,
+    dialogue: string,
+    animation: PanelAnimation,
+    style?: StylePreset,
+    context?: PromptContext
+  ): Promise<VideoOperation>;
+
+  // Speech: returns a data URI (audio/wav)
+  generateSpeech(text: string, voiceName?: string, context?: PromptContext): Promise<string>;
+
+  // Conversation: renders all lines, each in its own voice, into one WAV with per-line timings
+  generateConversation(lines: ConversationLine[], context?: PromptContext): Promise<ConversationAudio>;
+}
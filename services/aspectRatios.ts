@@ -0,0 +1,97 @@
+import { PanelAspectRatio, Project, Storyboard } from '../types';
+import { PromptVariables } from './promptTemplates';
+import { loadImage } from './mediaUtils';
+
+// Panel shapes. Every storyboard has one (its own or the project default); it is requested from the
+// image and video models and enforced on uploads with the crop tool.
+
+export interface PanelAspectRatioInfo {
+  id: PanelAspectRatio;
+  label: string;
+  width: number; // Ratio terms, e.g. 16 and 9
+  height: number;
+  imageAspect: string; // Ratio requested from the image model (the closest one it supports)
+  videoAspect: '16:9' | '9:16'; // Veo only renders landscape or vertical clips
+}
+
+export const PANEL_ASPECT_RATIOS: Record<PanelAspectRatio, PanelAspectRatioInfo> = {
+  '16:9': { id: '16:9', label: 'Widescreen', width: 16, height: 9, imageAspect: '16:9', videoAspect: '16:9' },
+  '4:3': { id: '4:3', label: 'Classic', width: 4, height: 3, imageAspect: '4:3', videoAspect: '16:9' },
+  '1:1': { id: '1:1', label: 'Square', width: 1, height: 1, imageAspect: '1:1', videoAspect: '16:9' },
+  '9:16': { id: '9:16', label: 'Vertical', width: 9, height: 16, imageAspect: '9:16', videoAspect: '9:16' },
+  'strip': { id: 'strip', label: 'Tall strip', width: 1, height: 2, imageAspect: '9:16', videoAspect: '9:16' },
+};
+
+export const PANEL_ASPECT_RATIO_IDS = Object.keys(PANEL_ASPECT_RATIOS) as PanelAspectRatio[];
+
+export const DEFAULT_ASPECT_RATIO: PanelAspectRatio = '16:9';
+
+export const getProjectAspectRatio = (project: Pick<Project, 'aspectRatio'>): PanelAspectRatio =>
+  project.aspectRatio && PANEL_ASPECT_RATIOS[project.aspectRatio] ? project.aspectRatio : DEFAULT_ASPECT_RATIO;
+
+// The storyboard's own shape, otherwise the project default
+export const getStoryboardAspectRatio = (storyboard: Storyboard, project: Pick<Project, 'aspectRatio'>): PanelAspectRatio =>
+  storyboard.aspectRatio && PANEL_ASPECT_RATIOS[storyboard.aspectRatio] ? storyboard.aspectRatio : getProjectAspectRatio(project);
+
+export const getAspectRatioValue = (id: PanelAspectRatio = DEFAULT_ASPECT_RATIO) =>
+  PANEL_ASPECT_RATIOS[id].width / PANEL_ASPECT_RATIOS[id].height;
+
+// "16:9", "1:2", ... for labels and CSS (`aspect-ratio: 16 / 9`)
+export const formatAspectRatio = (id: PanelAspectRatio) => `${PANEL_ASPECT_RATIOS[id].width}:${PANEL_ASPECT_RATIOS[id].height}`;
+export const getAspectRatioCss = (id: PanelAspectRatio) => `${PANEL_ASPECT_RATIOS[id].width} / ${PANEL_ASPECT_RATIOS[id].height}`;
+
+export const frameVariables = (id: PanelAspectRatio = DEFAULT_ASPECT_RATIO): PromptVariables => {
+  const { label, width, height } = PANEL_ASPECT_RATIOS[id];
+  return {
+    'frame.aspect': `${label.toLowerCase()} ${formatAspectRatio(id)}`,
+    'frame.orientation': width > height ? 'landscape' : width < height ? 'portrait' : 'square',
+  };
+};
+
+// Position of a crop inside its image: x/y place the crop within the free space (0-1, 0.5 = centered),
+// zoom shrinks it (1 = the largest crop of that shape that fits)
+export interface ImageFraming {
+  x: number;
+  y: number;
+  zoom: number;
+}
+
+export const CENTERED_FRAMING: ImageFraming = { x: 0.5, y: 0.5, zoom: 1 };
+
+export function getCropRect(sourceWidth: number, sourceHeight: number, aspect: number, framing: ImageFraming) {
+  const fitWidth = Math.min(sourceWidth, sourceHeight * aspect);
+  const width = fitWidth / Math.max(1, framing.zoom);
+  const height = width / aspect;
+  return {
+    x: (sourceWidth - width) * Math.min(1, Math.max(0, framing.x)),
+    y: (sourceHeight - height) * Math.min(1, Math.max(0, framing.y)),
+    width,
+    height,
+  };
+}
+
+const MAX_CROP_SIZE = 2048; // px on the long side; larger crops are scaled down
+
+// Crops an image to a panel shape and returns it as a PNG data URI
+export function cropImage(image: HTMLImageElement, aspectRatio: PanelAspectRatio, framing: ImageFraming = CENTERED_FRAMING): string {
+  const rect = getCropRect(image.naturalWidth, image.naturalHeight, getAspectRatioValue(aspectRatio), framing);
+  const scale = Math.min(1, MAX_CROP_SIZE / Math.max(rect.width, rect.height));
+
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.round(rect.width * scale);
+  canvas.height = Math.round(rect.height * scale);
+  canvas.getContext('2d')!.drawImage(image, rect.x, rect.y, rect.width, rect.height, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/png');
+}
+
+/**
+ * Center-crops a generated image whose shape differs from the panel's (e.g. a tall strip, which the
+ * model renders as 9:16). Images that already match are returned unchanged.
+ */
+export async function conformImageToAspect(dataUrl: string, aspectRatio: PanelAspectRatio): Promise<string> {
+  const image = await loadImage(dataUrl);
+  const actual = image.naturalWidth / image.naturalHeight;
+  const target = getAspectRatioValue(aspectRatio);
+  if (Math.abs(actual - target) / target < 0.01) return dataUrl;
+  return cropImage(image, aspectRatio);
+}
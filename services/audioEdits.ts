@@ -0,0 +1,75 @@
+import { AudioClipEdit } from '../types';
+import { decodeToMono } from './voiceRecording';
+
+// Trim, gain and fades for speech clips, rendered client-side with an OfflineAudioContext.
+// Edits are non-destructive: the settings and the original URL are stored with the clip.
+
+export const MAX_GAIN_DB = 12;
+export const MAX_FADE = 2; // Seconds
+
+const SILENCE_THRESHOLD = 0.02; // Peak level below which audio counts as silence (about -34 dBFS)
+const SILENCE_PADDING = 0.08; // Seconds of silence kept around the speech by auto-trim
+
+export const createAudioEdit = (originalUrl: string): AudioClipEdit => ({
+  originalUrl,
+  trimStart: 0,
+  trimEnd: 0,
+  gainDb: 0,
+  fadeIn: 0,
+  fadeOut: 0,
+});
+
+// True when rendering the edit would just reproduce the original
+export const isNeutralAudioEdit = (edit: AudioClipEdit) =>
+  edit.trimStart === 0 && edit.trimEnd === 0 && edit.gainDb === 0 && edit.fadeIn === 0 && edit.fadeOut === 0;
+
+// Length in seconds of the edited clip
+export const getEditedDuration = (duration: number, edit: AudioClipEdit) =>
+  Math.max(0, duration - edit.trimStart - edit.trimEnd);
+
+export async function loadAudioBuffer(url: string): Promise<AudioBuffer> {
+  const response = await fetch(url, { credentials: 'omit' });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return decodeToMono(await response.arrayBuffer());
+}
+
+// Trim points that drop leading and trailing silence, keeping a little padding
+export function detectSilenceTrim(buffer: AudioBuffer): Pick<AudioClipEdit, 'trimStart' | 'trimEnd'> {
+  const samples = buffer.getChannelData(0);
+  let first = 0;
+  while (first < samples.length && Math.abs(samples[first]) < SILENCE_THRESHOLD) first++;
+  if (first === samples.length) return { trimStart: 0, trimEnd: 0 }; // All silence: leave it alone
+
+  let last = samples.length - 1;
+  while (last > first && Math.abs(samples[last]) < SILENCE_THRESHOLD) last--;
+
+  return {
+    trimStart: Math.max(0, first / buffer.sampleRate - SILENCE_PADDING),
+    trimEnd: Math.max(0, (samples.length - 1 - last) / buffer.sampleRate - SILENCE_PADDING),
+  };
+}
+
+// Renders the edit: the trimmed span with gain applied and linear fades at both ends
+export async function renderAudioEdit(buffer: AudioBuffer, edit: AudioClipEdit): Promise<AudioBuffer> {
+  const duration = getEditedDuration(buffer.duration, edit);
+  if (duration <= 0) throw new Error("Nothing left to render: the trim removes the whole clip.");
+
+  const context = new OfflineAudioContext(1, Math.max(1, Math.round(duration * buffer.sampleRate)), buffer.sampleRate);
+  const source = context.createBufferSource();
+  source.buffer = buffer;
+
+  const gain = context.createGain();
+  const level = Math.pow(10, edit.gainDb / 20);
+  const fadeIn = Math.min(edit.fadeIn, duration / 2);
+  const fadeOut = Math.min(edit.fadeOut, duration / 2);
+
+  gain.gain.setValueAtTime(fadeIn > 0 ? 0 : level, 0);
+  if (fadeIn > 0) gain.gain.linearRampToValueAtTime(level, fadeIn);
+  gain.gain.setValueAtTime(level, duration - fadeOut);
+  if (fadeOut > 0) gain.gain.linearRampToValueAtTime(0, duration);
+
+  source.connect(gain);
+  gain.connect(context.destination);
+  source.start(0, edit.trimStart, duration);
+  return context.startRendering();
+}
@@ -0,0 +1,293 @@
+import { BalloonOverlay, BalloonFontId, DialogueLineType, Storyboard } from '../types';
+import { getDialogueLines } from './dialogue';
+import { wrapText } from './mediaUtils';
+
+// Lettering overlays: balloon geometry, auto-placement and rendering.
+// Shapes are built in the balloon's own box (0-100 on both axes), so the same paths serve the
+// editor and HTML player (SVG) and the canvas exports (Path2D) at any panel size or aspect ratio.
+
+export const BALLOON_FONTS: { id: BalloonFontId; label: string; family: string; weight: number }[] = [
+  { id: 'comic', label: 'Comic Neue', family: "'Comic Neue', 'Comic Sans MS', cursive", weight: 700 },
+  { id: 'bangers', label: 'Bangers', family: "Bangers, Impact, sans-serif", weight: 400 },
+  { id: 'marker', label: 'Permanent Marker', family: "'Permanent Marker', cursive", weight: 400 },
+];
+
+// Linked into the app by `linkBalloonFonts` and into the HTML export
+export const BALLOON_FONTS_STYLESHEET = 'https://fonts.googleapis.com/css2?family=Bangers&family=Comic+Neue:wght@700&family=Permanent+Marker&display=swap';
+
+const KIND_STYLES: Record<DialogueLineType, { fill: string; color: string; inset: { x: number; y: number } }> = {
+  speech: { fill: '#ffffff', color: '#000000', inset: { x: 0.15, y: 0.17 } },
+  thought: { fill: '#ffffff', color: '#000000', inset: { x: 0.2, y: 0.22 } },
+  caption: { fill: '#fef3c7', color: '#000000', inset: { x: 0.06, y: 0.08 } },
+  sfx: { fill: 'none', color: '#facc15', inset: { x: 0, y: 0 } },
+};
+
+const DEFAULT_FONT_SIZES: Record<DialogueLineType, number> = { speech: 0.05, thought: 0.05, caption: 0.04, sfx: 0.1 };
+const MARGIN = 0.03;
+const GAP = 0.02;
+const ASSUMED_ASPECT = 16 / 9; // Panel shape assumed when sizing balloons; generated art is widescreen
+const CHAR_WIDTH = 0.55; // Average glyph width as a fraction of the font size
+
+const getFont = (id: BalloonFontId) => BALLOON_FONTS.find(f => f.id === id) || BALLOON_FONTS[0];
+
+export const getBalloonFontCss = (id: BalloonFontId, px: number) => {
+  const font = getFont(id);
+  return `${font.weight} ${px}px ${font.family}`;
+};
+
+// Makes sure the lettering fonts are ready before drawing on a canvas (canvas text does not wait for them)
+// Adds the lettering fonts stylesheet to the page once. Resolves when it has loaded (or failed).
+let fontsStylesheet: Promise<void> | null = null;
+export function linkBalloonFonts(): Promise<void> {
+  if (typeof document === 'undefined') return Promise.resolve();
+  if (!fontsStylesheet) {
+    fontsStylesheet = new Promise(resolve => {
+      const link = document.createElement('link');
+      link.rel = 'stylesheet';
+      link.href = BALLOON_FONTS_STYLESHEET;
+      link.onload = () => resolve();
+      link.onerror = () => resolve(); // Lettering falls back to the system fonts in BALLOON_FONTS
+      document.head.appendChild(link);
+    });
+  }
+  return fontsStylesheet;
+}
+
+export async function loadBalloonFonts(): Promise<void> {
+  if (typeof document === 'undefined' || !document.fonts) return;
+  await linkBalloonFonts();
+  await Promise.all(BALLOON_FONTS.map(font => document.fonts.load(getBalloonFontCss(font.id, 32)).catch(() => undefined)));
+}
+
+export const hasBalloons = (storyboard: Storyboard) => (storyboard.overlays?.length || 0) > 0;
+
+const newId = () => Date.now().toString() + Math.random().toString().slice(2, 8);
+
+export function createBalloon(kind: DialogueLineType, fields: Partial<BalloonOverlay> = {}): BalloonOverlay {
+  const width = kind === 'caption' ? 0.35 : kind === 'sfx' ? 0.3 : 0.28;
+  const height = kind === 'caption' ? 0.12 : kind === 'sfx' ? 0.14 : 0.2;
+  const x = (1 - width) / 2;
+  const y = (1 - height) / 3;
+  return {
+    id: newId(),
+    kind,
+    text: kind === 'sfx' ? 'BLAM!' : '',
+    x,
+    y,
+    width,
+    height,
+    tail: kind === 'speech' || kind === 'thought' ? { x: x + width * 0.35, y: Math.min(0.95, y + height + 0.15) } : undefined,
+    font: kind === 'sfx' ? 'bangers' : 'comic',
+    fontSize: DEFAULT_FONT_SIZES[kind],
+    ...fields,
+  };
+}
+
+const ellipse = (cx: number, cy: number, rx: number, ry: number) =>
+  `M ${cx - rx} ${cy} A ${rx} ${ry} 0 1 1 ${cx + rx} ${cy} A ${rx} ${ry} 0 1 1 ${cx - rx} ${cy} Z`;
+
+const round = (n: number) => Math.round(n * 100) / 100;
+
+/**
+ * Outline paths of a balloon in its box units (0-100). Speech balloons are an ellipse plus a
+ * wedge tail, thought bubbles a cloud plus shrinking circles, captions a box; SFX have no shape.
+ * Parts overlap, so callers stroke every path first and fill them afterwards to get one outline.
+ */
+export function getBalloonPaths(balloon: BalloonOverlay): string[] {
+  if (balloon.kind === 'sfx') return [];
+  if (balloon.kind === 'caption') return ['M 0 0 H 100 V 100 H 0 Z'];
+
+  const paths: string[] = [];
+  if (balloon.kind === 'speech') {
+    paths.push(ellipse(50, 50, 50, 50));
+  } else {
+    const bumps = 10;
+    const points = Array.from({ length: bumps }, (_, i) => {
+      const angle = (i / bumps) * Math.PI * 2;
+      return { x: 50 + 42 * Math.cos(angle), y: 50 + 42 * Math.sin(angle) };
+    });
+    const radius = 2 * 42 * Math.sin(Math.PI / bumps) * 0.62;
+    paths.push(`M ${round(points[0].x)} ${round(points[0].y)} ` + points.map((_, i) => {
+      const to = points[(i + 1) % bumps];
+      return `A ${round(radius)} ${round(radius)} 0 0 1 ${round(to.x)} ${round(to.y)}`;
+    }).join(' ') + ' Z');
+  }
+
+  if (!balloon.tail || balloon.width <= 0 || balloon.height <= 0) return paths;
+
+  // Tail tip in box units; no tail while the tip sits inside the body
+  const tip = { x: (balloon.tail.x - balloon.x) / balloon.width * 100, y: (balloon.tail.y - balloon.y) / balloon.height * 100 };
+  if ((tip.x - 50) ** 2 + (tip.y - 50) ** 2 < 50 ** 2) return paths;
+  const angle = Math.atan2(tip.y - 50, tip.x - 50);
+
+  if (balloon.kind === 'speech') {
+    const base = (offset: number) => `${round(50 + 40 * Math.cos(angle + offset))} ${round(50 + 40 * Math.sin(angle + offset))}`;
+    paths.push(`M ${base(-0.22)} L ${round(tip.x)} ${round(tip.y)} L ${base(0.22)} Z`);
+  } else {
+    const edge = { x: 50 + 48 * Math.cos(angle), y: 50 + 48 * Math.sin(angle) };
+    [[0.3, 7], [0.65, 4.5], [0.95, 2.5]].forEach(([t, r]) => {
+      paths.push(ellipse(round(edge.x + (tip.x - edge.x) * t), round(edge.y + (tip.y - edge.y) * t), r, r));
+    });
+  }
+  return paths;
+}
+
+// Area the text is laid out in, as fractions of the panel
+export function getTextBox(balloon: BalloonOverlay) {
+  const { inset } = KIND_STYLES[balloon.kind];
+  return {
+    x: balloon.x + balloon.width * inset.x,
+    y: balloon.y + balloon.height * inset.y,
+    width: balloon.width * (1 - inset.x * 2),
+    height: balloon.height * (1 - inset.y * 2),
+  };
+}
+
+const escapeHtml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+const pct = (n: number) => `${round(n * 100)}%`;
+
+/**
+ * Static markup for a panel's balloons, for the Studio and the HTML player.
+ * The parent must be positioned over the art and be a size container (`container-type: size`),
+ * since font sizes are in `cqh` to follow the panel height.
+ */
+export function renderBalloonsHtml(balloons: BalloonOverlay[]): string {
+  return balloons.map(balloon => {
+    const style = KIND_STYLES[balloon.kind];
+    const font = getFont(balloon.font);
+    const paths = getBalloonPaths(balloon);
+    const outline = (attributes: string) => paths.map(d => `<path d="${d}" ${attributes} vector-effect="non-scaling-stroke"/>`).join('');
+    const box = getTextBox(balloon);
+    const textStyle = [
+      'position:absolute',
+      `left:${pct((box.x - balloon.x) / balloon.width)}`,
+      `top:${pct((box.y - balloon.y) / balloon.height)}`,
+      `width:${pct(box.width / balloon.width)}`,
+      `height:${pct(box.height / balloon.height)}`,
+      'display:flex;align-items:center;justify-content:center;text-align:center;white-space:pre-wrap;overflow-wrap:anywhere;line-height:1.15',
+      `font-family:${font.family.replace(/"/g, "'")};font-weight:${font.weight};font-size:${round(balloon.fontSize * 100)}cqh`,
+      `color:${style.color}`,
+      balloon.kind === 'sfx' ? '-webkit-text-stroke:0.16em #000;paint-order:stroke fill' : '',
+    ].filter(Boolean).join(';');
+
+    return `<div style="position:absolute;left:${pct(balloon.x)};top:${pct(balloon.y)};width:${pct(balloon.width)};height:${pct(balloon.height)}">`
+      + (paths.length > 0
+        ? `<svg viewBox="0 0 100 100" preserveAspectRatio="none" style="position:absolute;inset:0;width:100%;height:100%;overflow:visible">`
+          + outline('fill="none" stroke="#000" stroke-width="4" stroke-linejoin="round"')
+          + outline(`fill="${style.fill}"`)
+          + '</svg>'
+        : '')
+      + `<div style="${textStyle}">${escapeHtml(balloon.text)}</div></div>`;
+  }).join('');
+}
+
+/**
+ * Draws balloons onto a canvas over art occupying `rect` (canvas pixels).
+ * Call `loadBalloonFonts` first so the comic fonts are used.
+ */
+export function drawBalloons(ctx: CanvasRenderingContext2D, balloons: BalloonOverlay[], rect: { x: number; y: number; width: number; height: number }) {
+  const lineWidth = Math.max(1.5, Math.min(rect.width, rect.height) * 0.004);
+
+  balloons.forEach(balloon => {
+    const style = KIND_STYLES[balloon.kind];
+    const matrix = new DOMMatrix()
+      .translate(rect.x + balloon.x * rect.width, rect.y + balloon.y * rect.height)
+      .scale(balloon.width * rect.width / 100, balloon.height * rect.height / 100);
+    const paths = getBalloonPaths(balloon).map(d => {
+      const path = new Path2D();
+      path.addPath(new Path2D(d), matrix);
+      return path;
+    });
+
+    ctx.save();
+    ctx.lineJoin = 'round';
+    ctx.strokeStyle = '#000';
+    ctx.lineWidth = lineWidth * 2; // Half of it ends up under the fill
+    paths.forEach(path => ctx.stroke(path));
+    ctx.fillStyle = style.fill;
+    paths.forEach(path => ctx.fill(path));
+
+    const box = getTextBox(balloon);
+    const fontPx = balloon.fontSize * rect.height;
+    const lineHeight = fontPx * 1.15;
+    const centerX = rect.x + (box.x + box.width / 2) * rect.width;
+    const centerY = rect.y + (box.y + box.height / 2) * rect.height;
+
+    ctx.font = getBalloonFontCss(balloon.font, fontPx);
+    ctx.textAlign = 'center';
+    ctx.textBaseline = 'middle';
+    const lines = balloon.text.split('\n').flatMap(paragraph => wrapText(ctx, paragraph, box.width * rect.width));
+    lines.forEach((line, i) => {
+      const y = centerY + (i - (lines.length - 1) / 2) * lineHeight;
+      if (balloon.kind === 'sfx') {
+        ctx.lineWidth = fontPx * 0.16;
+        ctx.strokeText(line, centerX, y);
+      }
+      ctx.fillStyle = style.color;
+      ctx.fillText(line, centerX, y);
+    });
+    ctx.restore();
+  });
+}
+
+// Rough balloon size for a text, assuming a widescreen panel
+function estimateSize(text: string, kind: DialogueLineType, fontSize: number) {
+  const { inset } = KIND_STYLES[kind];
+  const charWidth = fontSize * CHAR_WIDTH / ASSUMED_ASPECT; // As a fraction of the panel width
+  const textWidth = text.length * charWidth;
+  const targetLines = Math.max(1, Math.ceil(Math.sqrt(text.length / 14)));
+  const maxWidth = kind === 'caption' ? 0.45 : 0.42;
+  const width = Math.min(maxWidth, Math.max(kind === 'sfx' ? 0.1 : 0.16, textWidth / targetLines / (1 - inset.x * 2) + 0.02));
+  const lines = Math.max(1, Math.ceil(textWidth / (width * (1 - inset.x * 2))));
+  const height = Math.min(0.45, lines * fontSize * 1.15 / (1 - inset.y * 2) + 0.02);
+  return { width, height };
+}
+
+/**
+ * Initial lettering from the storyboard's dialogue, in reading order: captions stack in the top-left
+ * corner, balloons step down the panel alternating sides per speaker with tails pointing down
+ * towards the characters, and sound effects sit in the lower half.
+ */
+export function autoPlaceBalloons(storyboard: Storyboard): BalloonOverlay[] {
+  const lines = getDialogueLines(storyboard).filter(l => l.text.trim());
+  const speakers: (string | undefined)[] = [];
+  const columnBottom = [MARGIN, MARGIN]; // Next free y on the left and right side
+  let cursor = MARGIN;
+  let sfxCount = 0;
+
+  return lines.map(line => {
+    const fontSize = DEFAULT_FONT_SIZES[line.type];
+    const text = line.type === 'sfx' ? line.text.trim().toUpperCase() : line.text.trim();
+    const { width, height } = estimateSize(text, line.type, fontSize);
+    const fields = { text, width, height, lineId: line.id };
+
+    if (line.type === 'sfx') {
+      const x = sfxCount % 2 === 0 ? 0.55 : 0.12;
+      const y = Math.min(1 - height - MARGIN, 0.6 + (sfxCount++ >> 1) * (height + GAP));
+      return createBalloon('sfx', { ...fields, x, y });
+    }
+
+    if (line.type === 'caption') {
+      const y = Math.min(1 - height - MARGIN, columnBottom[0]);
+      columnBottom[0] = y + height + GAP;
+      cursor = Math.max(cursor, y + height * 0.5);
+      return createBalloon('caption', { ...fields, x: MARGIN, y, tail: undefined });
+    }
+
+    if (!speakers.includes(line.characterId)) speakers.push(line.characterId);
+    const side = speakers.indexOf(line.characterId) % 2;
+    const x = side === 0 ? MARGIN : 1 - MARGIN - width;
+    const y = Math.min(1 - height - MARGIN, Math.max(cursor, columnBottom[side]));
+    columnBottom[side] = y + height + GAP;
+    cursor = y + height * 0.55;
+
+    return createBalloon(line.type, {
+      ...fields,
+      x,
+      y,
+      tail: { x: x + width * (side === 0 ? 0.6 : 0.4), y: Math.min(0.97, y + height + 0.12) },
+    });
+  });
+}
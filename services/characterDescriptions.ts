@@ -0,0 +1,65 @@
+import { Character, PromptContext } from '../types';
+import { AIProvider } from './aiProvider';
+import { updateCharacterVisualDescription } from './firebase';
+
+// Cached character appearance. Describing the reference images is a vision request, so the text is
+// stored on the character together with a hash of the images it was made from, and reused by every
+// image and video prompt until the images change.
+
+// FNV-1a over the reference image URLs. Every upload gets a new Storage URL, so replacing an image changes the hash.
+export function getReferenceImagesHash(character: Pick<Character, 'imageUrl' | 'imageUrl2'>): string {
+  const input = `${character.imageUrl || ''}|${character.imageUrl2 || ''}`;
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return (hash >>> 0).toString(16).padStart(8, '0');
+}
+
+export const hasCurrentVisualDescription = (character: Character) =>
+  !!character.visualDescription?.trim() && character.visualDescriptionHash === getReferenceImagesHash(character);
+
+// Appearance text for prompts: the visual description followed by the bio, or just the bio when there is none
+export const getCharacterPromptDescription = (character: Character, visualDescription?: string) =>
+  visualDescription?.trim()
+    ? visualDescription.trim() + (character.bio ? ` Context: ${character.bio}` : '')
+    : character.bio || '';
+
+/**
+ * Prompt description of a character for providers: the cached description when it is current,
+ * otherwise a fresh one from `describe` (not saved; the Studio saves via `ensureVisualDescription`).
+ */
+export async function resolveCharacterPromptDescription(character: Character, describe: (character: Character) => Promise<string>): Promise<string> {
+  if (hasCurrentVisualDescription(character)) return getCharacterPromptDescription(character, character.visualDescription);
+  return getCharacterPromptDescription(character, character.imageUrl ? await describe(character) : '');
+}
+
+// Descriptions requested in this session, keyed by character and images, so parallel jobs describe a character once
+const describedCharacters = new Map<string, Promise<string>>();
+
+/**
+ * The character with a current visual description. Missing or stale descriptions are generated
+ * with `provider` and saved to the character before it is returned.
+ */
+export async function ensureVisualDescription(userId: string, character: Character, provider: AIProvider, context?: PromptContext): Promise<Character> {
+  if (!character.imageUrl || hasCurrentVisualDescription(character)) return character;
+
+  const hash = getReferenceImagesHash(character);
+  const key = `${character.id}:${hash}`;
+  let pending = describedCharacters.get(key);
+  if (!pending) {
+    pending = provider.getCharacterVisualDescription(character, context).then(async description => {
+      if (description) {
+        await updateCharacterVisualDescription(userId, character.id, description, hash)
+          .catch(error => console.warn("Visual description could not be cached:", error));
+      } else describedCharacters.delete(key); // Failed softly; try again next time
+      return description;
+    });
+    describedCharacters.set(key, pending);
+    pending.catch(() => describedCharacters.delete(key));
+  }
+
+  const visualDescription = await pending;
+  return visualDescription ? { ...character, visualDescription, visualDescriptionHash: hash } : character;
+}
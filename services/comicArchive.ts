@@ -0,0 +1,268 @@
+import JSZip from 'jszip';
+import { Project, Storyboard, Character } from '../types';
+import { loadImage, loadVideoFrame, wrapText } from './mediaUtils';
+import { getDialogueText, getLineCharacterIds } from './dialogue';
+import { hasBalloons, drawBalloons, loadBalloonFonts } from './balloons';
+
+// Comic archive formats: CBZ (zip of page images + ComicInfo.xml) and fixed-layout EPUB 3.
+
+export type ComicArchiveFormat = 'cbz' | 'epub';
+
+export interface ComicArchivePage {
+  blob: Blob;
+  width: number;
+  height: number;
+}
+
+export interface ImportedComic {
+  title: string;
+  summary: string;
+  pages: File[]; // In reading order
+}
+
+const PAGE_WIDTH = 1600; // px, pages are normalized to this width
+const IMAGE_EXTENSIONS = /\.(jpe?g|png|gif|webp)$/i;
+const IMAGE_MIME_TYPES: Record<string, string> = {
+  jpg: 'image/jpeg',
+  jpeg: 'image/jpeg',
+  png: 'image/png',
+  gif: 'image/gif',
+  webp: 'image/webp',
+};
+
+const escapeXml = (value: string) =>
+  value.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;').replace(/'/g, '&apos;');
+
+const pageName = (index: number) => `page_${String(index + 1).padStart(3, '0')}.jpg`;
+
+async function loadStoryboardArt(storyboard: Storyboard): Promise<HTMLImageElement | HTMLVideoElement | null> {
+  const sourceUrl = storyboard.imageUrl || storyboard.videoUrl;
+  if (!sourceUrl) return null;
+
+  try {
+    // Video storyboards without a still: use a frame from the clip
+    return storyboard.imageUrl ? await loadImage(sourceUrl) : await loadVideoFrame(sourceUrl);
+  } catch (error) {
+    console.warn(`[ComicArchive] Art for storyboard ${storyboard.id} could not be loaded. If this is a CORS error, configure your storage bucket (see cors.json).`, error);
+    return null;
+  }
+}
+
+/**
+ * Renders one storyboard as a page image: the art, followed by a lettered text band
+ * with the speaker's name and dialogue (when `letterDialogue` is on and there is dialogue).
+ * Storyboards lettered in the balloon editor get their balloons drawn over the art instead of the band.
+ */
+async function renderStoryboardPage(storyboard: Storyboard, characters: Character[], letterDialogue: boolean): Promise<ComicArchivePage> {
+  const art = await loadStoryboardArt(storyboard);
+  const artWidth = art instanceof HTMLVideoElement ? art.videoWidth : art?.naturalWidth || 16;
+  const artHeight = art instanceof HTMLVideoElement ? art.videoHeight : art?.naturalHeight || 9;
+  const scaledArtHeight = Math.round(PAGE_WIDTH * artHeight / artWidth);
+
+  const canvas = document.createElement('canvas');
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  const fontSize = 40;
+  const lineHeight = fontSize * 1.3;
+  const padding = 48;
+  const { text, speakerName } = getDialogueText(storyboard, characters);
+  const lettered = letterDialogue && hasBalloons(storyboard);
+  const dialogue = letterDialogue && !lettered ? text.trim() : '';
+
+  ctx.font = `${fontSize}px sans-serif`;
+  const lines = dialogue ? dialogue.split('\n').flatMap(paragraph => wrapText(ctx, paragraph, PAGE_WIDTH - padding * 2)) : [];
+  const bandHeight = lines.length > 0 ? lines.length * lineHeight + (speakerName ? lineHeight : 0) + padding * 2 : 0;
+
+  canvas.width = PAGE_WIDTH;
+  canvas.height = scaledArtHeight + bandHeight;
+
+  ctx.fillStyle = '#fff';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  if (art) {
+    ctx.drawImage(art, 0, 0, PAGE_WIDTH, scaledArtHeight);
+  } else {
+    ctx.fillStyle = '#e2e8f0';
+    ctx.fillRect(0, 0, PAGE_WIDTH, scaledArtHeight);
+  }
+
+  if (lettered) drawBalloons(ctx, storyboard.overlays!, { x: 0, y: 0, width: PAGE_WIDTH, height: scaledArtHeight });
+
+  if (lines.length > 0) {
+    let y = scaledArtHeight + padding + fontSize;
+    ctx.fillStyle = '#000';
+    if (speakerName) {
+      ctx.font = `bold ${Math.round(fontSize * 0.85)}px sans-serif`;
+      ctx.fillText(speakerName.toUpperCase(), padding, y);
+      y += lineHeight;
+    }
+    ctx.font = `${fontSize}px sans-serif`;
+    lines.forEach((line, i) => ctx.fillText(line, padding, y + i * lineHeight));
+  }
+
+  const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/jpeg', 0.9));
+  if (!blob) throw new Error("Failed to encode page image");
+  return { blob, width: canvas.width, height: canvas.height };
+}
+
+// ComicInfo.xml (ComicRack schema), read by most comic reader apps
+function buildComicInfo(project: Project, cast: Character[], pages: ComicArchivePage[]): string {
+  return `<?xml version="1.0" encoding="utf-8"?>
+<ComicInfo xmlns:xsi="http://www.w3.org/2001/XMLSchema-instance" xmlns:xsd="http://www.w3.org/2001/XMLSchema">
+  <Title>${escapeXml(project.title)}</Title>
+  <Summary>${escapeXml(project.summary || '')}</Summary>
+  <Year>${new Date(project.createdAt).getFullYear()}</Year>
+  <PageCount>${pages.length}</PageCount>
+  <Characters>${escapeXml(cast.map(c => c.name).join(', '))}</Characters>
+  <Pages>
+${pages.map((p, i) => `    <Page Image="${i}" ImageWidth="${p.width}" ImageHeight="${p.height}"${i === 0 ? ' Type="FrontCover"' : ''} />`).join('\n')}
+  </Pages>
+</ComicInfo>
+`;
+}
+
+function buildEpubFiles(zip: JSZip, project: Project, cast: Character[], pages: ComicArchivePage[]) {
+  const bookId = `urn:stryp:${project.id}`;
+  const modified = new Date().toISOString().replace(/\.\d+Z$/, 'Z');
+
+  // The mimetype entry must come first and be stored uncompressed
+  zip.file('mimetype', 'application/epub+zip', { compression: 'STORE' });
+  zip.file('META-INF/container.xml', `<?xml version="1.0" encoding="UTF-8"?>
+<container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container">
+  <rootfiles>
+    <rootfile full-path="OEBPS/content.opf" media-type="application/oebps-package+xml" />
+  </rootfiles>
+</container>
+`);
+
+  pages.forEach((page, i) => {
+    zip.file(`OEBPS/pages/page_${i + 1}.xhtml`, `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head>
+  <title>${escapeXml(project.title)} - ${i + 1}</title>
+  <meta name="viewport" content="width=${page.width}, height=${page.height}" />
+  <style>html, body { margin: 0; padding: 0; } img { display: block; width: ${page.width}px; height: ${page.height}px; }</style>
+</head>
+<body>
+  <img src="../images/${pageName(i)}" alt="Page ${i + 1}" />
+</body>
+</html>
+`);
+  });
+
+  zip.file('OEBPS/nav.xhtml', `<?xml version="1.0" encoding="UTF-8"?>
+<!DOCTYPE html>
+<html xmlns="http://www.w3.org/1999/xhtml" xmlns:epub="http://www.idpf.org/2007/ops">
+<head><title>${escapeXml(project.title)}</title></head>
+<body>
+  <nav epub:type="toc">
+    <ol>
+      <li><a href="pages/page_1.xhtml">${escapeXml(project.title)}</a></li>
+    </ol>
+  </nav>
+</body>
+</html>
+`);
+
+  zip.file('OEBPS/content.opf', `<?xml version="1.0" encoding="UTF-8"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0" unique-identifier="book-id" prefix="rendition: http://www.idpf.org/vocab/rendition/#">
+  <metadata xmlns:dc="http://purl.org/dc/elements/1.1/">
+    <dc:identifier id="book-id">${escapeXml(bookId)}</dc:identifier>
+    <dc:title>${escapeXml(project.title)}</dc:title>
+    <dc:language>en</dc:language>
+    <dc:description>${escapeXml(project.summary || '')}</dc:description>
+${cast.map(c => `    <dc:contributor>${escapeXml(c.name)}</dc:contributor>`).join('\n')}
+    <meta property="dcterms:modified">${modified}</meta>
+    <meta property="rendition:layout">pre-paginated</meta>
+    <meta property="rendition:orientation">auto</meta>
+    <meta property="rendition:spread">none</meta>
+  </metadata>
+  <manifest>
+    <item id="nav" href="nav.xhtml" media-type="application/xhtml+xml" properties="nav" />
+${pages.map((_, i) => `    <item id="img_${i + 1}" href="images/${pageName(i)}" media-type="image/jpeg"${i === 0 ? ' properties="cover-image"' : ''} />
+    <item id="page_${i + 1}" href="pages/page_${i + 1}.xhtml" media-type="application/xhtml+xml" />`).join('\n')}
+  </manifest>
+  <spine>
+${pages.map((_, i) => `    <itemref idref="page_${i + 1}" />`).join('\n')}
+  </spine>
+</package>
+`);
+
+  pages.forEach((page, i) => zip.file(`OEBPS/images/${pageName(i)}`, page.blob));
+}
+
+/**
+ * Builds a CBZ or EPUB for the project, one page per storyboard in project order.
+ * Characters who speak in the storyboards are listed in the archive metadata.
+ */
+export async function buildComicArchive(
+  project: Project,
+  storyboards: Storyboard[],
+  characters: Character[],
+  format: ComicArchiveFormat,
+  letterDialogue: boolean,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  if (storyboards.length === 0) throw new Error("Nothing to export: the project has no storyboards.");
+
+  if (letterDialogue) await loadBalloonFonts();
+  const pages: ComicArchivePage[] = [];
+  for (let i = 0; i < storyboards.length; i++) {
+    pages.push(await renderStoryboardPage(storyboards[i], characters, letterDialogue));
+    onProgress?.(i + 1, storyboards.length);
+  }
+
+  const castIds = new Set(storyboards.flatMap(getLineCharacterIds));
+  const cast = characters.filter(c => castIds.has(c.id));
+
+  const zip = new JSZip();
+  if (format === 'epub') {
+    buildEpubFiles(zip, project, cast, pages);
+    return zip.generateAsync({ type: 'blob', mimeType: 'application/epub+zip', compression: 'DEFLATE' });
+  }
+
+  pages.forEach((page, i) => zip.file(pageName(i), page.blob));
+  zip.file('ComicInfo.xml', buildComicInfo(project, cast, pages));
+  // Page images are already compressed, so store them as-is
+  return zip.generateAsync({ type: 'blob', mimeType: 'application/vnd.comicbook+zip', compression: 'STORE' });
+}
+
+/**
+ * Reads a CBZ (or plain zip of images). Pages are sorted by file name using natural order
+ * (page2 before page10); ComicInfo.xml provides the title and summary when present.
+ */
+export async function readComicArchive(file: File): Promise<ImportedComic> {
+  const zip = await JSZip.loadAsync(file);
+
+  const imageEntries = Object.values(zip.files)
+    .filter(entry => !entry.dir && IMAGE_EXTENSIONS.test(entry.name))
+    .filter(entry => !entry.name.startsWith('__MACOSX/') && !entry.name.split('/').pop()!.startsWith('.'))
+    .sort((a, b) => a.name.localeCompare(b.name, undefined, { numeric: true, sensitivity: 'base' }));
+
+  if (imageEntries.length === 0) throw new Error("No page images found in the archive.");
+
+  let title = file.name.replace(/\.(cbz|zip)$/i, '');
+  let summary = '';
+
+  const comicInfoEntry = Object.values(zip.files).find(entry => entry.name.split('/').pop()?.toLowerCase() === 'comicinfo.xml');
+  if (comicInfoEntry) {
+    try {
+      const xml = new DOMParser().parseFromString(await comicInfoEntry.async('string'), 'application/xml');
+      title = xml.querySelector('Title')?.textContent?.trim() || title;
+      summary = xml.querySelector('Summary')?.textContent?.trim() || '';
+    } catch (error) {
+      console.warn("[ComicArchive] ComicInfo.xml could not be parsed.", error);
+    }
+  }
+
+  const pages = await Promise.all(imageEntries.map(async entry => {
+    const name = entry.name.split('/').pop()!;
+    const extension = name.split('.').pop()!.toLowerCase();
+    const blob = await entry.async('blob');
+    return new File([blob], name, { type: IMAGE_MIME_TYPES[extension] || 'image/jpeg' });
+  }));
+
+  return { title, summary, pages };
+}
@@ -0,0 +1,100 @@
+import { Storyboard, DialogueLine, DialogueLineType, Character } from '../types';
+
+// Multi-line dialogue helpers. `Storyboard.lines` is the source of truth; `dialogue` and `characterId`
+// are a flat summary kept in sync for projects and clients that predate lines.
+
+export const DIALOGUE_LINE_TYPES: { id: DialogueLineType; label: string }[] = [
+  { id: 'speech', label: 'Speech' },
+  { id: 'thought', label: 'Thought' },
+  { id: 'caption', label: 'Caption' },
+  { id: 'sfx', label: 'SFX' },
+];
+
+export const createDialogueLine = (fields: Partial<DialogueLine> = {}): DialogueLine => ({
+  id: Date.now().toString() + Math.random().toString().slice(2, 8),
+  text: '',
+  type: 'speech',
+  ...fields,
+});
+
+// Captions are read by the narrator; sound effects are lettering only
+export const hasSpeaker = (line: DialogueLine) => line.type === 'speech' || line.type === 'thought';
+export const isSpokenLine = (line: DialogueLine) => line.type !== 'sfx' && line.text.trim().length > 0;
+
+/**
+ * Lines of a storyboard. Older storyboards get a single line built from `dialogue`
+ * (a caption when no character was assigned); its id is stable so it can be edited.
+ */
+export function getDialogueLines(storyboard: Storyboard): DialogueLine[] {
+  if (storyboard.lines) return storyboard.lines;
+  if (!storyboard.dialogue) return [];
+  return [{
+    id: `${storyboard.id}_dialogue`,
+    characterId: storyboard.characterId,
+    text: storyboard.dialogue,
+    type: storyboard.characterId ? 'speech' : 'caption',
+  }];
+}
+
+// Storyboard fields to write when its lines change (lines plus the legacy summary)
+export function withDialogueLines(lines: DialogueLine[]): Pick<Storyboard, 'lines' | 'dialogue' | 'characterId'> {
+  return {
+    lines,
+    dialogue: lines.map(l => l.text).filter(Boolean).join('\n'),
+    characterId: lines.find(l => hasSpeaker(l) && l.characterId)?.characterId,
+  };
+}
+
+export const hasSpokenDialogue = (storyboard: Storyboard) => getDialogueLines(storyboard).some(isSpokenLine);
+
+// Every character the storyboard's lines refer to
+export const getLineCharacterIds = (storyboard: Storyboard) =>
+  getDialogueLines(storyboard).map(l => l.characterId).filter((id): id is string => !!id);
+
+// Characters visible in the panel: the explicit list, or the speakers of its lines for storyboards without one
+export const getPanelCharacterIds = (storyboard: Storyboard): string[] =>
+  storyboard.characterIds ?? Array.from(new Set([storyboard.characterId, ...getLineCharacterIds(storyboard)].filter((id): id is string => !!id)));
+
+export const getSpeakerName = (line: DialogueLine, characters: Character[]) =>
+  hasSpeaker(line) ? characters.find(c => c.id === line.characterId)?.name : undefined;
+
+// Voice for a line: the speaker's voice, or the narrator's for captions and unassigned lines
+export const getLineVoiceId = (line: DialogueLine, characters: Character[], narratorVoiceId: string) =>
+  (hasSpeaker(line) && characters.find(c => c.id === line.characterId)?.voiceId) || narratorVoiceId;
+
+// Audio to play in order: the storyboard's own track when it has one, otherwise the per-line clips
+export function getAudioClips(storyboard: Storyboard): string[] {
+  if (storyboard.audioUrl) return [storyboard.audioUrl];
+  return getDialogueLines(storyboard).map(l => l.audioUrl).filter((url): url is string => !!url);
+}
+
+/**
+ * Line being spoken `ms` into the storyboard's conversation track, using the timings stored with
+ * the track. Between lines the previous line stays current so captions don't flicker.
+ * Timings refer to the original track, so a trimmed track is offset by its trim.
+ */
+export function getTimedLineAt(storyboard: Storyboard, ms: number): DialogueLine | undefined {
+  if (!storyboard.audioUrl) return undefined;
+  const position = ms + (storyboard.audioEdit?.trimStart || 0) * 1000;
+  const timed = getDialogueLines(storyboard).filter(l => l.startTime !== undefined && l.endTime !== undefined);
+  return [...timed].reverse().find(l => position >= l.startTime!) || timed[0];
+}
+
+export const formatLineText = (line: DialogueLine) =>
+  line.type === 'thought' ? `(${line.text})` : line.type === 'sfx' ? line.text.toUpperCase() : line.text;
+
+/**
+ * Dialogue as plain text for captions and lettering.
+ * A single line is returned with its speaker separately; several lines are prefixed with their speakers.
+ */
+export function getDialogueText(storyboard: Storyboard, characters: Character[]): { text: string; speakerName?: string } {
+  const lines = getDialogueLines(storyboard).filter(l => l.text.trim());
+  if (lines.length === 1) return { text: formatLineText(lines[0]), speakerName: getSpeakerName(lines[0], characters) };
+
+  return {
+    text: lines.map(line => {
+      const name = getSpeakerName(line, characters);
+      return name ? `${name}: ${formatLineText(line)}` : formatLineText(line);
+    }).join('\n'),
+  };
+}
@@ -14,11 +14,12 @@ import {
   where,
   orderBy,
   onSnapshot,
+  runTransaction,
   serverTimestamp
 } from 'firebase/firestore';
 import { getStorage, ref, uploadBytes, getDownloadURL, deleteObject, uploadString } from "firebase/storage";
 import { firebaseConfig } from "../firebaseConfig";
-import { Character, Project, AppSettings, Location, Storyboard } from "../types";
+import { Character, Project, AppSettings, Location, Storyboard, GenerationJob, ProjectRevision, StylePreset, PromptTemplateOverrides } from "../types";
 
 // Initialize Firebase
 const app = initializeApp(firebaseConfig);
@@ -108,6 +109,8 @@ export const subscribeToCharacters = (userId: string, callback: (characters: Cha
         voiceId: data.voiceId,
         imageUrl: imageUrl || '', // Fallback to empty string if neither exists
         imageUrl2: data.imageUrl2 || '',
+        visualDescription: data.visualDescription || undefined,
+        visualDescriptionHash: data.visualDescriptionHash || undefined,
       };
       return character;
     });
@@ -123,6 +126,8 @@ export const updateProjectMetadata = async (userId: string, projectId: string, u
   selectedCharacterIds?: string[];
   sceneDescription?: string;
   mood?: string;
+  stylePresetId?: string;
+  promptTemplates?: PromptTemplateOverrides;
 }) => {
   try {
     const projectRef = doc(db, 'users', userId, 'projects', projectId);
@@ -147,11 +152,18 @@ export const saveCharacterToFirestore = async (userId: string, character: Charac
     bio: character.bio,
     imageUrl: character.imageUrl,
     imageUrl2: character.imageUrl2 || '',
-    voiceId: character.voiceId
+    voiceId: character.voiceId,
+    visualDescription: character.visualDescription || '',
+    visualDescriptionHash: character.visualDescriptionHash || ''
   };
   await setDoc(charRef, cleanCharacter, { merge: true });
 };
 
+// Cache a generated visual description without touching the rest of the character
+export const updateCharacterVisualDescription = async (userId: string, characterId: string, visualDescription: string, visualDescriptionHash: string) => {
+  await updateDoc(doc(db, `users/${userId}/characters`, characterId), { visualDescription, visualDescriptionHash });
+};
+
 export const deleteCharacterFromFirestore = async (userId: string, characterId: string) => {
   await deleteDoc(doc(db, `users/${userId}/characters`, characterId));
 };
@@ -159,7 +171,8 @@ export const deleteCharacterFromFirestore = async (userId: string, characterId:
 // Settings
 export const saveSettingsToFirestore = async (userId: string, settings: AppSettings) => {
   const settingsRef = doc(db, `users/${userId}/settings`, 'preferences');
-  await setDoc(settingsRef, settings, { merge: true });
+  // Top-level fields are replaced as a whole, so keys removed from nested maps (e.g. promptTemplates) are removed too
+  await setDoc(settingsRef, settings, { mergeFields: Object.keys(settings) });
 };
 
 export const getSettingsFromFirestore = (userId: string, callback: (settings: AppSettings | null) => void) => {
@@ -190,6 +203,106 @@ export const deleteLocationFromFirestore = async (userId: string, locationId: st
   await deleteDoc(doc(db, `users/${userId}/locations`, locationId));
 };
 
+// Style Presets (custom art styles; built-ins live in services/stylePresets.ts)
+export const subscribeToStylePresets = (userId: string, callback: (presets: StylePreset[]) => void) => {
+  const q = query(collection(db, `users/${userId}/stylePresets`), orderBy("createdAt", "desc"));
+  return onSnapshot(q, (snapshot) => {
+    const presets = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data(), builtIn: false } as StylePreset));
+    callback(presets);
+  });
+};
+
+export const saveStylePresetToFirestore = async (userId: string, preset: StylePreset) => {
+  const presetRef = doc(db, `users/${userId}/stylePresets`, preset.id);
+  const { builtIn, ...data } = preset;
+  await setDoc(presetRef, JSON.parse(JSON.stringify(data)), { merge: true });
+};
+
+export const deleteStylePresetFromFirestore = async (userId: string, presetId: string) => {
+  await deleteDoc(doc(db, `users/${userId}/stylePresets`, presetId));
+};
+
+// Generation Jobs (per project queue)
+export const subscribeToGenerationJobs = (userId: string, projectId: string, callback: (jobs: GenerationJob[]) => void) => {
+  const q = query(collection(db, `users/${userId}/projects/${projectId}/jobs`), orderBy("createdAt", "asc"));
+  return onSnapshot(q, (snapshot) => {
+    const jobs = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as GenerationJob));
+    callback(jobs);
+  });
+};
+
+export const saveGenerationJob = async (userId: string, job: GenerationJob) => {
+  const jobRef = doc(db, `users/${userId}/projects/${job.projectId}/jobs`, job.id);
+  await setDoc(jobRef, job);
+};
+
+export const updateGenerationJob = async (userId: string, projectId: string, jobId: string, updates: Partial<GenerationJob>) => {
+  const jobRef = doc(db, `users/${userId}/projects/${projectId}/jobs`, jobId);
+  await updateDoc(jobRef, { ...updates, updatedAt: Date.now() });
+};
+
+// Atomically starts a queued job under `owner`'s lease. False when another session claimed it first.
+export const claimGenerationJob = async (userId: string, projectId: string, jobId: string, owner: string, leaseExpiresAt: number): Promise<boolean> => {
+  const jobRef = doc(db, `users/${userId}/projects/${projectId}/jobs`, jobId);
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(jobRef);
+    if (!snapshot.exists() || snapshot.data().status !== 'queued') return false;
+    transaction.update(jobRef, {
+      status: 'running',
+      attempts: (snapshot.data().attempts || 0) + 1,
+      leaseOwner: owner,
+      leaseExpiresAt,
+      updatedAt: Date.now(),
+    });
+    return true;
+  });
+};
+
+// Atomically puts a running job back in the queue if its lease has expired (its session is gone)
+export const requeueExpiredGenerationJob = async (userId: string, projectId: string, jobId: string): Promise<boolean> => {
+  const jobRef = doc(db, `users/${userId}/projects/${projectId}/jobs`, jobId);
+  return runTransaction(db, async (transaction) => {
+    const snapshot = await transaction.get(jobRef);
+    if (!snapshot.exists() || snapshot.data().status !== 'running' || (snapshot.data().leaseExpiresAt || 0) > Date.now()) return false;
+    transaction.update(jobRef, { status: 'queued', updatedAt: Date.now() });
+    return true;
+  });
+};
+
+export const deleteGenerationJob = async (userId: string, projectId: string, jobId: string) => {
+  await deleteDoc(doc(db, `users/${userId}/projects/${projectId}/jobs`, jobId));
+};
+
+// Project Revisions (history snapshots)
+export const subscribeToRevisions = (userId: string, projectId: string, callback: (revisions: ProjectRevision[]) => void) => {
+  const q = query(collection(db, `users/${userId}/projects/${projectId}/revisions`), orderBy("createdAt", "desc"));
+  return onSnapshot(q, (snapshot) => {
+    const revisions = snapshot.docs.map(doc => ({ id: doc.id, ...doc.data() } as ProjectRevision));
+    callback(revisions);
+  });
+};
+
+export const saveRevision = async (userId: string, revision: ProjectRevision) => {
+  const revisionRef = doc(db, `users/${userId}/projects/${revision.projectId}/revisions`, revision.id);
+
+  // Same sanitization as project saves. Local-only data URIs are dropped: they are never
+  // persisted on the project either, and would push the document past Firestore's size limit.
+  const cleanRevision = JSON.parse(JSON.stringify(revision));
+  cleanRevision.storyboards = cleanRevision.storyboards.map((p: any) => {
+    const { pendingVideoOperation, ...storyboard } = p;
+    ['imageUrl', 'videoUrl', 'audioUrl'].forEach(key => {
+      if (typeof storyboard[key] === 'string' && storyboard[key].startsWith('data:')) delete storyboard[key];
+    });
+    return { ...storyboard, isGeneratingImage: false, isGeneratingVideo: false, isGeneratingAudio: false };
+  });
+
+  await setDoc(revisionRef, cleanRevision);
+};
+
+export const deleteRevision = async (userId: string, projectId: string, revisionId: string) => {
+  await deleteDoc(doc(db, `users/${userId}/projects/${projectId}/revisions`, revisionId));
+};
+
 // --- STORAGE HELPERS ---
 
 // Helper to convert base64 data URI to Blob
@@ -285,6 +398,13 @@ export const deleteImageFromStorage = async (imageUrl: string) => {
   }
 };
 
+export const uploadStyleReferenceImage = async (userId: string, file: File): Promise<string> => {
+  const fileName = `${Date.now()}_${file.name.replace(/[^a-zA-Z0-9.]/g, '')}`;
+  const storageRef = ref(storage, `users/${userId}/styles/${fileName}`);
+  const snapshot = await uploadBytes(storageRef, file);
+  return getDownloadURL(snapshot.ref);
+};
+
 export const uploadLocationMedia = async (userId: string, file: File): Promise<string> => {
   const fileName = `${Date.now()}_${file.name.replace(/[^a-zA-Z0-9.]/g, '')}`;
   const storageRef = ref(storage, `users/${userId}/locations/${fileName}`);
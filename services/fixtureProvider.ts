@@ -0,0 +1,443 @@
+import { Character, Storyboard, Location, VideoOperation, PanelAnimation, ConversationLine, ConversationAudio, StylePreset, PromptContext, PromptTemplateId } from '../types';
+import { AIProvider } from './aiProvider';
+import { addWavHeader, joinPcmClips, loadImage, wrapText, bytesToBase64 } from './mediaUtils';
+import { createDialogueLine, withDialogueLines } from './dialogue';
+import { DEFAULT_STYLE_PRESET } from './stylePresets';
+import { buildPrompt, styleVariables } from './promptTemplates';
+import { resolveCharacterPromptDescription } from './characterDescriptions';
+import { getImageReferenceGroups, countReferenceImages } from './referenceImages';
+import { PANEL_ASPECT_RATIOS, DEFAULT_ASPECT_RATIO, getAspectRatioValue, frameVariables } from './aspectRatios';
+
+/**
+ * Offline, deterministic AI provider.
+ * Produces placeholder scripts, images, clips and speech locally so the Studio can be
+ * developed and demoed without network access or API quota. The same input always
+ * yields the same output.
+ */
+
+const SHOTS = ['Wide shot', 'Medium shot', 'Close up', 'Over-the-shoulder shot', 'Low angle shot', 'Bird\'s-eye view'];
+const LIGHTING = ['soft morning light', 'warm golden hour light', 'cool moonlight', 'harsh neon glow', 'overcast daylight'];
+const LINES = [
+  'Did you hear that?',
+  'We should not be here.',
+  'Trust me, this is the way.',
+  'Look out!',
+  'I knew this day would come.',
+  'Well... that went better than expected.',
+];
+const CAPTIONS = ['Meanwhile...', 'Later that day.', 'Silence fell over the room.', 'And then, everything changed.'];
+const THOUGHTS = ['Something is not right here.', 'Stay calm. Just breathe.', 'They cannot know.'];
+const SFX = ['CRASH', 'BOOM', 'CREAK', 'WHOOSH'];
+
+const MODEL = 'fixture';
+const SAMPLE_RATE = 24000;
+const SIMULATED_LATENCY = 400; // ms, keeps spinners visible in the UI
+
+// FNV-1a 32-bit hash, used to derive stable "random" choices from inputs
+function hashString(input: string): number {
+  let hash = 0x811c9dc5;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193);
+  }
+  return hash >>> 0;
+}
+
+// Small seeded PRNG (mulberry32) so drawings are stable per input
+function seededRandom(seed: number): () => number {
+  let t = seed;
+  return () => {
+    t = (t + 0x6d2b79f5) | 0;
+    let r = Math.imul(t ^ (t >>> 15), 1 | t);
+    r = (r + Math.imul(r ^ (r >>> 7), 61 | r)) ^ r;
+    return ((r ^ (r >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+const pick = <T,>(items: T[], seed: number): T => items[seed % items.length];
+
+const delay = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// Draws one deterministic placeholder frame. `phase` (0..1) animates the shapes for video.
+function drawFixtureFrame(canvas: HTMLCanvasElement, seedText: string, caption: string, phase: number = 0) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  const seed = hashString(seedText);
+  const random = seededRandom(seed);
+  const hue = seed % 360;
+
+  const gradient = ctx.createLinearGradient(0, 0, canvas.width, canvas.height);
+  gradient.addColorStop(0, `hsl(${hue}, 55%, 35%)`);
+  gradient.addColorStop(1, `hsl(${(hue + 60) % 360}, 60%, 15%)`);
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+
+  for (let i = 0; i < 8; i++) {
+    const x = random() * canvas.width + Math.sin(phase * Math.PI * 2 + i) * 20;
+    const y = random() * canvas.height;
+    const r = 30 + random() * 120;
+    ctx.fillStyle = `hsla(${(hue + i * 40) % 360}, 70%, 60%, 0.25)`;
+    ctx.beginPath();
+    ctx.arc(x, y, r, 0, Math.PI * 2);
+    ctx.fill();
+  }
+
+  ctx.fillStyle = 'rgba(0, 0, 0, 0.55)';
+  ctx.fillRect(0, canvas.height - 150, canvas.width, 150);
+
+  ctx.fillStyle = '#fff';
+  ctx.font = 'bold 22px sans-serif';
+  ctx.fillText('FIXTURE', 24, 40);
+
+  ctx.font = '20px sans-serif';
+  wrapText(ctx, caption, canvas.width - 48).slice(0, 5).forEach((line, i) => {
+    ctx.fillText(line, 24, canvas.height - 118 + i * 26);
+  });
+}
+
+// Image-to-video stand-in: a slow push-in on the first frame, cross-fading into the last one
+function drawAnimationFrame(canvas: HTMLCanvasElement, frames: HTMLImageElement[], phase: number) {
+  const ctx = canvas.getContext('2d');
+  if (!ctx) return;
+  const drawCover = (image: HTMLImageElement, zoom: number, alpha: number) => {
+    const scale = Math.max(canvas.width / image.naturalWidth, canvas.height / image.naturalHeight) * zoom;
+    const width = image.naturalWidth * scale;
+    const height = image.naturalHeight * scale;
+    ctx.globalAlpha = alpha;
+    ctx.drawImage(image, (canvas.width - width) / 2, (canvas.height - height) / 2, width, height);
+  };
+  drawCover(frames[0], 1 + phase * 0.12, 1);
+  if (frames[1]) drawCover(frames[1], 1, Math.max(0, phase * 2 - 1));
+  ctx.globalAlpha = 1;
+}
+
+// Sizes a canvas to `aspect` (width / height) with `longSide` px on its longer edge
+function setFrameSize(canvas: HTMLCanvasElement, longSide: number, aspect: number) {
+  canvas.width = Math.round(aspect >= 1 ? longSide : longSide * aspect);
+  canvas.height = Math.round(aspect >= 1 ? longSide / aspect : longSide);
+}
+
+// Black/white mask as an alpha channel (white = opaque)
+function maskToAlpha(mask: HTMLImageElement, width: number, height: number): HTMLCanvasElement {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+  ctx.drawImage(mask, 0, 0, width, height);
+  const pixels = ctx.getImageData(0, 0, width, height);
+  for (let i = 0; i < pixels.data.length; i += 4) pixels.data[i + 3] = pixels.data[i];
+  ctx.putImageData(pixels, 0, 0);
+  return canvas;
+}
+
+class FixtureProvider implements AIProvider {
+  readonly id = 'fixture' as const;
+  readonly label = 'Offline Fixtures (no quota)';
+
+  // Prompts are rendered like the real backends' so templates can be tried out offline
+  private reportPrompt(context: PromptContext | undefined, templateId: PromptTemplateId | undefined, prompt: string, referenceImageUrls?: string[]) {
+    context?.onPrompt?.({
+      templateId, prompt, model: MODEL, provider: this.id, createdAt: Date.now(),
+      ...(referenceImageUrls?.length ? { referenceImageUrls } : {}),
+    });
+  }
+
+  async generateScript(
+    sceneDescription: string,
+    mood: string,
+    characters: Character[],
+    existingContext: string,
+    locations: Location[],
+    context?: PromptContext
+  ): Promise<Partial<Storyboard>[]> {
+    this.reportPrompt(context, 'script', buildPrompt('script', {
+      'scene': sceneDescription,
+      'project.summary': existingContext,
+      'project.mood': mood,
+      'characters.bios': characters.map(c => `${c.name}: ${c.bio}`).join('\n'),
+      'locations.list': locations.map(l => `${l.name}: ${l.description || l.visualDescription || ''}`).join('\n'),
+    }, context));
+    await delay(SIMULATED_LATENCY);
+
+    const seed = hashString(`${sceneDescription}|${mood}|${existingContext}`);
+    const count = 3 + (seed % 3);
+    // Some scenes move to another location halfway through
+    const movesTo = locations.length > 0 && seed % 2 === 0 ? locations[seed % locations.length] : undefined;
+
+    return Array.from({ length: count }, (_, i) => {
+      const panelSeed = hashString(`${seed}:${i}`);
+      const speaker = characters.length > 0 && panelSeed % 4 !== 0
+        ? characters[panelSeed % characters.length]
+        : undefined;
+
+      const lines = speaker
+        ? [createDialogueLine({ characterId: speaker.id, text: pick(LINES, panelSeed >>> 5) })]
+        : [createDialogueLine({ type: 'caption', text: pick(CAPTIONS, panelSeed >>> 5) })];
+
+      // Some storyboards get an exchange between two characters, a thought or a sound effect
+      const other = characters.find(c => c.id !== speaker?.id);
+      if (speaker && other && panelSeed % 3 === 0) {
+        lines.push(createDialogueLine({ characterId: other.id, text: pick(LINES, panelSeed >>> 9) }));
+      } else if (speaker && panelSeed % 5 === 0) {
+        lines.push(createDialogueLine({ type: 'thought', characterId: speaker.id, text: pick(THOUGHTS, panelSeed >>> 9) }));
+      } else if (panelSeed % 7 === 0) {
+        lines.unshift(createDialogueLine({ type: 'sfx', text: pick(SFX, panelSeed >>> 9) }));
+      }
+
+      // Everyone who talks is in frame, sometimes with a silent bystander
+      const characterIds = Array.from(new Set(lines.map(l => l.characterId).filter((id): id is string => !!id)));
+      const bystander = characters.find(c => !characterIds.includes(c.id));
+      if (bystander && panelSeed % 2 === 0) characterIds.push(bystander.id);
+
+      return {
+        description: `${pick(SHOTS, panelSeed)} of ${sceneDescription.trim() || 'the scene'}, ${pick(LIGHTING, panelSeed >>> 3)}${mood ? `, ${mood.toLowerCase()} mood` : ''}.`,
+        ...withDialogueLines(lines),
+        characterIds,
+        ...(movesTo && i >= count / 2 ? { locationId: movesTo.id } : {}),
+      };
+    });
+  }
+
+  async getLocationVisualDescription(mediaItems: { url: string, type: 'image' | 'video' }[], context?: PromptContext): Promise<string> {
+    if (!mediaItems || mediaItems.length === 0) return '';
+    this.reportPrompt(context, 'locationDescribe', buildPrompt('locationDescribe', { 'media.count': mediaItems.length }, context));
+    await delay(SIMULATED_LATENCY);
+
+    const seed = hashString(mediaItems.map(m => m.url).join('|'));
+    return `A ${pick(['quiet', 'bustling', 'abandoned', 'cozy', 'vast'], seed)} setting lit by ${pick(LIGHTING, seed >>> 3)}, ` +
+      `with a ${pick(['teal and orange', 'muted earth-tone', 'saturated pastel', 'monochrome blue'], seed >>> 6)} palette ` +
+      `(fixture description from ${mediaItems.length} reference item${mediaItems.length === 1 ? '' : 's'}).`;
+  }
+
+  async getCharacterVisualDescription(character: Character, context?: PromptContext): Promise<string> {
+    if (!character.imageUrl) return '';
+    this.reportPrompt(context, 'characterDescribe', buildPrompt('characterDescribe', {
+      'character.name': character.name,
+      'character.bio': character.bio,
+      'images.count': character.imageUrl2 ? 2 : 1,
+    }, context));
+
+    const seed = hashString(`${character.imageUrl}|${character.imageUrl2 || ''}`);
+    return `${pick(['Short', 'Tall', 'Stocky', 'Lanky'], seed)} figure with ` +
+      `${pick(['messy black', 'braided red', 'silver', 'curly brown'], seed >>> 4)} hair, wearing a ` +
+      `${pick(['green hoodie', 'long grey coat', 'yellow raincoat', 'denim jacket'], seed >>> 8)}.`;
+  }
+
+  async generateStoryboardImage(
+    storyboardDescription: string,
+    characters: Character[],
+    location?: Location,
+    style: StylePreset = DEFAULT_STYLE_PRESET,
+    context?: PromptContext
+  ): Promise<string> {
+    const visualDescriptions = await Promise.all(characters.map(c => resolveCharacterPromptDescription(c, c => this.getCharacterVisualDescription(c))));
+    const [character, ...supporting] = characters;
+    const referenceGroups = getImageReferenceGroups(characters, location, style, context?.referenceConditioning);
+    this.reportPrompt(context, 'image', buildPrompt('image', {
+      'storyboard.description': storyboardDescription,
+      'character.name': character?.name,
+      'character.visual': visualDescriptions[0],
+      'supporting.visual': supporting.map((c, i) => `- ${c.name}: ${visualDescriptions[i + 1]}`).join('\n'),
+      'references.characters': countReferenceImages(referenceGroups, 'character'),
+      'location.name': location?.name,
+      'location.visual': location?.visualDescription,
+      'references.location': countReferenceImages(referenceGroups, 'location'),
+      ...frameVariables(context?.aspectRatio),
+      ...styleVariables(style),
+    }, context), referenceGroups.flatMap(g => g.urls));
+    await delay(SIMULATED_LATENCY);
+
+    const canvas = document.createElement('canvas');
+    setFrameSize(canvas, 1024, getAspectRatioValue(context?.aspectRatio));
+    const caption = [characters.map(c => c.name).join(' & '), storyboardDescription].filter(Boolean).join(': ');
+    const seedText = `${storyboardDescription}|${characters.map(c => c.id).join(',')}|${location?.id || ''}|${style.id}|${context?.referenceConditioning || 'images'}|${context?.variation || 0}`;
+    drawFixtureFrame(canvas, seedText, `[${style.name}] ${caption || 'Empty panel'}`);
+
+    return canvas.toDataURL('image/png');
+  }
+
+  // Paints a placeholder seeded by the instruction over the masked region
+  async editStoryboardImage(
+    imageUrl: string,
+    maskDataUrl: string,
+    instruction: string,
+    style: StylePreset = DEFAULT_STYLE_PRESET,
+    context?: PromptContext
+  ): Promise<string> {
+    this.reportPrompt(context, 'inpaint', buildPrompt('inpaint', { instruction, ...styleVariables(style) }, context), [imageUrl]);
+    await delay(SIMULATED_LATENCY);
+
+    const [image, mask] = await Promise.all([loadImage(imageUrl), loadImage(maskDataUrl)]);
+    const canvas = document.createElement('canvas');
+    canvas.width = image.naturalWidth;
+    canvas.height = image.naturalHeight;
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+    const patch = document.createElement('canvas');
+    patch.width = canvas.width;
+    patch.height = canvas.height;
+    drawFixtureFrame(patch, `${imageUrl}|${instruction}|${context?.variation || 0}`, instruction);
+    const patchCtx = patch.getContext('2d')!;
+    patchCtx.globalCompositeOperation = 'destination-in';
+    patchCtx.drawImage(maskToAlpha(mask, canvas.width, canvas.height), 0, 0);
+
+    ctx.drawImage(image, 0, 0);
+    ctx.drawImage(patch, 0, 0);
+    return canvas.toDataURL('image/png');
+  }
+
+  // Pending fixture "operations" for this session. After a reload the name itself seeds the clip.
+  private pendingVideos = new Map<string, { seedText: string; caption: string; frames?: HTMLImageElement[] }>();
+
+  async generateStoryboardVideo(
+    storyboardDescription: string,
+    dialogue: string = '',
+    character?: Character,
+    location?: Location,
+    allCharacters: Character[] = [],
+    style: StylePreset = DEFAULT_STYLE_PRESET,
+    context?: PromptContext
+  ): Promise<string> {
+    const operation = await this.startStoryboardVideo(storyboardDescription, dialogue, character, location, allCharacters, style, context);
+    return this.pollStoryboardVideo(operation);
+  }
+
+  async startStoryboardVideo(
+    storyboardDescription: string,
+    dialogue: string = '',
+    character?: Character,
+    location?: Location,
+    allCharacters: Character[] = [],
+    style: StylePreset = DEFAULT_STYLE_PRESET,
+    context?: PromptContext
+  ): Promise<VideoOperation> {
+    const describe = (c: Character) => resolveCharacterPromptDescription(c, c2 => this.getCharacterVisualDescription(c2));
+    const descriptions = await Promise.all(allCharacters.map(describe));
+    this.reportPrompt(context, 'video', buildPrompt('video', {
+      'storyboard.description': storyboardDescription,
+      'storyboard.dialogue': dialogue,
+      'character.name': character?.name,
+      'character.visual': character ? await describe(character) : '',
+      'characters.visual': allCharacters.map((c, i) => `- ${c.name}: ${descriptions[i]}`).join('\n'),
+      'location.name': location?.name,
+      'location.visual': location?.visualDescription,
+      ...frameVariables(context?.aspectRatio),
+      ...styleVariables(style),
+    }, context));
+    await delay(SIMULATED_LATENCY);
+
+    const seedText = `${storyboardDescription}|${dialogue}|${character?.id || ''}|${location?.id || ''}|${allCharacters.length}|${style.id}`;
+    const videoAspect = PANEL_ASPECT_RATIOS[context?.aspectRatio || DEFAULT_ASPECT_RATIO].videoAspect;
+    const name = `fixtures/operations/${videoAspect === '9:16' ? 'vertical/' : ''}${hashString(seedText)}`;
+    this.pendingVideos.set(name, { seedText, caption: dialogue || storyboardDescription || 'Empty panel' });
+
+    return { provider: this.id, name, startedAt: Date.now() };
+  }
+
+  async startStoryboardAnimation(
+    storyboardDescription: string,
+    dialogue: string,
+    animation: PanelAnimation,
+    style: StylePreset = DEFAULT_STYLE_PRESET,
+    context?: PromptContext
+  ): Promise<VideoOperation> {
+    const frameUrls = [animation.firstFrameUrl, ...(animation.lastFrameUrl ? [animation.lastFrameUrl] : [])];
+    this.reportPrompt(context, 'animate', buildPrompt('animate', {
+      'storyboard.description': storyboardDescription,
+      'storyboard.dialogue': dialogue,
+      'motion': animation.motionPrompt,
+      'duration': animation.durationSeconds,
+      'frames.last': animation.lastFrameUrl ? 1 : 0,
+      ...styleVariables(style),
+    }, context), frameUrls);
+    const frames = await Promise.all(frameUrls.map(loadImage));
+    await delay(SIMULATED_LATENCY);
+
+    const seedText = `${frameUrls.join('|')}|${animation.motionPrompt || ''}|${animation.durationSeconds}|${style.id}`;
+    const videoAspect = PANEL_ASPECT_RATIOS[context?.aspectRatio || DEFAULT_ASPECT_RATIO].videoAspect;
+    const name = `fixtures/operations/${videoAspect === '9:16' ? 'vertical/' : ''}${hashString(seedText)}`;
+    this.pendingVideos.set(name, { seedText, caption: animation.motionPrompt || storyboardDescription || 'Animated panel', frames });
+
+    return { provider: this.id, name, startedAt: Date.now() };
+  }
+
+  async pollStoryboardVideo(operation: VideoOperation): Promise<string> {
+    if (typeof MediaRecorder === 'undefined') {
+      throw new Error("Fixture video requires MediaRecorder support in this browser.");
+    }
+
+    const pending = this.pendingVideos.get(operation.name) || { seedText: operation.name, caption: 'Resumed fixture clip' };
+    this.pendingVideos.delete(operation.name);
+
+    // The orientation is part of the operation name, so resumed clips keep it
+    const canvas = document.createElement('canvas');
+    setFrameSize(canvas, 640, operation.name.includes('/vertical/') ? 9 / 16 : 16 / 9);
+
+    const stream = canvas.captureStream(24);
+    const mimeType = MediaRecorder.isTypeSupported('video/webm;codecs=vp9') ? 'video/webm;codecs=vp9' : 'video/webm';
+    const recorder = new MediaRecorder(stream, { mimeType });
+    const chunks: Blob[] = [];
+    recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+    const DURATION = 2000;
+    const done = new Promise<Blob>((resolve) => {
+      recorder.onstop = () => resolve(new Blob(chunks, { type: 'video/webm' }));
+    });
+
+    recorder.start();
+    const start = performance.now();
+    while (performance.now() - start < DURATION) {
+      const phase = (performance.now() - start) / DURATION;
+      if (pending.frames) drawAnimationFrame(canvas, pending.frames, phase);
+      else drawFixtureFrame(canvas, pending.seedText, pending.caption, phase);
+      await delay(1000 / 24);
+    }
+    recorder.stop();
+    stream.getTracks().forEach(t => t.stop());
+
+    const blob = await done;
+    const bytes = new Uint8Array(await blob.arrayBuffer());
+    return `data:video/webm;base64,${bytesToBase64(bytes)}`;
+  }
+
+  // A "babble" of tones: one syllable-like blip per word, pitched by voice. Returns base64 PCM.
+  private babble(text: string, voiceName: string): string {
+    const words = text.split(/\s+/).filter(Boolean);
+    const baseFrequency = 140 + (hashString(voiceName) % 160);
+    const wordSamples = Math.floor(SAMPLE_RATE * 0.3);
+    const gapSamples = Math.floor(SAMPLE_RATE * 0.05);
+    const totalSamples = Math.max(SAMPLE_RATE, words.length * (wordSamples + gapSamples));
+
+    const pcm = new DataView(new ArrayBuffer(totalSamples * 2));
+    words.forEach((word, w) => {
+      const frequency = baseFrequency * (1 + (hashString(word) % 5) / 10);
+      const offset = w * (wordSamples + gapSamples);
+      for (let i = 0; i < wordSamples; i++) {
+        const envelope = Math.sin(Math.PI * i / wordSamples);
+        const sample = Math.sin(2 * Math.PI * frequency * i / SAMPLE_RATE) * envelope * 0.3;
+        pcm.setInt16((offset + i) * 2, Math.round(sample * 32767), true);
+      }
+    });
+
+    return bytesToBase64(new Uint8Array(pcm.buffer));
+  }
+
+  async generateSpeech(text: string, voiceName: string = 'Puck', context?: PromptContext): Promise<string> {
+    this.reportPrompt(context, undefined, text);
+    await delay(SIMULATED_LATENCY);
+    const wavBase64 = addWavHeader(this.babble(text, voiceName), SAMPLE_RATE);
+    return `data:audio/wav;base64,${wavBase64}`;
+  }
+
+  async generateConversation(lines: ConversationLine[], context?: PromptContext): Promise<ConversationAudio> {
+    this.reportPrompt(context, undefined, lines.map(l => `[${l.voiceName}] ${l.text}`).join('\n'));
+    await delay(SIMULATED_LATENCY);
+    const { pcm, timings } = joinPcmClips(lines.map(l => this.babble(l.text, l.voiceName)), SAMPLE_RATE);
+    return { audio: `data:audio/wav;base64,${addWavHeader(pcm, SAMPLE_RATE)}`, timings };
+  }
+}
+
+export const fixtureProvider = new FixtureProvider();
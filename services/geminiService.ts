@@ -1,133 +1,35 @@
 import { GoogleGenAI, Type, Modality, GenerateContentResponse, HarmCategory, HarmBlockThreshold } from "@google/genai";
-import { Character, Storyboard, Location } from '../types';
-
-/**
- * Helper to add a RIFF/WAV header to raw PCM data (16-bit, 24kHz, Mono)
- * This allows raw data from Gemini to play in standard browser <audio> elements.
- */
-function addWavHeader(base64Pcm: string, sampleRate: number = 24000): string {
-  const binaryString = atob(base64Pcm);
-  const dataLen = binaryString.length;
-  const header = new ArrayBuffer(44);
-  const view = new DataView(header);
-
-  const writeString = (offset: number, str: string) => {
-    for (let i = 0; i < str.length; i++) {
-      view.setUint8(offset + i, str.charCodeAt(i));
-    }
-  };
-
-  writeString(0, 'RIFF');
-  view.setUint32(4, 36 + dataLen, true);
-  writeString(8, 'WAVE');
-  writeString(12, 'fmt ');
-  view.setUint32(16, 16, true);
-  view.setUint16(20, 1, true); // PCM format
-  view.setUint16(22, 1, true); // Mono
-  view.setUint32(24, sampleRate, true);
-  view.setUint32(28, sampleRate * 2, true); // Byte rate (SampleRate * 2)
-  view.setUint16(32, 2, true); // Block align (1 channel * 2 bytes)
-  view.setUint16(34, 16, true); // Bits per sample
-  writeString(36, 'data');
-  view.setUint32(40, dataLen, true);
-
-  const headerUint8 = new Uint8Array(header);
-  const dataUint8Array = new Uint8Array(dataLen);
-  for (let i = 0; i < dataLen; i++) {
-    dataUint8Array[i] = binaryString.charCodeAt(i);
-  }
-
-  const combined = new Uint8Array(44 + dataLen);
-  combined.set(headerUint8, 0);
-  combined.set(dataUint8Array, 44);
-
-  // Convert back to base64 efficiently
-  let binary = '';
-  const chunkSize = 8192;
-  for (let i = 0; i < combined.length; i += chunkSize) {
-    binary += String.fromCharCode.apply(null, combined.subarray(i, i + chunkSize) as any);
-  }
-  return btoa(binary);
-}
-
-// Helper to wrap promises with a timeout
-function withTimeout<T>(promise: Promise<T>, ms: number, errorMessage: string): Promise<T> {
-  let timeoutId: any;
-  const timeoutPromise = new Promise<T>((_, reject) => {
-    timeoutId = setTimeout(() => reject(new Error(errorMessage)), ms);
-  });
-
-  return Promise.race([
-    promise.then((res) => {
-      clearTimeout(timeoutId);
-      return res;
-    }),
-    timeoutPromise
-  ]);
-}
-
-// Optimized helper to fetch media (image/video) and convert to base64 with mime type
-async function fetchMediaAsBase64(url: string): Promise<{ mimeType: string; data: string }> {
-  // Optimization: If it's already a data URI, parse it directly
-  if (url.startsWith('data:')) {
-    const commaIndex = url.indexOf(',');
-    const header = url.substring(0, commaIndex);
-    const mimeType = header.match(/:(.*?);/)?.[1] || 'image/png';
-    const data = url.substring(commaIndex + 1);
-    return { mimeType, data };
-  }
-
-  // WRAPPED IN TIMEOUT: Enforce strict 10s limit for media fetching (videos can be larger)
-  return withTimeout((async () => {
-    const controller = new AbortController();
-    const id = setTimeout(() => controller.abort(), 60000);
+import { Character, Storyboard, Location, VideoOperation, PanelAnimation, DialogueLine, DialogueLineType, ConversationLine, ConversationAudio, StylePreset, PromptContext, PromptTemplateId } from '../types';
+import { DEFAULT_STYLE_PRESET } from './stylePresets';
+import { AIProvider } from './aiProvider';
+import { buildPrompt, styleVariables } from './promptTemplates';
+import { PANEL_ASPECT_RATIOS, DEFAULT_ASPECT_RATIO, frameVariables, conformImageToAspect } from './aspectRatios';
+import { resolveCharacterPromptDescription } from './characterDescriptions';
+import { getImageReferenceGroups, countReferenceImages, ReferenceImageGroup } from './referenceImages';
+import { DIALOGUE_LINE_TYPES, createDialogueLine, withDialogueLines } from './dialogue';
+import { addWavHeader, joinPcmClips, withTimeout, fetchMediaAsBase64 } from './mediaUtils';
+
+const SCRIPT_MODEL = 'gemini-2.0-flash';
+const VISION_MODEL = 'gemini-2.0-flash';
+const IMAGE_MODEL = 'gemini-2.5-flash-image';
+const VIDEO_MODEL = 'veo-3.1-generate-preview';
+const SPEECH_MODEL = 'gemini-2.0-flash-exp';
+
+// Output format appended to the script template; the response schema depends on it, so it is not overridable
+const SCRIPT_OUTPUT_FORMAT = `
+Output a JSON array of storyboards. Each storyboard must have:
+- "description": A detailed visual description for an image generator. Include specific camera angles (e.g., 'Wide shot', 'Close up') and lighting details.
+- "lines": The dialogue of the storyboard in reading order. Several characters may talk in one storyboard. Each line has:
+  - "type": "speech" (spoken aloud), "thought" (inner monologue), "caption" (narration) or "sfx" (sound effect lettering, e.g. "CRASH").
+  - "characterName": The name of the character speaking or thinking (empty for captions and sound effects).
+  - "text": The words of the line.
+- "locationName": The location from the list where the storyboard takes place. Change it when the scene moves; leave it empty when no listed location fits.
+- "characterNames": The names of every character visible in the storyboard, including silent ones. Leave out speakers who are off-panel (e.g. a voice from another room).`;
+
+class GeminiService implements AIProvider {
+  readonly id = 'gemini' as const;
+  readonly label = 'Google Gemini / Vertex AI';
 
-    try {
-      const response = await fetch(url, {
-        credentials: 'omit',
-        signal: controller.signal
-      });
-      clearTimeout(id);
-
-      if (!response.ok) {
-        throw new Error(`HTTP ${response.status}`);
-      }
-
-      const blob = await response.blob();
-
-      return await new Promise<{ mimeType: string; data: string }>((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onloadend = () => {
-          const result = reader.result as string;
-          if (!result) {
-            reject(new Error("Empty result"));
-            return;
-          }
-          const commaIndex = result.indexOf(',');
-          if (commaIndex === -1) {
-            reject(new Error("Invalid data"));
-            return;
-          }
-          const header = result.substring(0, commaIndex);
-          const base64 = result.substring(commaIndex + 1);
-          // Trust the blob type first, fallback to header
-          const mimeType = blob.type || header.match(/:(.*?);/)?.[1] || 'image/png';
-          resolve({ mimeType, data: base64 });
-        };
-        reader.onerror = () => reject(new Error("FileReader failed"));
-        reader.readAsDataURL(blob);
-      });
-
-    } catch (error) {
-      clearTimeout(id);
-      console.warn("Media fetch failed. If this is a CORS error, you may need to configure your storage bucket.", error);
-      throw error;
-    }
-  })(), 60000, "Media fetch timed out (60s). File might be too large or connection too slow.");
-}
-
-
-class GeminiService {
   private clientInstance: any = null;
   private location: string = 'us-central1';
 
@@ -153,35 +55,35 @@ class GeminiService {
     return this.clientInstance;
   }
 
+  private reportPrompt(context: PromptContext | undefined, templateId: PromptTemplateId | undefined, model: string, prompt: string, referenceImageUrls?: string[]) {
+    context?.onPrompt?.({
+      templateId, prompt, model, provider: this.id, createdAt: Date.now(),
+      ...(referenceImageUrls?.length ? { referenceImageUrls } : {}),
+    });
+  }
+
   // Generate a script (list of storyboards)
   async generateScript(
     sceneDescription: string,
     mood: string,
     characters: Character[],
-    existingContext: string
+    existingContext: string,
+    locations: Location[],
+    context?: PromptContext
   ): Promise<Partial<Storyboard>[]> {
 
-    const characterContext = characters
-      .map(c => `${c.name}: ${c.bio}`)
-      .join('\n');
-
-    const prompt = `
-      Create a comic strip script.
-      Context: ${existingContext}
-      Scene Description: ${sceneDescription}
-      Mood: ${mood}
-      Characters available:
-      ${characterContext}
-
-      Output a JSON array of storyboards. Each storyboard must have:
-      - "description": A detailed visual description for an image generator. Include specific camera angles (e.g., 'Wide shot', 'Close up') and lighting details.
-      - "dialogue": The text spoken in the storyboard (or caption).
-      - "characterName": The name of the character speaking (if any).
-    `;
+    const prompt = buildPrompt('script', {
+      'scene': sceneDescription,
+      'project.summary': existingContext,
+      'project.mood': mood,
+      'characters.bios': characters.map(c => `${c.name}: ${c.bio}`).join('\n'),
+      'locations.list': locations.map(l => `${l.name}: ${l.description || l.visualDescription || ''}`).join('\n'),
+    }, context) + '\n' + SCRIPT_OUTPUT_FORMAT;
 
     try {
+      this.reportPrompt(context, 'script', SCRIPT_MODEL, prompt);
       const response = await this.getClient().models.generateContent({
-        model: 'gemini-2.0-flash',
+        model: SCRIPT_MODEL,
         contents: prompt,
         config: {
           responseMimeType: 'application/json',
@@ -191,10 +93,22 @@ class GeminiService {
               type: Type.OBJECT,
               properties: {
                 description: { type: Type.STRING },
-                dialogue: { type: Type.STRING },
-                characterName: { type: Type.STRING },
+                lines: {
+                  type: Type.ARRAY,
+                  items: {
+                    type: Type.OBJECT,
+                    properties: {
+                      type: { type: Type.STRING, enum: DIALOGUE_LINE_TYPES.map(t => t.id) },
+                      characterName: { type: Type.STRING },
+                      text: { type: Type.STRING },
+                    },
+                    required: ['type', 'text']
+                  }
+                },
+                locationName: { type: Type.STRING },
+                characterNames: { type: Type.ARRAY, items: { type: Type.STRING } },
               },
-              required: ['description', 'dialogue']
+              required: ['description', 'lines']
             }
           }
         }
@@ -202,12 +116,25 @@ class GeminiService {
 
       const data = JSON.parse(response.text || '[]');
 
+      const findCharacter = (name?: string) => characters.find(c => c.name.toLowerCase() === name?.trim().toLowerCase());
+
       return data.map((item: any) => {
-        const char = characters.find(c => c.name.toLowerCase() === item.characterName?.toLowerCase());
+        const lines: DialogueLine[] = (item.lines || []).map((line: any) => {
+          const char = findCharacter(line.characterName);
+          const type: DialogueLineType = DIALOGUE_LINE_TYPES.some(t => t.id === line.type) ? line.type : 'speech';
+          return createDialogueLine({ type, text: line.text || '', characterId: char ? char.id : undefined });
+        });
+        // Without a list, the panel falls back to its speakers (getPanelCharacterIds)
+        const characterIds = Array.isArray(item.characterNames)
+          ? Array.from(new Set(item.characterNames.map((name: string) => findCharacter(name)?.id).filter(Boolean) as string[]))
+          : undefined;
+        // Unknown or empty names keep the project default location
+        const location = locations.find(l => l.name.toLowerCase() === item.locationName?.trim().toLowerCase());
         return {
           description: item.description,
-          dialogue: item.dialogue,
-          characterId: char ? char.id : undefined,
+          ...withDialogueLines(lines),
+          ...(characterIds ? { characterIds } : {}),
+          ...(location ? { locationId: location.id } : {}),
         };
       });
 
@@ -218,7 +145,7 @@ class GeminiService {
   }
 
   // Helper to get a visual description from a Location (Images or Videos)
-  async getLocationVisualDescription(mediaItems: { url: string, type: 'image' | 'video' }[]): Promise<string> {
+  async getLocationVisualDescription(mediaItems: { url: string, type: 'image' | 'video' }[], context?: PromptContext): Promise<string> {
     if (!mediaItems || mediaItems.length === 0) return '';
 
     try {
@@ -236,24 +163,13 @@ class GeminiService {
 
       if (parts.length === 0) throw new Error("No media could be loaded");
 
-      const prompt = `Analyze these ${mediaItems.length} images/videos in detail for use as a background location reference in a comic book generation prompt.
-      
-      These items represent different angles or details of the SAME location. Combine them to create one unified visual description.
-      
-      Describe the:
-      1. Lighting (Time of day, direction, color, intensity)
-      2. Color Palette (Dominant colors, mood)
-      3. Environment/Setting (Indoors/Outdoors, key landmarks, architecture, nature elements)
-      4. Atmosphere (Peaceful, chaotic, futuristic, rustic, etc.)
-      5. Textures and Materials (Wood, stone, neon, water, etc.)
-
-      Do NOT describe any people or characters in the scene. Focus ONLY on the location/background.
-      Keep it descriptive but concise.`;
+      const prompt = buildPrompt('locationDescribe', { 'media.count': mediaItems.length }, context);
+      this.reportPrompt(context, 'locationDescribe', VISION_MODEL, prompt);
 
       parts.push({ text: prompt });
 
       const response = await this.getClient().models.generateContent({
-        model: 'gemini-2.0-flash',
+        model: VISION_MODEL,
         contents: { parts }
       });
 
@@ -264,9 +180,9 @@ class GeminiService {
     }
   }
 
-  // Helper to get a visual description from an image using Gemini Vision
-  async getCharacterVisualDescription(character: Character): Promise<string> {
-    if (!character.imageUrl) return character.bio || '';
+  // Helper to get a visual description from the reference images using Gemini Vision (empty when that fails)
+  async getCharacterVisualDescription(character: Character, context?: PromptContext): Promise<string> {
+    if (!character.imageUrl) return '';
 
     try {
       const parts: any[] = [];
@@ -285,238 +201,336 @@ class GeminiService {
         }
       }
 
-      const prompt = `Describe this character's physical appearance in detail for an image generator prompt. 
-      Focus on hair, eyes, clothing, facial features, and style. 
-      If there are two images, combine the details to create a consistent description.
-      Ignore the background. 
-      Keep it concise but descriptive.`;
+      const prompt = buildPrompt('characterDescribe', {
+        'character.name': character.name,
+        'character.bio': character.bio,
+        'images.count': parts.length,
+      }, context);
+      this.reportPrompt(context, 'characterDescribe', VISION_MODEL, prompt);
 
       parts.push({ text: prompt });
 
       const response = await this.getClient().models.generateContent({
-        model: 'gemini-2.0-flash',
+        model: VISION_MODEL,
         contents: { parts }
       });
 
-      return (response.text || '') + (character.bio ? ` Context: ${character.bio}` : '');
+      return (response.text || '').trim();
     } catch (error) {
       console.warn("Failed to get visual description:", error);
-      return character.bio || '';
+      return '';
     }
   }
 
-  // Generate an image for a storyboard
-  async generateStoryboardImage(
-    storyboardDescription: string,
-    character?: Character,
-    location?: Location
-  ): Promise<string> {
-    try {
-      let prompt = '';
-      let visualDescription = '';
-      let locationContext = '';
-
-      // 1. Process Location Context
-      if (location && location.visualDescription) {
-        locationContext = `
-          SETTING / LOCATION REFERENCE:
-          ${location.visualDescription}
-          
-          Start the scene with this setting. Ensure the background matches this description accurately.
-        `;
-      }
-
-      // 2. Get Visual Description if character exists
-      if (character) {
-        // Use the bio as a fallback or base, but try to get a visual description
-        visualDescription = await this.getCharacterVisualDescription(character);
-
-        prompt = `
-(Technical Specs): 3D render, Pixar-style animation to look like a movie screencap. High quality, 8k resolution, cinematic lighting.
-
-(Subject & Action): 
-Visual Appearance (PRIORITY): ${visualDescription}.
-Character Name: "${character.name}" (Note: Rely on Visual Appearance for species/loops, ignore name bias).
-Action: ${storyboardDescription}
-
-(Setting): ${locationContext ? locationContext : 'Background matches the mood/action.'}
-IMPORTANT: The background MUST match the Setting description accurately.
-
-(Style): 3D Pixar-style animation.`;
-      } else {
-        prompt = `
-(Technical Specs): 3D render, Pixar-style animation to look like a movie screencap. High quality, 8k resolution, cinematic lighting.
+  // Reference images as inline parts, each group preceded by its label. Images that fail to load are skipped,
+  // and the returned `groups` list only the images that loaded, for counting them in the prompt.
+  private async loadReferenceParts(groups: ReferenceImageGroup[]): Promise<{ parts: any[]; urls: string[]; groups: ReferenceImageGroup[] }> {
+    const loaded = await Promise.all(groups.map(async group => {
+      const images = await Promise.all(group.urls.map(async url => {
+        try {
+          const { mimeType, data } = await fetchMediaAsBase64(url);
+          return { url, part: { inlineData: { mimeType, data } } };
+        } catch (error) {
+          console.warn("Reference image could not be loaded:", error);
+          return null;
+        }
+      }));
+      return { group, images: images.filter((image): image is NonNullable<typeof image> => !!image) };
+    }));
+
+    const parts: any[] = [];
+    const urls: string[] = [];
+    const loadedGroups: ReferenceImageGroup[] = [];
+    loaded.filter(({ images }) => images.length > 0).forEach(({ group, images }) => {
+      parts.push({ text: group.label }, ...images.map(image => image.part));
+      urls.push(...images.map(image => image.url));
+      loadedGroups.push({ ...group, urls: images.map(image => image.url) });
+    });
+    return { parts, urls, groups: loadedGroups };
+  }
 
-(Scene Description): ${storyboardDescription}. 
+  // Sends parts to the image model and returns the first image as a data URI (in `aspectRatio` when given)
+  private async requestImage(parts: any[], aspectRatio?: string): Promise<string> {
+    try {
+      // Use proper SDK method for @google/genai
+      const result = await withTimeout<any>(
+        // @ts-ignore
+        this.getClient().models.generateContent({
+          model: IMAGE_MODEL, // Reverted to specialized image generation model
+          contents: [{
+            role: 'user',
+            parts
+          }],
+          config: {
+            ...(aspectRatio ? { imageConfig: { aspectRatio } } : {}),
+            safetySettings: [
+              { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
+              { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
+              { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
+              { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE }
+            ]
+          }
+        }),
+        90000,
+        "Image generation timed out"
+      );
 
-(Setting): ${locationContext ? locationContext : 'Background matches the mood/action.'}
-IMPORTANT: The background MUST match the Setting description accurately.
+      // Result from new SDK might be the response itself or contain it
+      const response = result.response || result;
+      const candidates = response.candidates;
 
-(Style): 3D Pixar-style animation.`;
+      if (!candidates || candidates.length === 0) {
+        throw new Error("No candidates returned");
       }
 
-      console.log("Generating image with prompt:", prompt);
+      // Check for inlineData (image)
+      // Access safely with optional chaining
+      const responseParts = candidates[0].content?.parts;
+      const imagePart = responseParts?.find((p: any) => p.inlineData);
 
-      try {
-        // Use proper SDK method for @google/genai
-        const result = await withTimeout<any>(
-          // @ts-ignore
-          this.getClient().models.generateContent({
-            model: 'gemini-2.5-flash-image', // Reverted to specialized image generation model
-            contents: [{
-              role: 'user',
-              parts: [{ text: "Generate an image based on this description:\n\n" + prompt }]
-            }],
-            config: {
-              safetySettings: [
-                { category: HarmCategory.HARM_CATEGORY_HARASSMENT, threshold: HarmBlockThreshold.BLOCK_NONE },
-                { category: HarmCategory.HARM_CATEGORY_HATE_SPEECH, threshold: HarmBlockThreshold.BLOCK_NONE },
-                { category: HarmCategory.HARM_CATEGORY_SEXUALLY_EXPLICIT, threshold: HarmBlockThreshold.BLOCK_NONE },
-                { category: HarmCategory.HARM_CATEGORY_DANGEROUS_CONTENT, threshold: HarmBlockThreshold.BLOCK_NONE }
-              ]
-            }
-          }),
-          90000,
-          "Image generation timed out"
-        );
-
-        // Result from new SDK might be the response itself or contain it
-        const response = result.response || result;
-        const candidates = response.candidates;
+      if (imagePart && imagePart.inlineData) {
+        return `data:${imagePart.inlineData.mimeType || 'image/png'};base64,${imagePart.inlineData.data}`;
+      }
 
-        if (!candidates || candidates.length === 0) {
-          throw new Error("No candidates returned");
-        }
+      throw new Error("No image generated in response. The model may have returned text instead.");
 
-        // Check for inlineData (image)
-        // Access safely with optional chaining
-        const parts = candidates[0].content?.parts;
-        const imagePart = parts?.find((p: any) => p.inlineData);
+    } catch (error: any) {
+      console.error("Image generation error:", error);
+      if (error.message?.includes("429") || error.message?.toLowerCase().includes("quota") || error.message?.toLowerCase().includes("limit") || error.message?.includes("RESOURCE_EXHAUSTED")) {
+        throw new Error("Quota exceeded: You have reached your API limit for image generation. Please try again later or check your billing details.");
+      }
+      throw error;
+    }
+  }
 
-        if (imagePart && imagePart.inlineData) {
-          return `data:${imagePart.inlineData.mimeType || 'image/png'};base64,${imagePart.inlineData.data}`;
-        }
+  // Generate an image for a storyboard. The first character is the speaking one.
+  async generateStoryboardImage(
+    storyboardDescription: string,
+    characters: Character[],
+    location?: Location,
+    style: StylePreset = DEFAULT_STYLE_PRESET,
+    context?: PromptContext
+  ): Promise<string> {
+    try {
+      // Cached descriptions when current, otherwise described from the reference images; the bio is the fallback
+      const describe = (c: Character) => this.getCharacterVisualDescription(c, { ...context, onPrompt: undefined });
+      const visualDescriptions = await Promise.all(characters.map(c => resolveCharacterPromptDescription(c, describe)));
+      const [character, ...supporting] = characters;
+
+      // Loaded before the prompt is built, so it only mentions references that are actually attached
+      const references = await this.loadReferenceParts(getImageReferenceGroups(characters, location, style, context?.referenceConditioning));
+
+      const prompt = buildPrompt('image', {
+        'storyboard.description': storyboardDescription,
+        'character.name': character?.name,
+        'character.visual': visualDescriptions[0],
+        'supporting.visual': supporting.map((c, i) => `- ${c.name}: ${visualDescriptions[i + 1]}`).join('\n'),
+        'references.characters': countReferenceImages(references.groups, 'character'),
+        'location.name': location?.name,
+        'location.visual': location?.visualDescription,
+        'references.location': countReferenceImages(references.groups, 'location'),
+        ...frameVariables(context?.aspectRatio),
+        ...styleVariables(style),
+        'style.references': countReferenceImages(references.groups, 'style'),
+      }, context);
 
-        throw new Error("No image generated in response. The model may have returned text instead.");
+      console.log("Generating image with prompt:", prompt);
+      this.reportPrompt(context, 'image', IMAGE_MODEL, prompt, references.urls);
 
-      } catch (error: any) {
-        console.error("Image generation error:", error);
-        if (error.message?.includes("429") || error.message?.toLowerCase().includes("quota") || error.message?.toLowerCase().includes("limit") || error.message?.includes("RESOURCE_EXHAUSTED")) {
-          throw new Error("Quota exceeded: You have reached your API limit for image generation. Please try again later or check your billing details.");
-        }
-        throw error;
-      }
+      // The model only offers some shapes (a tall strip comes back as 9:16), so the result is cropped to the panel
+      const aspectRatio = context?.aspectRatio || DEFAULT_ASPECT_RATIO;
+      const image = await this.requestImage([...references.parts, { text: prompt }], PANEL_ASPECT_RATIOS[aspectRatio].imageAspect);
+      return await conformImageToAspect(image, aspectRatio);
     } catch (error) {
       console.error("Panel generation process failed:", error);
       throw error;
     }
   }
 
-  // Generate a video for a storyboard
+  // In-paint: regenerate the masked region of an existing image
+  async editStoryboardImage(
+    imageUrl: string,
+    maskDataUrl: string,
+    instruction: string,
+    style: StylePreset = DEFAULT_STYLE_PRESET,
+    context?: PromptContext
+  ): Promise<string> {
+    const prompt = buildPrompt('inpaint', { instruction, ...styleVariables(style) }, context);
+    const [image, mask] = await Promise.all([fetchMediaAsBase64(imageUrl), fetchMediaAsBase64(maskDataUrl)]);
+
+    console.log("Editing image with prompt:", prompt);
+    this.reportPrompt(context, 'inpaint', IMAGE_MODEL, prompt, [imageUrl]);
+
+    // Same shape handling as generateStoryboardImage, so the edit matches its panel
+    const aspectRatio = context?.aspectRatio || DEFAULT_ASPECT_RATIO;
+    const edited = await this.requestImage([
+      { text: 'Image to edit:' },
+      { inlineData: image },
+      { text: 'Mask (white = area to change, black = keep):' },
+      { inlineData: mask },
+      { text: prompt },
+    ], PANEL_ASPECT_RATIOS[aspectRatio].imageAspect);
+    return conformImageToAspect(edited, aspectRatio);
+  }
+
+  // Generate a video for a storyboard (start + wait in one call)
   async generateStoryboardVideo(
     storyboardDescription: string,
     dialogue: string = '',
     character?: Character,
     location?: Location,
-    allCharacters: Character[] = []
+    allCharacters: Character[] = [],
+    style: StylePreset = DEFAULT_STYLE_PRESET,
+    context?: PromptContext
   ): Promise<string> {
-    try {
-      let prompt = '';
-      let visualDescription = '';
-      let locationContext = '';
-
-      if (location && location.visualDescription) {
-        locationContext = `SETTING / BACKGROUND REFERENCE: ${location.visualDescription}`;
-      }
-
-      // Group all character descriptions for consistency
-      const characterContext = allCharacters.length > 0
-        ? "GLOBAL CHARACTER REFERENCE (Maintain consistency with these appearances):\n" +
-        (await Promise.all(allCharacters.map(async c => `- ${c.name}: ${await this.getCharacterVisualDescription(c)}`))).join('\n')
-        : (character ? `SUBJECT REFERENCE: ${await this.getCharacterVisualDescription(character)}` : '');
-
-      prompt = `
-(TECHNICAL SPECS): High-end 3D animated cinematic video, 8K resolution, Pixar/Disney style. Vibrant colors, professional cinematic lighting.
-
-(CHARACTERS & SUBJECTS):
-${characterContext}
-
-(ACTION / SCENE):
-${storyboardDescription}
-
-(AUDIO & DIALOGUE - CRITICAL):
-STORYBOARD DIALOGUE: "${dialogue || 'No dialogue, just ambient sound'}"
-INSTRUCTION: The character "${character?.name || 'the subject'}" MUST speak the Storyboard Dialogue clearly. 
-SOUND QUALITY: Loud, crystal-clear professional voiceover. High-fidelity spatial audio.
-
-(SETTING):
-${locationContext || 'Environment matches the action mood.'}
-IMPORTANT: Stick strictly to the provided characters and setting. Do NOT invent new animals, creatures, or characters.
+    const operation = await this.startStoryboardVideo(storyboardDescription, dialogue, character, location, allCharacters, style, context);
+    return this.pollStoryboardVideo(operation);
+  }
 
-(MOTION): Dynamic but smooth cinematic camera work.
-(DURATION): 8 seconds.`;
+  // Kick off a Veo long-running operation. The returned handle can be persisted and polled later.
+  async startStoryboardVideo(
+    storyboardDescription: string,
+    dialogue: string = '',
+    character?: Character,
+    location?: Location,
+    allCharacters: Character[] = [],
+    style: StylePreset = DEFAULT_STYLE_PRESET,
+    context?: PromptContext
+  ): Promise<VideoOperation> {
+    try {
+      const describe = (c: Character) => resolveCharacterPromptDescription(c, c2 => this.getCharacterVisualDescription(c2, { ...context, onPrompt: undefined }));
+
+      // All character descriptions are included for consistency
+      const descriptions = await Promise.all(allCharacters.map(describe));
+      const characterIndex = character ? allCharacters.findIndex(c => c.id === character.id) : -1;
+      const characterVisual = characterIndex >= 0 ? descriptions[characterIndex] : (character ? await describe(character) : '');
+
+      const prompt = buildPrompt('video', {
+        'storyboard.description': storyboardDescription,
+        'storyboard.dialogue': dialogue,
+        'character.name': character?.name,
+        'character.visual': characterVisual,
+        'characters.visual': allCharacters.map((c, i) => `- ${c.name}: ${descriptions[i]}`).join('\n'),
+        'location.name': location?.name,
+        'location.visual': location?.visualDescription,
+        ...frameVariables(context?.aspectRatio),
+        ...styleVariables(style),
+      }, context);
 
       console.log("Generating video with prompt:", prompt);
+      this.reportPrompt(context, 'video', VIDEO_MODEL, prompt);
 
-      // 1. START ASYNC GENERATION (Switch to Regional Vertex AI REST)
-      const apiKey = this.getApiKey();
-      const projectId = this.getProjectId();
-      const endpoint = `https://${this.location}-aiplatform.googleapis.com/v1beta1/projects/${projectId}/locations/${this.location}/publishers/google/models/veo-3.1-generate-preview:generateVideos?key=${apiKey}`;
+      return await this.startVideoOperation({
+        prompt: prompt,
+        config: { aspectRatio: PANEL_ASPECT_RATIOS[context?.aspectRatio || DEFAULT_ASPECT_RATIO].videoAspect }
+      });
+    } catch (error: any) {
+      throw this.toVideoError(error);
+    }
+  }
 
-      const generateResponse = await fetch(endpoint, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({
-          prompt: prompt
-        })
+  // Image-to-video: the panel image is the first frame, an optional second image the last one
+  async startStoryboardAnimation(
+    storyboardDescription: string,
+    dialogue: string,
+    animation: PanelAnimation,
+    style: StylePreset = DEFAULT_STYLE_PRESET,
+    context?: PromptContext
+  ): Promise<VideoOperation> {
+    try {
+      const prompt = buildPrompt('animate', {
+        'storyboard.description': storyboardDescription,
+        'storyboard.dialogue': dialogue,
+        'motion': animation.motionPrompt,
+        'duration': animation.durationSeconds,
+        'frames.last': animation.lastFrameUrl ? 1 : 0,
+        ...styleVariables(style),
+      }, context);
+
+      const [firstFrame, lastFrame] = await Promise.all([
+        fetchMediaAsBase64(animation.firstFrameUrl),
+        animation.lastFrameUrl ? fetchMediaAsBase64(animation.lastFrameUrl) : Promise.resolve(undefined),
+      ]);
+
+      console.log("Animating panel with prompt:", prompt);
+      this.reportPrompt(context, 'animate', VIDEO_MODEL, prompt, [animation.firstFrameUrl, ...(animation.lastFrameUrl ? [animation.lastFrameUrl] : [])]);
+
+      return await this.startVideoOperation({
+        prompt: prompt,
+        image: { bytesBase64Encoded: firstFrame.data, mimeType: firstFrame.mimeType },
+        ...(lastFrame ? { lastFrame: { bytesBase64Encoded: lastFrame.data, mimeType: lastFrame.mimeType } } : {}),
+        config: {
+          aspectRatio: PANEL_ASPECT_RATIOS[context?.aspectRatio || DEFAULT_ASPECT_RATIO].videoAspect,
+          durationSeconds: animation.durationSeconds,
+        }
       });
+    } catch (error: any) {
+      throw this.toVideoError(error);
+    }
+  }
 
-      if (!generateResponse.ok) {
-        const errData = await generateResponse.json().catch(() => ({}));
-        throw new Error(`Cloud project API Error (${generateResponse.status}): ${errData.error?.message || 'Check your Vertex AI API status in us-central1'}`);
-      }
+  // 1. START ASYNC GENERATION (Switch to Regional Vertex AI REST). Returns a handle that can be persisted.
+  private async startVideoOperation(body: Record<string, unknown>): Promise<VideoOperation> {
+    const apiKey = this.getApiKey();
+    const projectId = this.getProjectId();
+    const endpoint = `https://${this.location}-aiplatform.googleapis.com/v1beta1/projects/${projectId}/locations/${this.location}/publishers/google/models/${VIDEO_MODEL}:generateVideos?key=${apiKey}`;
+
+    const generateResponse = await fetch(endpoint, {
+      method: 'POST',
+      headers: { 'Content-Type': 'application/json' },
+      body: JSON.stringify(body)
+    });
+
+    if (!generateResponse.ok) {
+      const errData = await generateResponse.json().catch(() => ({}));
+      throw new Error(`Cloud project API Error (${generateResponse.status}): ${errData.error?.message || 'Check your Vertex AI API status in us-central1'}`);
+    }
+
+    const generationOp = await generateResponse.json();
+    console.log("[GeminiService] generationOp raw:", generationOp);
+
+    if (!generationOp) {
+      throw new Error("Video generation request returned no data (undefined). Check your API key and permissions.");
+    }
 
-      const generationOp = await generateResponse.json();
-      console.log("[GeminiService] generationOp raw:", generationOp);
+    const operationName = generationOp.name;
+    if (!operationName) {
+      // Log generationOp keys very clearly to understand failure
+      const keys = generationOp ? Object.keys(generationOp).join(', ') : 'null/undefined';
+      console.error("[GeminiService] generationOp does not have a 'name' property. Keys:", keys);
 
-      if (!generationOp) {
-        throw new Error("Video generation request returned no data (undefined). Check your API key and permissions.");
+      // Final attempt to find a name property (sometimes nested)
+      const nestedName = (generationOp as any).operation?.name || (generationOp as any).metadata?.name;
+      if (!nestedName) {
+        throw new Error(`Video generation started but operation name is missing. Response structure: ${keys}`);
       }
 
-      const operationName = generationOp.name;
-      if (!operationName) {
-        // Log generationOp keys very clearly to understand failure
-        const keys = generationOp ? Object.keys(generationOp).join(', ') : 'null/undefined';
-        console.error("[GeminiService] generationOp does not have a 'name' property. Keys:", keys);
+      console.log(`[GeminiService] Found operation name in nested property: ${nestedName}`);
+      (generationOp as any).name = nestedName; // Self-heal for the loop
+    }
 
-        // Final attempt to find a name property (sometimes nested)
-        const nestedName = (generationOp as any).operation?.name || (generationOp as any).metadata?.name;
-        if (!nestedName) {
-          throw new Error(`Video generation started but operation name is missing. Response structure: ${keys}`);
-        }
+    const verifiedOperationName = generationOp.name;
+    console.log(`[GeminiService] Video generation started. Operation: ${verifiedOperationName}`);
 
-        console.log(`[GeminiService] Found operation name in nested property: ${nestedName}`);
-        (generationOp as any).name = nestedName; // Self-heal for the loop
-      }
+    return { provider: this.id, name: verifiedOperationName, startedAt: Date.now() };
+  }
 
-      const verifiedOperationName = generationOp.name;
-      console.log(`[GeminiService] Video generation started. Operation: ${verifiedOperationName}`);
+  // Poll a (possibly resumed) Veo operation until done, then download the clip as a data URI
+  async pollStoryboardVideo(videoOperation: VideoOperation): Promise<string> {
+    try {
+      const apiKey = this.getApiKey();
 
       // 2. POLL FOR COMPLETION (Using Direct REST API for maximum reliability)
+      // The time limit counts from when the operation was started, which may be a previous session.
       let operation: any = null;
-      const startTime = Date.now();
       const MAX_POLL_TIME = 7 * 60 * 1000; // 7 minutes
       const POLL_INTERVAL = 10000; // 10 seconds
 
-      const pollUrl = `https://${this.location}-aiplatform.googleapis.com/v1beta1/${operationName}?key=${apiKey}`;
+      const pollUrl = `https://${this.location}-aiplatform.googleapis.com/v1beta1/${videoOperation.name}?key=${apiKey}`;
 
       console.log(`[GeminiService] Starting REST polling at ${pollUrl}...`);
 
       while (true) {
-        if (Date.now() - startTime > MAX_POLL_TIME) {
-          throw new Error("Video generation timed out (7 minute limit reached).");
-        }
-
         try {
           const resp = await fetch(pollUrl);
           if (!resp.ok) {
@@ -536,6 +550,11 @@ IMPORTANT: Stick strictly to the provided characters and setting. Do NOT invent
           console.warn("[GeminiService] REST Polling failed:", pollError.message);
         }
 
+        // Checked after the first poll so a resumed, already-finished operation is still collected
+        if (Date.now() - videoOperation.startedAt > MAX_POLL_TIME) {
+          throw new Error("Video generation timed out (7 minute limit reached).");
+        }
+
         console.log(`[GeminiService] Waiting ${POLL_INTERVAL / 1000}s before next REST check...`);
         await new Promise(r => setTimeout(r, POLL_INTERVAL));
       }
@@ -593,59 +612,81 @@ IMPORTANT: Stick strictly to the provided characters and setting. Do NOT invent
       throw new Error("No video data or URI found in the generation response.");
 
     } catch (error: any) {
-      console.error("Storyboard video generation failed:", error);
+      throw this.toVideoError(error);
+    }
+  }
 
-      const errorMessage = error.message || String(error);
+  private toVideoError(error: any): Error {
+    console.error("Storyboard video generation failed:", error);
 
-      // Specialize 429 Quota error for better user feedback
-      if (errorMessage.includes("429") || errorMessage.includes("RESOURCE_EXHAUSTED") || errorMessage.toLowerCase().includes("quota")) {
-        throw new Error("VIDEO QUOTA EXCEEDED: Veo 3.1 video generation is highly limited. Please check your Google AI Studio quota or try a smaller project. You may need to enable billing if you are on a free tier.");
-      }
+    const errorMessage = error.message || String(error);
 
-      throw new Error(errorMessage);
+    // Specialize 429 Quota error for better user feedback
+    if (errorMessage.includes("429") || errorMessage.includes("RESOURCE_EXHAUSTED") || errorMessage.toLowerCase().includes("quota")) {
+      return new Error("VIDEO QUOTA EXCEEDED: Veo 3.1 video generation is highly limited. Please check your Google AI Studio quota or try a smaller project. You may need to enable billing if you are on a free tier.");
     }
+
+    return new Error(errorMessage);
   }
 
   // Generate TTS audio (Switch to Regional Vertex AI REST)
-  async generateSpeech(text: string, voiceName: string = 'Puck'): Promise<string> {
-    try {
-      const apiKey = this.getApiKey();
-      const projectId = this.getProjectId();
-      const endpoint = `https://${this.location}-aiplatform.googleapis.com/v1beta1/projects/${projectId}/locations/${this.location}/publishers/google/models/gemini-2.0-flash-exp:streamGenerateContent?key=${apiKey}`;
-
-      const response = await withTimeout(
-        fetch(endpoint, {
-          method: 'POST',
-          headers: { 'Content-Type': 'application/json' },
-          body: JSON.stringify({
-            contents: [{ role: 'user', parts: [{ text }] }],
-            generationConfig: {
-              responseModalities: ["AUDIO"],
-              speechConfig: {
-                voiceConfig: {
-                  prebuiltVoiceConfig: { voiceName }
-                }
-              }
-            }
-          })
-        }),
-        20000,
-        "Audio generation timed out"
-      );
+  // Calls the TTS endpoint and returns the raw 24kHz PCM as base64
+  private async requestSpeechPcm(text: string, speechConfig: any): Promise<string> {
+    const apiKey = this.getApiKey();
+    const projectId = this.getProjectId();
+    const endpoint = `https://${this.location}-aiplatform.googleapis.com/v1beta1/projects/${projectId}/locations/${this.location}/publishers/google/models/${SPEECH_MODEL}:streamGenerateContent?key=${apiKey}`;
 
-      if (!response.ok) {
-        const errData = await response.json().catch(() => ({}));
-        throw new Error(`Speech API Error: ${errData.error?.message || response.statusText}`);
-      }
+    const response = await withTimeout(
+      fetch(endpoint, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({
+          contents: [{ role: 'user', parts: [{ text }] }],
+          generationConfig: {
+            responseModalities: ["AUDIO"],
+            speechConfig
+          }
+        })
+      }),
+      20000,
+      "Audio generation timed out"
+    );
+
+    if (!response.ok) {
+      const errData = await response.json().catch(() => ({}));
+      throw new Error(`Speech API Error: ${errData.error?.message || response.statusText}`);
+    }
 
-      // Vertex stream response comes as an array or newline-delimited JSON
-      const data = await response.json();
-      const part = data[0]?.candidates?.[0]?.content?.parts?.[0] || data.candidates?.[0]?.content?.parts?.[0];
-      const base64Audio = part?.inlineData?.data;
+    // Vertex stream response comes as an array or newline-delimited JSON
+    const data = await response.json();
+    const part = data[0]?.candidates?.[0]?.content?.parts?.[0] || data.candidates?.[0]?.content?.parts?.[0];
+    const base64Audio = part?.inlineData?.data;
 
-      if (!base64Audio) {
-        throw new Error("No audio generated. Check AI safety settings or dialogue content.");
-      }
+    if (!base64Audio) {
+      throw new Error("No audio generated. Check AI safety settings or dialogue content.");
+    }
+    return base64Audio;
+  }
+
+  private toSpeechError(error: any): Error {
+    console.error("Speech generation failed:", error);
+    const errorMessage = error.message || String(error);
+
+    if (errorMessage.includes("403") || errorMessage.toLowerCase().includes("permission") || errorMessage.toLowerCase().includes("api key")) {
+      return new Error("Audio generation is not enabled for this API key yet. Please ensure you are using a key from a region that supports Gemini 2.0 Audio.");
+    }
+
+    return new Error(`Audio generation failed: ${errorMessage}`);
+  }
+
+  async generateSpeech(text: string, voiceName: string = 'Puck', context?: PromptContext): Promise<string> {
+    try {
+      this.reportPrompt(context, undefined, SPEECH_MODEL, text);
+      const base64Audio = await this.requestSpeechPcm(text, {
+        voiceConfig: {
+          prebuiltVoiceConfig: { voiceName }
+        }
+      });
 
       // WRAP RAW PCM IN WAV HEADER
       const wavBase64 = addWavHeader(base64Audio, 24000);
@@ -653,14 +694,63 @@ IMPORTANT: Stick strictly to the provided characters and setting. Do NOT invent
       return `data:audio/wav;base64,${wavBase64}`;
 
     } catch (error: any) {
-      console.error("Speech generation failed:", error);
-      const errorMessage = error.message || String(error);
+      throw this.toSpeechError(error);
+    }
+  }
 
-      if (errorMessage.includes("403") || errorMessage.toLowerCase().includes("permission") || errorMessage.toLowerCase().includes("api key")) {
-        throw new Error("Audio generation is not enabled for this API key yet. Please ensure you are using a key from a region that supports Gemini 2.0 Audio.");
+  /**
+   * Two-voice conversations use a single multi-speaker request (the API supports up to two speakers);
+   * line timings are then estimated from each line's share of the text. Anything else, or a failed
+   * multi-speaker request, is rendered line by line and joined, which gives exact timings.
+   */
+  async generateConversation(lines: ConversationLine[], context?: PromptContext): Promise<ConversationAudio> {
+    const voices = Array.from(new Set(lines.map(l => l.voiceName)));
+
+    if (voices.length === 2 && lines.length > 1) {
+      try {
+        // Speaker labels must be unique per voice, even if two characters share a name
+        const labels = new Map(voices.map((voice, i) => {
+          const name = lines.find(l => l.voiceName === voice)!.speakerName.replace(/[^\w ]/g, '').trim();
+          return [voice, `${name || 'Speaker'} ${i + 1}`];
+        }));
+
+        const transcript = lines.map(l => `${labels.get(l.voiceName)}: ${l.text}`).join('\n');
+        const prompt = `TTS the following conversation:\n${transcript}`;
+        const pcm = await this.requestSpeechPcm(prompt, {
+          multiSpeakerVoiceConfig: {
+            speakerVoiceConfigs: voices.map(voice => ({
+              speaker: labels.get(voice),
+              voiceConfig: { prebuiltVoiceConfig: { voiceName: voice } }
+            }))
+          }
+        });
+
+        const durationMs = Math.round(atob(pcm).length / 2 / 24000 * 1000);
+        const totalChars = lines.reduce((sum, l) => sum + l.text.length, 0) || 1;
+        let position = 0;
+        const timings = lines.map(l => {
+          const start = position;
+          position += durationMs * l.text.length / totalChars;
+          return { start: Math.round(start), end: Math.round(position) };
+        });
+
+        this.reportPrompt(context, undefined, SPEECH_MODEL, prompt);
+        return { audio: `data:audio/wav;base64,${addWavHeader(pcm, 24000)}`, timings };
+      } catch (error) {
+        console.warn("Multi-speaker speech failed, rendering line by line:", error);
       }
+    }
 
-      throw new Error(`Audio generation failed: ${errorMessage}`);
+    try {
+      const clips: string[] = [];
+      for (const line of lines) {
+        clips.push(await this.requestSpeechPcm(line.text, { voiceConfig: { prebuiltVoiceConfig: { voiceName: line.voiceName } } }));
+      }
+      this.reportPrompt(context, undefined, SPEECH_MODEL, lines.map(l => `[${l.voiceName}] ${l.text}`).join('\n'));
+      const { pcm, timings } = joinPcmClips(clips, 24000);
+      return { audio: `data:audio/wav;base64,${addWavHeader(pcm, 24000)}`, timings };
+    } catch (error: any) {
+      throw this.toSpeechError(error);
     }
   }
 }
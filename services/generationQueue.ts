@@ -0,0 +1,211 @@
+import { GenerationJob, GenerationJobKind, JobConcurrency, DEFAULT_JOB_CONCURRENCY } from '../types';
+import {
+  subscribeToGenerationJobs,
+  saveGenerationJob,
+  updateGenerationJob,
+  claimGenerationJob,
+  requeueExpiredGenerationJob,
+  deleteGenerationJob
+} from './firebase';
+
+// Runs one job. Should throw on failure. `isCancelled` lets long jobs drop their result.
+export type JobExecutor = (job: GenerationJob, isCancelled: () => boolean) => Promise<void>;
+
+// Running jobs hold a lease that their session renews; other sessions (tabs, devices) leave them alone until it expires.
+// Generous, because background tabs throttle timers.
+export const JOB_LEASE_DURATION = 3 * 60 * 1000;
+const JOB_LEASE_RENEWAL = 30 * 1000;
+
+const ACTIVE_STATUSES = ['queued', 'running'];
+const FINISHED_STATUSES = ['completed', 'failed', 'cancelled'];
+
+export const isJobActive = (job: GenerationJob) => ACTIVE_STATUSES.includes(job.status);
+
+/**
+ * Firestore-backed generation queue for a single project.
+ *
+ * Jobs live in `users/{uid}/projects/{projectId}/jobs`, so the queue survives reloads:
+ * a job left "running" by a session that is gone (its lease expired) is put back in the queue.
+ * Jobs are claimed in a transaction, so several open tabs never run the same job twice.
+ * Jobs are started oldest-first, limited per kind by `getConcurrency()`.
+ */
+export class GenerationQueue {
+  private jobs: GenerationJob[] = [];
+  private inFlight = new Map<string, GenerationJobKind>();
+  private unsubscribe: (() => void) | null = null;
+  private hasRecovered = false;
+  private recoveryTimer: ReturnType<typeof setInterval> | null = null;
+  private stopped = false;
+  private sessionId = `${Date.now()}_${Math.random().toString(36).slice(2, 10)}`;
+
+  constructor(
+    private userId: string,
+    private projectId: string,
+    private executor: JobExecutor,
+    private getConcurrency: () => JobConcurrency,
+    private onJobsChange: (jobs: GenerationJob[]) => void
+  ) { }
+
+  start() {
+    this.stopped = false;
+    this.unsubscribe = subscribeToGenerationJobs(this.userId, this.projectId, (jobs) => {
+      this.jobs = jobs;
+      this.onJobsChange(jobs);
+
+      if (!this.hasRecovered) {
+        this.hasRecovered = true;
+        this.recoverOrphanedJobs();
+        return;
+      }
+      this.pump();
+    });
+    // Sessions can disappear at any time (closed tab, crashed device), so keep looking for expired leases
+    this.recoveryTimer = setInterval(() => this.recoverOrphanedJobs(), JOB_LEASE_DURATION / 2);
+  }
+
+  // Stops scheduling new work. Jobs already running finish in the background.
+  stop() {
+    this.stopped = true;
+    if (this.recoveryTimer) {
+      clearInterval(this.recoveryTimer);
+      this.recoveryTimer = null;
+    }
+    if (this.unsubscribe) {
+      this.unsubscribe();
+      this.unsubscribe = null;
+    }
+  }
+
+  async enqueue(storyboardIds: string[], kind: GenerationJobKind): Promise<number> {
+    // Skip storyboards that already have a pending job of this kind
+    const pending = new Set(
+      this.jobs.filter(j => j.kind === kind && (isJobActive(j) || j.status === 'paused')).map(j => j.storyboardId)
+    );
+    const toAdd = storyboardIds.filter(id => !pending.has(id));
+
+    const now = Date.now();
+    await Promise.all(toAdd.map((storyboardId, i) => saveGenerationJob(this.userId, {
+      id: `${now}_${i}_${kind}`,
+      projectId: this.projectId,
+      storyboardId,
+      kind,
+      status: 'queued',
+      attempts: 0,
+      createdAt: now + i, // Preserve storyboard order
+      updatedAt: now,
+    })));
+
+    return toAdd.length;
+  }
+
+  async pause(jobId: string) {
+    const job = this.jobs.find(j => j.id === jobId);
+    if (job?.status !== 'queued') return;
+    await this.update(jobId, { status: 'paused' });
+  }
+
+  async resume(jobId: string) {
+    const job = this.jobs.find(j => j.id === jobId);
+    if (job?.status !== 'paused') return;
+    await this.update(jobId, { status: 'queued' });
+  }
+
+  async pauseAll() {
+    await Promise.all(this.jobs.filter(j => j.status === 'queued').map(j => this.update(j.id, { status: 'paused' })));
+  }
+
+  async resumeAll() {
+    await Promise.all(this.jobs.filter(j => j.status === 'paused').map(j => this.update(j.id, { status: 'queued' })));
+  }
+
+  // Running jobs cannot be aborted mid-request, but their result is discarded
+  async cancel(jobId: string) {
+    const job = this.jobs.find(j => j.id === jobId);
+    if (!job || FINISHED_STATUSES.includes(job.status)) return;
+    await this.update(jobId, { status: 'cancelled' });
+  }
+
+  async retry(jobId: string) {
+    const job = this.jobs.find(j => j.id === jobId);
+    if (!job || (job.status !== 'failed' && job.status !== 'cancelled')) return;
+    await this.update(jobId, { status: 'queued', error: '' });
+  }
+
+  async clearFinished() {
+    await Promise.all(
+      this.jobs.filter(j => FINISHED_STATUSES.includes(j.status)).map(j => deleteGenerationJob(this.userId, this.projectId, j.id))
+    );
+  }
+
+  private async update(jobId: string, updates: Partial<GenerationJob>) {
+    try {
+      await updateGenerationJob(this.userId, this.projectId, jobId, updates);
+    } catch (error) {
+      console.error(`[Queue] Failed to update job ${jobId}:`, error);
+    }
+  }
+
+  // Jobs marked "running" whose lease expired were interrupted (reload, tab closed); jobs of other live sessions are left alone
+  private async recoverOrphanedJobs() {
+    const now = Date.now();
+    const orphans = this.jobs.filter(j => j.status === 'running' && !this.inFlight.has(j.id) && (j.leaseExpiresAt || 0) <= now);
+    if (orphans.length > 0) {
+      console.log(`[Queue] Re-queueing ${orphans.length} interrupted job(s).`);
+      await Promise.all(orphans.map(j => requeueExpiredGenerationJob(this.userId, this.projectId, j.id).catch(error => {
+        console.error(`[Queue] Failed to re-queue job ${j.id}:`, error);
+      })));
+    } else {
+      this.pump();
+    }
+  }
+
+  private pump() {
+    if (this.stopped) return;
+
+    const limits = { ...DEFAULT_JOB_CONCURRENCY, ...this.getConcurrency() };
+
+    for (const job of this.jobs) {
+      if (job.status !== 'queued' || this.inFlight.has(job.id)) continue;
+
+      const runningOfKind = Array.from(this.inFlight.values()).filter(k => k === job.kind).length;
+      if (runningOfKind >= Math.max(1, limits[job.kind])) continue;
+
+      this.run(job);
+    }
+  }
+
+  private async run(job: GenerationJob) {
+    // Reserve the slot synchronously so the next snapshot does not start it twice
+    this.inFlight.set(job.id, job.kind);
+    const isCancelled = () => this.jobs.find(j => j.id === job.id)?.status === 'cancelled';
+
+    let claimed = false;
+    try {
+      claimed = await claimGenerationJob(this.userId, this.projectId, job.id, this.sessionId, Date.now() + JOB_LEASE_DURATION);
+    } catch (error) {
+      console.error(`[Queue] Failed to claim job ${job.id}:`, error);
+    }
+    if (!claimed) {
+      // Another session took it (or it changed meanwhile); the next snapshot shows its new status
+      this.inFlight.delete(job.id);
+      return;
+    }
+
+    const renewal = setInterval(() => this.update(job.id, { leaseExpiresAt: Date.now() + JOB_LEASE_DURATION }), JOB_LEASE_RENEWAL);
+    try {
+      await this.executor(job, isCancelled);
+      if (!isCancelled()) {
+        await this.update(job.id, { status: 'completed', error: '' });
+      }
+    } catch (error) {
+      console.error(`[Queue] Job ${job.id} (${job.kind}) failed:`, error);
+      if (!isCancelled()) {
+        await this.update(job.id, { status: 'failed', error: error instanceof Error ? error.message : String(error) });
+      }
+    } finally {
+      clearInterval(renewal);
+      this.inFlight.delete(job.id);
+      this.pump();
+    }
+  }
+}
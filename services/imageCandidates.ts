@@ -0,0 +1,73 @@
+import { Storyboard, ImageCandidate, PromptRecord } from '../types';
+
+// Per-storyboard image gallery. Every generated (or uploaded) image is kept as a candidate;
+// `Storyboard.imageUrl` is the active one, which playback and every export use.
+
+export const MAX_IMAGE_VARIATIONS = 4;
+// Per storyboard. Candidates (with their prompt records) live in the project document, which Firestore caps at 1 MiB.
+export const MAX_IMAGE_CANDIDATES = 8;
+
+const newId = () => Date.now().toString() + Math.random().toString();
+
+export const createImageCandidate = (url: string, prompt?: PromptRecord): ImageCandidate => ({
+  id: newId(),
+  url,
+  createdAt: Date.now(),
+  ...(prompt ? { prompt } : {}),
+});
+
+// Candidates newest first. Storyboards from before the gallery show their current image as the only one.
+export function getImageCandidates(storyboard: Storyboard): ImageCandidate[] {
+  if (storyboard.imageCandidates) return storyboard.imageCandidates;
+  if (!storyboard.imageUrl) return [];
+  return [{ id: `current:${storyboard.id}`, url: storyboard.imageUrl, createdAt: 0, ...(storyboard.prompts?.image ? { prompt: storyboard.prompts.image } : {}) }];
+}
+
+/**
+ * Adds new candidates at the top of the gallery and makes the first one active.
+ * Beyond MAX_IMAGE_CANDIDATES the oldest candidates are dropped; starred ones are always kept.
+ */
+export function addImageCandidates(storyboard: Storyboard, added: ImageCandidate[]): Pick<Storyboard, 'imageCandidates' | 'imageUrl'> {
+  if (added.length === 0) return { imageCandidates: storyboard.imageCandidates, imageUrl: storyboard.imageUrl };
+
+  const candidates = [...added, ...getImageCandidates(storyboard)];
+  let excess = candidates.length - MAX_IMAGE_CANDIDATES;
+  for (let i = candidates.length - 1; i >= added.length && excess > 0; i--) {
+    if (!candidates[i].starred) {
+      candidates.splice(i, 1);
+      excess--;
+    }
+  }
+  return { imageCandidates: candidates, imageUrl: added[0].url };
+}
+
+// Candidates of `storyboard` that are no longer in `gallery` (e.g. dropped by the cap in addImageCandidates)
+export const getDroppedCandidates = (storyboard: Storyboard, gallery: Pick<Storyboard, 'imageCandidates'>) =>
+  getImageCandidates(storyboard).filter(c => !(gallery.imageCandidates || []).some(kept => kept.id === c.id));
+
+export const setCandidateStarred = (storyboard: Storyboard, candidateId: string, starred: boolean): Pick<Storyboard, 'imageCandidates'> => ({
+  imageCandidates: getImageCandidates(storyboard).map(c => c.id === candidateId ? { ...c, starred } : c),
+});
+
+/**
+ * Removes candidates from the gallery. When the active image goes, the first remaining candidate
+ * (starred ones first) becomes active.
+ */
+export function removeImageCandidates(storyboard: Storyboard, candidateIds: string[]): Pick<Storyboard, 'imageCandidates' | 'imageUrl'> {
+  const removed = new Set(candidateIds);
+  const remaining = getImageCandidates(storyboard).filter(c => !removed.has(c.id));
+  const keepsActive = remaining.some(c => c.url === storyboard.imageUrl);
+  const nextActive = remaining.find(c => c.starred) || remaining[0];
+  return {
+    imageCandidates: remaining,
+    imageUrl: keepsActive ? storyboard.imageUrl : nextActive?.url,
+  };
+}
+
+// Candidates that can be cleared in one go: not starred and not the active image
+export const getRejectedCandidates = (storyboard: Storyboard) =>
+  getImageCandidates(storyboard).filter(c => !c.starred && c.url !== storyboard.imageUrl);
+
+// True when a storyboard (e.g. a duplicate) still shows or keeps the image, so its file must stay in Storage
+export const isImageInUse = (storyboards: Storyboard[], url: string) =>
+  storyboards.some(s => s.imageUrl === url || getImageCandidates(s).some(c => c.url === url));
@@ -0,0 +1,201 @@
+// Shared media helpers: WAV encoding, timeouts, remote media fetching and canvas text.
+
+// Base64 of raw bytes, converted in chunks so large buffers do not overflow the call stack
+export function bytesToBase64(bytes: Uint8Array): string {
+  let binary = '';
+  const chunkSize = 8192;
+  for (let i = 0; i < bytes.length; i += chunkSize) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + chunkSize));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Helper to add a RIFF/WAV header to raw PCM data (16-bit, 24kHz, Mono)
+ * This allows raw data from Gemini to play in standard browser <audio> elements.
+ */
+export function addWavHeader(base64Pcm: string, sampleRate: number = 24000): string {
+  const binaryString = atob(base64Pcm);
+  const dataLen = binaryString.length;
+  const header = new ArrayBuffer(44);
+  const view = new DataView(header);
+
+  const writeString = (offset: number, str: string) => {
+    for (let i = 0; i < str.length; i++) {
+      view.setUint8(offset + i, str.charCodeAt(i));
+    }
+  };
+
+  writeString(0, 'RIFF');
+  view.setUint32(4, 36 + dataLen, true);
+  writeString(8, 'WAVE');
+  writeString(12, 'fmt ');
+  view.setUint32(16, 16, true);
+  view.setUint16(20, 1, true); // PCM format
+  view.setUint16(22, 1, true); // Mono
+  view.setUint32(24, sampleRate, true);
+  view.setUint32(28, sampleRate * 2, true); // Byte rate (SampleRate * 2)
+  view.setUint16(32, 2, true); // Block align (1 channel * 2 bytes)
+  view.setUint16(34, 16, true); // Bits per sample
+  writeString(36, 'data');
+  view.setUint32(40, dataLen, true);
+
+  const headerUint8 = new Uint8Array(header);
+  const dataUint8Array = new Uint8Array(dataLen);
+  for (let i = 0; i < dataLen; i++) {
+    dataUint8Array[i] = binaryString.charCodeAt(i);
+  }
+
+  const combined = new Uint8Array(44 + dataLen);
+  combined.set(headerUint8, 0);
+  combined.set(dataUint8Array, 44);
+
+  return bytesToBase64(combined);
+}
+
+/**
+ * Joins raw 16-bit mono PCM clips (base64) into one, with `gapMs` of silence between clips.
+ * Returns the joined PCM (ready for `addWavHeader`) and each clip's start/end in ms.
+ */
+export function joinPcmClips(clips: string[], sampleRate: number = 24000, gapMs: number = 250): { pcm: string; timings: { start: number; end: number }[] } {
+  const decoded = clips.map(clip => {
+    const binaryString = atob(clip);
+    const bytes = new Uint8Array(binaryString.length);
+    for (let i = 0; i < binaryString.length; i++) bytes[i] = binaryString.charCodeAt(i);
+    return bytes;
+  });
+
+  const gapBytes = Math.round(sampleRate * gapMs / 1000) * 2;
+  const totalBytes = decoded.reduce((sum, bytes) => sum + bytes.length, 0) + gapBytes * Math.max(0, decoded.length - 1);
+  const joined = new Uint8Array(totalBytes); // Zero-filled, so gaps are silence
+  const toMs = (byteOffset: number) => Math.round(byteOffset / 2 / sampleRate * 1000);
+
+  const timings: { start: number; end: number }[] = [];
+  let offset = 0;
+  decoded.forEach((bytes, i) => {
+    joined.set(bytes, offset);
+    timings.push({ start: toMs(offset), end: toMs(offset + bytes.length) });
+    offset += bytes.length + (i < decoded.length - 1 ? gapBytes : 0);
+  });
+
+  return { pcm: bytesToBase64(joined), timings };
+}
+
+// Helper to wrap promises with a timeout
+export function withTimeout<T>(promise: Promise<T>, ms: number, errorMessage: string): Promise<T> {
+  let timeoutId: any;
+  const timeoutPromise = new Promise<T>((_, reject) => {
+    timeoutId = setTimeout(() => reject(new Error(errorMessage)), ms);
+  });
+
+  return Promise.race([
+    promise.then((res) => {
+      clearTimeout(timeoutId);
+      return res;
+    }),
+    timeoutPromise
+  ]);
+}
+
+// Optimized helper to fetch media (image/video) and convert to base64 with mime type
+export async function fetchMediaAsBase64(url: string): Promise<{ mimeType: string; data: string }> {
+  // Optimization: If it's already a data URI, parse it directly
+  if (url.startsWith('data:')) {
+    const commaIndex = url.indexOf(',');
+    const header = url.substring(0, commaIndex);
+    const mimeType = header.match(/:(.*?);/)?.[1] || 'image/png';
+    const data = url.substring(commaIndex + 1);
+    return { mimeType, data };
+  }
+
+  // WRAPPED IN TIMEOUT: Enforce strict 10s limit for media fetching (videos can be larger)
+  return withTimeout((async () => {
+    const controller = new AbortController();
+    const id = setTimeout(() => controller.abort(), 60000);
+
+    try {
+      const response = await fetch(url, {
+        credentials: 'omit',
+        signal: controller.signal
+      });
+      clearTimeout(id);
+
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+
+      const blob = await response.blob();
+
+      return await new Promise<{ mimeType: string; data: string }>((resolve, reject) => {
+        const reader = new FileReader();
+        reader.onloadend = () => {
+          const result = reader.result as string;
+          if (!result) {
+            reject(new Error("Empty result"));
+            return;
+          }
+          const commaIndex = result.indexOf(',');
+          if (commaIndex === -1) {
+            reject(new Error("Invalid data"));
+            return;
+          }
+          const header = result.substring(0, commaIndex);
+          const base64 = result.substring(commaIndex + 1);
+          // Trust the blob type first, fallback to header
+          const mimeType = blob.type || header.match(/:(.*?);/)?.[1] || 'image/png';
+          resolve({ mimeType, data: base64 });
+        };
+        reader.onerror = () => reject(new Error("FileReader failed"));
+        reader.readAsDataURL(blob);
+      });
+
+    } catch (error) {
+      clearTimeout(id);
+      console.warn("Media fetch failed. If this is a CORS error, you may need to configure your storage bucket.", error);
+      throw error;
+    }
+  })(), 60000, "Media fetch timed out (60s). File might be too large or connection too slow.");
+}
+
+// Loads an image through a data URI, so drawing it does not taint a canvas (Storage URLs are cross-origin)
+export async function loadImage(url: string): Promise<HTMLImageElement> {
+  const { mimeType, data } = await fetchMediaAsBase64(url);
+  const image = new Image();
+  image.src = `data:${mimeType};base64,${data}`;
+  await image.decode();
+  return image;
+}
+
+export const VIDEO_LOAD_TIMEOUT = 30000; // ms for a fetched clip to decode; some files never fire their events
+
+// A frame near the start of a video (e.g. as a still for a video-only storyboard), loaded like `loadImage`
+export async function loadVideoFrame(url: string): Promise<HTMLVideoElement> {
+  const { mimeType, data } = await fetchMediaAsBase64(url);
+  return withTimeout(new Promise<HTMLVideoElement>((resolve, reject) => {
+    const video = document.createElement('video');
+    video.muted = true;
+    video.playsInline = true;
+    video.onloadeddata = () => { video.currentTime = Math.min(0.5, video.duration / 2 || 0); };
+    video.onseeked = () => resolve(video);
+    video.onerror = () => reject(new Error("Video could not be decoded"));
+    video.src = `data:${mimeType};base64,${data}`;
+  }), VIDEO_LOAD_TIMEOUT, "Video frame timed out: the clip could not be decoded.");
+}
+
+// Splits text into lines no wider than `maxWidth` in the context's current font (a long single word stays whole)
+export function wrapText(ctx: CanvasRenderingContext2D, text: string, maxWidth: number): string[] {
+  const words = text.split(/\s+/).filter(Boolean);
+  const lines: string[] = [];
+  let current = '';
+  for (const word of words) {
+    const candidate = current ? `${current} ${word}` : word;
+    if (ctx.measureText(candidate).width > maxWidth && current) {
+      lines.push(current);
+      current = word;
+    } else {
+      current = candidate;
+    }
+  }
+  if (current) lines.push(current);
+  return lines;
+}
@@ -0,0 +1,277 @@
+import { Storyboard, Character, DialogueLine } from '../types';
+import { getAudioClips, getDialogueLines, getDialogueText, getSpeakerName, formatLineText, getTimedLineAt } from './dialogue';
+import { hasBalloons, drawBalloons, loadBalloonFonts } from './balloons';
+import { wrapText, withTimeout, VIDEO_LOAD_TIMEOUT } from './mediaUtils';
+
+// In-browser motion comic renderer: draws each storyboard on a canvas, mixes its audio
+// through Web Audio and records both with MediaRecorder. Rendering runs in real time.
+
+export interface MovieFormat {
+  mimeType: string;
+  extension: 'mp4' | 'webm';
+}
+
+export interface MovieExportOptions {
+  width: number;
+  height: number;
+  storyboardDelay: number; // ms shown for storyboards without audio
+  burnCaptions: boolean;
+  format: MovieFormat;
+}
+
+export interface MovieExportProgress {
+  index: number; // Storyboard being rendered (0-based)
+  total: number;
+  phase: 'loading' | 'rendering' | 'finalizing';
+}
+
+const FPS = 30;
+const AUDIO_TAIL = 300; // ms of silence after each spoken line, like a natural pause
+
+const FORMAT_CANDIDATES: MovieFormat[] = [
+  { mimeType: 'video/mp4;codecs=avc1.42E01E,mp4a.40.2', extension: 'mp4' },
+  { mimeType: 'video/mp4', extension: 'mp4' },
+  { mimeType: 'video/webm;codecs=vp9,opus', extension: 'webm' },
+  { mimeType: 'video/webm;codecs=vp8,opus', extension: 'webm' },
+  { mimeType: 'video/webm', extension: 'webm' },
+];
+
+// Formats this browser can record, best first (MP4 where available, e.g. Safari and recent Chrome)
+export function getSupportedMovieFormats(): MovieFormat[] {
+  if (typeof MediaRecorder === 'undefined') return [];
+  const supported = FORMAT_CANDIDATES.filter(f => MediaRecorder.isTypeSupported(f.mimeType));
+  // Keep one entry per container
+  return supported.filter((f, i) => supported.findIndex(o => o.extension === f.extension) === i);
+}
+
+interface LoadedStoryboard {
+  visual: HTMLImageElement | HTMLVideoElement | null;
+  clips: { buffer: AudioBuffer; line?: DialogueLine }[]; // Played back to back; `line` is set for per-line clips
+  objectUrls: string[];
+}
+
+const delay = (ms: number) => new Promise(r => setTimeout(r, ms));
+
+// Fetching into blob URLs keeps the canvas untainted (Storage URLs are cross-origin)
+async function fetchAsObjectUrl(url: string): Promise<string> {
+  const response = await fetch(url, { credentials: 'omit' });
+  if (!response.ok) throw new Error(`HTTP ${response.status}`);
+  return URL.createObjectURL(await response.blob());
+}
+
+async function loadStoryboard(storyboard: Storyboard, audioContext: AudioContext): Promise<LoadedStoryboard> {
+  const loaded: LoadedStoryboard = { visual: null, clips: [], objectUrls: [] };
+
+  try {
+    if (storyboard.videoUrl) {
+      const src = await fetchAsObjectUrl(storyboard.videoUrl);
+      loaded.objectUrls.push(src);
+      const video = document.createElement('video');
+      video.muted = true;
+      video.loop = true;
+      video.playsInline = true;
+      video.src = src;
+      await withTimeout(new Promise<void>((resolve, reject) => {
+        video.onloadeddata = () => resolve();
+        video.onerror = () => reject(new Error("Video could not be decoded"));
+      }), VIDEO_LOAD_TIMEOUT, "Video timed out: the clip could not be decoded.");
+      loaded.visual = video;
+    } else if (storyboard.imageUrl) {
+      const src = await fetchAsObjectUrl(storyboard.imageUrl);
+      loaded.objectUrls.push(src);
+      const image = new Image();
+      image.src = src;
+      await image.decode();
+      loaded.visual = image;
+    }
+  } catch (error) {
+    console.warn(`[MovieExport] Visual for storyboard ${storyboard.id} could not be loaded. If this is a CORS error, configure your storage bucket (see cors.json).`, error);
+  }
+
+  const clipLines = storyboard.audioUrl ? [] : getDialogueLines(storyboard).filter(l => l.audioUrl);
+  const clipUrls = getAudioClips(storyboard);
+  for (let c = 0; c < clipUrls.length; c++) {
+    try {
+      const response = await fetch(clipUrls[c], { credentials: 'omit' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      loaded.clips.push({ buffer: await audioContext.decodeAudioData(await response.arrayBuffer()), line: clipLines[c] });
+    } catch (error) {
+      console.warn(`[MovieExport] Audio for storyboard ${storyboard.id} could not be loaded.`, error);
+    }
+  }
+
+  return loaded;
+}
+
+// Letterboxes the visual (object-fit: contain), matching the Studio preview. Returns where the art landed.
+function drawVisual(ctx: CanvasRenderingContext2D, visual: HTMLImageElement | HTMLVideoElement | null) {
+  const { width, height } = ctx.canvas;
+  ctx.fillStyle = '#000';
+  ctx.fillRect(0, 0, width, height);
+  if (!visual) return null;
+
+  const sourceWidth = visual instanceof HTMLVideoElement ? visual.videoWidth : visual.naturalWidth;
+  const sourceHeight = visual instanceof HTMLVideoElement ? visual.videoHeight : visual.naturalHeight;
+  if (!sourceWidth || !sourceHeight) return null;
+
+  const scale = Math.min(width / sourceWidth, height / sourceHeight);
+  const drawWidth = sourceWidth * scale;
+  const drawHeight = sourceHeight * scale;
+  const rect = { x: (width - drawWidth) / 2, y: (height - drawHeight) / 2, width: drawWidth, height: drawHeight };
+  ctx.drawImage(visual, rect.x, rect.y, rect.width, rect.height);
+  return rect;
+}
+
+function drawCaption(ctx: CanvasRenderingContext2D, dialogue: string, speakerName?: string) {
+  if (!dialogue) return;
+  const { width, height } = ctx.canvas;
+  const fontSize = Math.round(height / 24);
+  const lineHeight = fontSize * 1.3;
+
+  ctx.font = `${fontSize}px sans-serif`;
+  const lines = dialogue.split('\n').flatMap(paragraph => wrapText(ctx, paragraph, width * 0.85)).slice(0, 4);
+  const blockHeight = lines.length * lineHeight + (speakerName ? lineHeight : 0) + fontSize * 2;
+
+  const gradient = ctx.createLinearGradient(0, height - blockHeight * 1.5, 0, height);
+  gradient.addColorStop(0, 'rgba(0, 0, 0, 0)');
+  gradient.addColorStop(1, 'rgba(0, 0, 0, 0.9)');
+  ctx.fillStyle = gradient;
+  ctx.fillRect(0, height - blockHeight * 1.5, width, blockHeight * 1.5);
+
+  ctx.textAlign = 'center';
+  const y = height - fontSize - (lines.length - 1) * lineHeight;
+
+  if (speakerName) {
+    ctx.font = `bold ${Math.round(fontSize * 0.8)}px sans-serif`;
+    ctx.fillStyle = '#22d3ee';
+    ctx.fillText(speakerName, width / 2, y - lineHeight);
+  }
+
+  ctx.font = `${fontSize}px sans-serif`;
+  ctx.fillStyle = '#fff';
+  lines.forEach((line, i) => ctx.fillText(line, width / 2, y + i * lineHeight));
+  ctx.textAlign = 'start';
+}
+
+/**
+ * Renders the storyboards into a single video file.
+ * Each storyboard lasts as long as its audio clips played back to back (plus a short pause), or
+ * `storyboardDelay` when silent, exactly like "Play Movie". Captions follow the line being spoken.
+ * Videos loop muted for that duration. The recorder is paused while
+ * the next storyboard's media loads, so loading time never ends up in the output.
+ */
+export async function renderMotionComic(
+  storyboards: Storyboard[],
+  characters: Character[],
+  options: MovieExportOptions,
+  onProgress?: (progress: MovieExportProgress) => void,
+  isCancelled: () => boolean = () => false
+): Promise<Blob> {
+  if (storyboards.length === 0) throw new Error("Nothing to export: the project has no storyboards.");
+  if (typeof MediaRecorder === 'undefined') throw new Error("Video export is not supported in this browser.");
+
+  const canvas = document.createElement('canvas');
+  canvas.width = options.width;
+  canvas.height = options.height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context unavailable");
+
+  const audioContext = new AudioContext();
+  await audioContext.resume();
+  const audioDestination = audioContext.createMediaStreamDestination();
+  const canvasStream = canvas.captureStream(FPS);
+  const stream = new MediaStream([...canvasStream.getVideoTracks(), ...audioDestination.stream.getAudioTracks()]);
+
+  const recorder = new MediaRecorder(stream, { mimeType: options.format.mimeType, videoBitsPerSecond: 8_000_000 });
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+  const stopped = new Promise<void>((resolve) => { recorder.onstop = () => resolve(); });
+
+  drawVisual(ctx, null);
+  await loadBalloonFonts();
+  let next = loadStoryboard(storyboards[0], audioContext);
+
+  try {
+    for (let i = 0; i < storyboards.length; i++) {
+      if (isCancelled()) break;
+      const storyboard = storyboards[i];
+
+      onProgress?.({ index: i, total: storyboards.length, phase: 'loading' });
+      if (recorder.state === 'recording') recorder.pause();
+      const loaded = await next;
+      // Prefetch the following storyboard while this one renders
+      next = i + 1 < storyboards.length ? loadStoryboard(storyboards[i + 1], audioContext) : Promise.resolve({ visual: null, clips: [], objectUrls: [] });
+
+      try {
+        if (isCancelled()) break;
+        onProgress?.({ index: i, total: storyboards.length, phase: 'rendering' });
+
+        const clipEnds: number[] = []; // ms from the start of the storyboard
+        let audioEnd = 0;
+        loaded.clips.forEach(clip => {
+          audioEnd += clip.buffer.duration * 1000;
+          clipEnds.push(audioEnd);
+        });
+        const duration = loaded.clips.length > 0 ? audioEnd + AUDIO_TAIL : (options.storyboardDelay || 2000);
+
+        // Lettered storyboards always show their balloons instead of captions. Otherwise per-line clips
+        // show their own line, a timed conversation track the line being spoken, and anything else
+        // (untimed track or silent) the whole dialogue
+        const fullCaption = getDialogueText(storyboard, characters);
+        const drawFrame = (elapsed: number) => {
+          const artRect = drawVisual(ctx, loaded.visual);
+          if (hasBalloons(storyboard)) {
+            drawBalloons(ctx, storyboard.overlays!, artRect || { x: 0, y: 0, width: canvas.width, height: canvas.height });
+            return;
+          }
+          if (!options.burnCaptions) return;
+          const clipIndex = clipEnds.findIndex(end => elapsed < end);
+          const line = loaded.clips[clipIndex < 0 ? loaded.clips.length - 1 : clipIndex]?.line || getTimedLineAt(storyboard, elapsed);
+          if (line) drawCaption(ctx, formatLineText(line), getSpeakerName(line, characters));
+          else drawCaption(ctx, fullCaption.text, fullCaption.speakerName);
+        };
+
+        if (loaded.visual instanceof HTMLVideoElement) {
+          loaded.visual.currentTime = 0;
+          await loaded.visual.play().catch(() => undefined);
+        }
+        drawFrame(0);
+
+        if (recorder.state === 'inactive') recorder.start(1000);
+        else if (recorder.state === 'paused') recorder.resume();
+
+        let when = audioContext.currentTime;
+        loaded.clips.forEach(clip => {
+          const source = audioContext.createBufferSource();
+          source.buffer = clip.buffer;
+          source.connect(audioDestination);
+          source.start(when);
+          when += clip.buffer.duration;
+        });
+
+        const start = performance.now();
+        while (performance.now() - start < duration && !isCancelled()) {
+          drawFrame(performance.now() - start);
+          await delay(1000 / FPS);
+        }
+
+        if (loaded.visual instanceof HTMLVideoElement) loaded.visual.pause();
+      } finally {
+        loaded.objectUrls.forEach(url => URL.revokeObjectURL(url));
+      }
+    }
+
+    onProgress?.({ index: storyboards.length - 1, total: storyboards.length, phase: 'finalizing' });
+    if (recorder.state !== 'inactive') {
+      recorder.stop();
+      await stopped;
+    }
+  } finally {
+    next.then(loaded => loaded.objectUrls.forEach(url => URL.revokeObjectURL(url))).catch(() => undefined);
+    stream.getTracks().forEach(t => t.stop());
+    audioContext.close();
+  }
+
+  if (isCancelled()) throw new Error("Export cancelled.");
+  return new Blob(chunks, { type: options.format.mimeType.split(';')[0] });
+}
@@ -0,0 +1,218 @@
+import { jsPDF } from 'jspdf';
+import { Storyboard, Character } from '../types';
+import { loadImage, loadVideoFrame } from './mediaUtils';
+import { getDialogueText } from './dialogue';
+import { hasBalloons, drawBalloons, loadBalloonFonts } from './balloons';
+
+// Print-ready PDF exporter: lays storyboards out into comic pages and letters their dialogue.
+// All measurements are in points (1 in = 72 pt).
+
+const POINTS_PER_INCH = 72;
+const PRINT_DPI = 200; // Panel art is resampled to this resolution to keep files reasonably small
+const GUTTER = 0.125 * POINTS_PER_INCH;
+
+export type PdfPageSizeId = 'us-comic' | 'a4' | 'square';
+export type PdfLayoutId = '2x2' | '3-tier' | 'splash';
+export type PdfDialogueStyle = 'balloon' | 'caption';
+
+export const PDF_PAGE_SIZES: { id: PdfPageSizeId; label: string; width: number; height: number }[] = [
+  { id: 'us-comic', label: 'US Comic (6.625 × 10.25 in)', width: 6.625, height: 10.25 },
+  { id: 'a4', label: 'A4 (210 × 297 mm)', width: 8.27, height: 11.69 },
+  { id: 'square', label: 'Square (8 × 8 in)', width: 8, height: 8 },
+];
+
+export const PDF_LAYOUTS: { id: PdfLayoutId; label: string; perPage: number }[] = [
+  { id: '2x2', label: '2×2 Grid', perPage: 4 },
+  { id: '3-tier', label: '3-Tier', perPage: 3 },
+  { id: 'splash', label: 'Splash Page', perPage: 1 },
+];
+
+export interface PdfExportOptions {
+  title: string;
+  pageSize: PdfPageSizeId;
+  layout: PdfLayoutId;
+  dialogueStyle: PdfDialogueStyle;
+  bleed: number; // inches added around the trim size
+  margin: number; // inches of safe area inside the trim
+}
+
+interface Rect {
+  x: number;
+  y: number;
+  w: number;
+  h: number;
+}
+
+// Panel slots for one page, inside the live area
+function getLayoutSlots(layout: PdfLayoutId, area: Rect): Rect[] {
+  if (layout === 'splash') return [area];
+
+  if (layout === '3-tier') {
+    const h = (area.h - GUTTER * 2) / 3;
+    return [0, 1, 2].map(i => ({ x: area.x, y: area.y + i * (h + GUTTER), w: area.w, h }));
+  }
+
+  const w = (area.w - GUTTER) / 2;
+  const h = (area.h - GUTTER) / 2;
+  return [0, 1, 2, 3].map(i => ({
+    x: area.x + (i % 2) * (w + GUTTER),
+    y: area.y + Math.floor(i / 2) * (h + GUTTER),
+    w,
+    h,
+  }));
+}
+
+// Crops the storyboard art to the slot (object-fit: cover), letters its balloons and returns a JPEG data URI.
+// Video storyboards without a still use a frame from their clip.
+async function renderPanelArt(storyboard: Storyboard, slot: Rect): Promise<string | null> {
+  const sourceUrl = storyboard.imageUrl || storyboard.videoUrl;
+  if (!sourceUrl) return null;
+
+  try {
+    const source = storyboard.imageUrl ? await loadImage(sourceUrl) : await loadVideoFrame(sourceUrl);
+    const sourceWidth = source instanceof HTMLVideoElement ? source.videoWidth : source.naturalWidth;
+    const sourceHeight = source instanceof HTMLVideoElement ? source.videoHeight : source.naturalHeight;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.round(slot.w / POINTS_PER_INCH * PRINT_DPI);
+    canvas.height = Math.round(slot.h / POINTS_PER_INCH * PRINT_DPI);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) return null;
+
+    const scale = Math.max(canvas.width / sourceWidth, canvas.height / sourceHeight);
+    const drawWidth = sourceWidth * scale;
+    const drawHeight = sourceHeight * scale;
+    const artRect = { x: (canvas.width - drawWidth) / 2, y: (canvas.height - drawHeight) / 2, width: drawWidth, height: drawHeight };
+    ctx.drawImage(source, artRect.x, artRect.y, artRect.width, artRect.height);
+    if (hasBalloons(storyboard)) drawBalloons(ctx, storyboard.overlays!, artRect);
+
+    return canvas.toDataURL('image/jpeg', 0.9);
+  } catch (error) {
+    console.warn(`[PdfExport] Art for storyboard ${storyboard.id} could not be loaded. If this is a CORS error, configure your storage bucket (see cors.json).`, error);
+    return null;
+  }
+}
+
+function drawPlaceholder(doc: jsPDF, slot: Rect, index: number) {
+  doc.setFillColor(226, 232, 240);
+  doc.rect(slot.x, slot.y, slot.w, slot.h, 'F');
+  doc.setTextColor(100, 116, 139);
+  doc.setFont('helvetica', 'bold');
+  doc.setFontSize(10);
+  doc.text(`STORYBOARD ${index + 1}`, slot.x + slot.w / 2, slot.y + slot.h / 2, { align: 'center', baseline: 'middle' });
+}
+
+// Speech balloon (character lines) or caption box (narration, or when captions are preferred)
+function drawDialogue(doc: jsPDF, slot: Rect, dialogue: string, speakerName: string | undefined, style: PdfDialogueStyle) {
+  if (!dialogue.trim()) return;
+
+  const fontSize = Math.max(7, Math.min(12, slot.w / 36));
+  const lineHeight = fontSize * 1.2;
+  const padding = fontSize * 0.8;
+  const maxWidth = slot.w * (style === 'balloon' && speakerName ? 0.7 : 0.85);
+
+  doc.setFont('helvetica', 'normal');
+  doc.setFontSize(fontSize);
+  const lines: string[] = doc.splitTextToSize(dialogue, maxWidth - padding * 2);
+  const nameHeight = speakerName ? lineHeight : 0;
+  const textWidth = Math.max(...lines.map(line => doc.getTextWidth(line)), speakerName ? doc.getTextWidth(speakerName) : 0);
+  const boxWidth = Math.min(maxWidth, textWidth + padding * 2);
+  const boxHeight = Math.min(slot.h * 0.6, lines.length * lineHeight + nameHeight + padding * 2);
+
+  const inset = fontSize * 0.6;
+  const boxX = slot.x + inset;
+  const boxY = slot.y + inset;
+
+  doc.setDrawColor(0, 0, 0);
+  doc.setLineWidth(0.75);
+
+  if (style === 'balloon' && speakerName) {
+    doc.setFillColor(255, 255, 255);
+    doc.roundedRect(boxX, boxY, boxWidth, boxHeight, boxHeight / 3, boxHeight / 3, 'FD');
+    // Tail pointing down into the panel
+    const tailX = boxX + boxWidth * 0.3;
+    doc.triangle(tailX, boxY + boxHeight - 1, tailX + fontSize * 1.2, boxY + boxHeight - 1, tailX - fontSize * 0.2, boxY + boxHeight + fontSize * 1.4, 'F');
+    doc.line(tailX, boxY + boxHeight, tailX - fontSize * 0.2, boxY + boxHeight + fontSize * 1.4);
+    doc.line(tailX + fontSize * 1.2, boxY + boxHeight, tailX - fontSize * 0.2, boxY + boxHeight + fontSize * 1.4);
+  } else {
+    doc.setFillColor(254, 243, 199);
+    doc.rect(boxX, boxY, boxWidth, boxHeight, 'FD');
+  }
+
+  let textY = boxY + padding;
+  doc.setTextColor(0, 0, 0);
+
+  if (speakerName) {
+    doc.setFont('helvetica', 'bold');
+    doc.setFontSize(fontSize * 0.85);
+    doc.text(speakerName.toUpperCase(), boxX + padding, textY, { baseline: 'top' });
+    textY += nameHeight;
+    doc.setFont('helvetica', 'normal');
+    doc.setFontSize(fontSize);
+  }
+
+  const visibleLines = lines.slice(0, Math.max(1, Math.floor((boxHeight - nameHeight - padding * 2) / lineHeight)));
+  doc.text(visibleLines, boxX + padding, textY, { baseline: 'top', lineHeightFactor: 1.2 });
+}
+
+/**
+ * Builds the PDF in storyboard order.
+ * The page is trim size plus bleed on every side; panels sit inside the safe margin.
+ * A splash page with bleed runs its art to the bleed edge, as full-page art does in print.
+ */
+export async function renderComicPdf(
+  storyboards: Storyboard[],
+  characters: Character[],
+  options: PdfExportOptions,
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  if (storyboards.length === 0) throw new Error("Nothing to export: the project has no storyboards.");
+
+  const size = PDF_PAGE_SIZES.find(s => s.id === options.pageSize) || PDF_PAGE_SIZES[0];
+  const layout = PDF_LAYOUTS.find(l => l.id === options.layout) || PDF_LAYOUTS[0];
+  const bleed = Math.max(0, options.bleed) * POINTS_PER_INCH;
+  const margin = Math.max(0, options.margin) * POINTS_PER_INCH;
+  const pageWidth = size.width * POINTS_PER_INCH + bleed * 2;
+  const pageHeight = size.height * POINTS_PER_INCH + bleed * 2;
+
+  await loadBalloonFonts();
+  const doc = new jsPDF({ unit: 'pt', format: [pageWidth, pageHeight], orientation: pageWidth > pageHeight ? 'landscape' : 'portrait' });
+  doc.setProperties({ title: options.title, creator: 'Stryp Comic Studio' });
+
+  const liveArea: Rect = { x: bleed + margin, y: bleed + margin, w: pageWidth - (bleed + margin) * 2, h: pageHeight - (bleed + margin) * 2 };
+  const isFullBleed = layout.id === 'splash' && bleed > 0;
+  const slots = isFullBleed ? [{ x: 0, y: 0, w: pageWidth, h: pageHeight }] : getLayoutSlots(layout.id, liveArea);
+
+  for (let i = 0; i < storyboards.length; i++) {
+    const slotIndex = i % layout.perPage;
+    if (i > 0 && slotIndex === 0) doc.addPage([pageWidth, pageHeight]);
+
+    const storyboard = storyboards[i];
+    const slot = slots[slotIndex];
+    const art = await renderPanelArt(storyboard, slot);
+
+    if (art) {
+      doc.addImage(art, 'JPEG', slot.x, slot.y, slot.w, slot.h);
+    } else {
+      drawPlaceholder(doc, slot, i);
+    }
+
+    if (!isFullBleed) {
+      doc.setDrawColor(0, 0, 0);
+      doc.setLineWidth(1.5);
+      doc.rect(slot.x, slot.y, slot.w, slot.h, 'S');
+    }
+
+    // Balloons placed in the lettering editor are part of the art; otherwise letter the dialogue,
+    // keeping it inside the safe area even when the art bleeds
+    if (!art || !hasBalloons(storyboard)) {
+      const letteringArea = isFullBleed ? liveArea : slot;
+      const { text, speakerName } = getDialogueText(storyboard, characters);
+      drawDialogue(doc, letteringArea, text, speakerName, options.dialogueStyle);
+    }
+
+    onProgress?.(i + 1, storyboards.length);
+  }
+
+  return doc.output('blob');
+}
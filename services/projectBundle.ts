@@ -0,0 +1,324 @@
+import JSZip from 'jszip';
+import { Project, Character, Location, Storyboard, DialogueLine, ImageCandidate, AudioClipEdit, ProjectBundleManifest } from '../types';
+import {
+  saveProjectToFirestore,
+  saveCharacterToFirestore,
+  saveLocationToFirestore,
+  uploadStoryboardImageFromFile,
+  uploadStoryboardVideoFromString,
+  uploadStoryboardAudio,
+  uploadCharacterImage,
+  uploadLocationMedia
+} from './firebase';
+import { getReferenceImagesHash, hasCurrentVisualDescription } from './characterDescriptions';
+
+// Portable project bundles: a zip with manifest.json plus every referenced media file.
+// Used for backups, moving projects between accounts and sharing templates.
+
+export const PROJECT_BUNDLE_FORMAT = 'stryp-project-bundle';
+export const PROJECT_BUNDLE_VERSION = 1;
+export const PROJECT_BUNDLE_EXTENSION = '.stryp.zip';
+
+const MANIFEST_FILE = 'manifest.json';
+
+const EXTENSIONS: Record<string, string> = {
+  'image/png': 'png',
+  'image/jpeg': 'jpg',
+  'image/webp': 'webp',
+  'image/gif': 'gif',
+  'video/mp4': 'mp4',
+  'video/webm': 'webm',
+  'video/quicktime': 'mov',
+  'audio/wav': 'wav',
+  'audio/x-wav': 'wav',
+  'audio/webm': 'webm',
+  'audio/mpeg': 'mp3',
+  'audio/ogg': 'ogg',
+};
+
+const MIME_TYPES: Record<string, string> = {
+  png: 'image/png',
+  jpg: 'image/jpeg',
+  webp: 'image/webp',
+  gif: 'image/gif',
+  mp4: 'video/mp4',
+  webm: 'video/webm',
+  mov: 'video/quicktime',
+  wav: 'audio/wav',
+  mp3: 'audio/mpeg',
+  ogg: 'audio/ogg',
+};
+
+const isBundlePath = (value?: string) => !!value && value.startsWith('media/');
+
+const newId = () => Date.now().toString() + Math.random().toString().slice(2, 8);
+
+const blobToDataUri = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onloadend = () => resolve(reader.result as string);
+  reader.onerror = () => reject(new Error("FileReader failed"));
+  reader.readAsDataURL(blob);
+});
+
+/**
+ * Zips the project with its characters, locations and media.
+ * Media is fetched once per URL and stored under `media/`; the manifest points at those paths.
+ * Transient state (generation flags, pending video operations) is not exported.
+ */
+export async function buildProjectBundle(
+  project: Project,
+  characters: Character[],
+  locations: Location[],
+  onProgress?: (done: number, total: number) => void
+): Promise<Blob> {
+  const zip = new JSZip();
+  const mediaPaths = new Map<string, string>();
+  const urls: string[] = [];
+
+  const collect = (url?: string) => {
+    if (url && !mediaPaths.has(url)) {
+      mediaPaths.set(url, '');
+      urls.push(url);
+    }
+  };
+
+  const storyboards = project.storyboards || [];
+  storyboards.forEach(s => {
+    collect(s.imageUrl); collect(s.videoUrl); collect(s.audioUrl); collect(s.audioEdit?.originalUrl);
+    (s.lines || []).forEach(l => { collect(l.audioUrl); collect(l.audioEdit?.originalUrl); });
+    (s.imageCandidates || []).forEach(c => collect(c.url));
+  });
+  characters.forEach(c => { collect(c.imageUrl); collect(c.imageUrl2); });
+  locations.forEach(l => { collect(l.mediaUrl); (l.media || []).forEach(m => collect(m.url)); });
+
+  for (let i = 0; i < urls.length; i++) {
+    const url = urls[i];
+    try {
+      const response = await fetch(url, { credentials: 'omit' });
+      if (!response.ok) throw new Error(`HTTP ${response.status}`);
+      const blob = await response.blob();
+      const path = `media/${i}.${EXTENSIONS[blob.type.split(';')[0]] || 'bin'}`;
+      zip.file(path, blob);
+      mediaPaths.set(url, path);
+    } catch (error) {
+      // Keep the original URL so the bundle still works while the source is reachable
+      console.warn(`[Bundle] Could not fetch ${url}. If this is a CORS error, configure your storage bucket (see cors.json).`, error);
+      mediaPaths.set(url, url);
+    }
+    onProgress?.(i + 1, urls.length);
+  }
+
+  const mapUrl = (url?: string) => (url ? mediaPaths.get(url) || url : url);
+  const mapAudioEdit = (edit?: AudioClipEdit) => (edit ? { ...edit, originalUrl: mapUrl(edit.originalUrl)! } : edit);
+
+  const manifest: ProjectBundleManifest = {
+    format: PROJECT_BUNDLE_FORMAT,
+    version: PROJECT_BUNDLE_VERSION,
+    exportedAt: Date.now(),
+    project: {
+      ...project,
+      storyboards: storyboards.map(({ pendingVideoOperation, ...s }) => ({
+        ...s,
+        imageUrl: mapUrl(s.imageUrl),
+        videoUrl: mapUrl(s.videoUrl),
+        audioUrl: mapUrl(s.audioUrl),
+        audioEdit: mapAudioEdit(s.audioEdit),
+        lines: s.lines?.map(l => ({ ...l, audioUrl: mapUrl(l.audioUrl), audioEdit: mapAudioEdit(l.audioEdit) })),
+        imageCandidates: s.imageCandidates?.map(c => ({ ...c, url: mapUrl(c.url) || '' })),
+        isGeneratingImage: false,
+        isGeneratingVideo: false,
+        isGeneratingAudio: false,
+      })),
+    },
+    // Only current visual descriptions travel; the importer re-keys them to the re-uploaded images
+    characters: characters.map(c => ({
+      ...c,
+      imageUrl: mapUrl(c.imageUrl) || '',
+      imageUrl2: mapUrl(c.imageUrl2),
+      visualDescription: hasCurrentVisualDescription(c) ? c.visualDescription : undefined,
+      visualDescriptionHash: undefined,
+    })),
+    locations: locations.map(l => ({
+      ...l,
+      mediaUrl: mapUrl(l.mediaUrl),
+      media: (l.media || []).map(m => ({ ...m, url: mapUrl(m.url) || '' })),
+    })),
+  };
+
+  zip.file(MANIFEST_FILE, JSON.stringify(manifest, null, 2));
+  return zip.generateAsync({ type: 'blob', compression: 'DEFLATE' });
+}
+
+// True when the zip is a project bundle rather than a plain comic archive
+export async function isProjectBundle(file: File): Promise<boolean> {
+  try {
+    const zip = await JSZip.loadAsync(file);
+    return !!zip.file(MANIFEST_FILE);
+  } catch {
+    return false;
+  }
+}
+
+/**
+ * Imports a bundle into the user's account as a new project.
+ * Every record gets a fresh id (so a bundle can be imported twice, e.g. as a template),
+ * references between them are remapped, and media is re-uploaded through the regular Storage helpers.
+ * Returns the new project.
+ */
+export async function importProjectBundle(
+  userId: string,
+  file: File,
+  onProgress?: (message: string) => void
+): Promise<Project> {
+  const zip = await JSZip.loadAsync(file);
+  const manifestFile = zip.file(MANIFEST_FILE);
+  if (!manifestFile) throw new Error("Not a project bundle: manifest.json is missing.");
+
+  const manifest = JSON.parse(await manifestFile.async('string')) as ProjectBundleManifest;
+  if (manifest.format !== PROJECT_BUNDLE_FORMAT) throw new Error("Not a project bundle: unknown format.");
+  if (manifest.version > PROJECT_BUNDLE_VERSION) {
+    throw new Error(`This bundle was created by a newer version (v${manifest.version}). Please update the app.`);
+  }
+
+  const mediaCount = new Set<string>();
+  const countMedia = (url?: string) => { if (isBundlePath(url)) mediaCount.add(url!); };
+  manifest.project.storyboards.forEach(s => {
+    countMedia(s.imageUrl); countMedia(s.videoUrl); countMedia(s.audioUrl); countMedia(s.audioEdit?.originalUrl);
+    (s.lines || []).forEach(l => { countMedia(l.audioUrl); countMedia(l.audioEdit?.originalUrl); });
+    (s.imageCandidates || []).forEach(c => countMedia(c.url));
+  });
+  manifest.characters.forEach(c => { countMedia(c.imageUrl); countMedia(c.imageUrl2); });
+  manifest.locations.forEach(l => { countMedia(l.mediaUrl); (l.media || []).forEach(m => countMedia(m.url)); });
+
+  // The same file may be referenced by several records; upload it once per upload helper
+  const uploaded = new Map<string, string>();
+  let uploadedCount = 0;
+
+  const reupload = async (path: string | undefined, upload: (file: File) => Promise<string>, kind: string): Promise<string | undefined> => {
+    if (!path || !isBundlePath(path)) return path;
+
+    const cacheKey = `${kind}:${path}`;
+    const cached = uploaded.get(cacheKey);
+    if (cached) return cached;
+
+    const entry = zip.file(path);
+    if (!entry) {
+      console.warn(`[Bundle] Missing media file ${path}, skipping.`);
+      return undefined;
+    }
+
+    uploadedCount++;
+    onProgress?.(`Uploading media ${Math.min(uploadedCount, mediaCount.size)} of ${mediaCount.size}...`);
+
+    const name = path.split('/').pop()!;
+    const extension = name.split('.').pop()!.toLowerCase();
+    const blob = await entry.async('blob');
+    const url = await upload(new File([blob], name, { type: MIME_TYPES[extension] || blob.type }));
+    uploaded.set(cacheKey, url);
+    return url;
+  };
+
+  // Characters
+  const characterIds = new Map<string, string>();
+  for (const character of manifest.characters) {
+    const id = newId();
+    characterIds.set(character.id, id);
+    const imageUrl = await reupload(character.imageUrl, f => uploadCharacterImage(userId, f), 'character') || '';
+    const imageUrl2 = await reupload(character.imageUrl2, f => uploadCharacterImage(userId, f), 'character');
+    await saveCharacterToFirestore(userId, {
+      ...character,
+      id,
+      imageUrl,
+      imageUrl2,
+      visualDescriptionHash: character.visualDescription ? getReferenceImagesHash({ imageUrl, imageUrl2 }) : undefined,
+    });
+  }
+
+  // Locations
+  const locationIds = new Map<string, string>();
+  for (const location of manifest.locations) {
+    const id = newId();
+    locationIds.set(location.id, id);
+
+    const media = [];
+    for (const item of location.media || []) {
+      const url = await reupload(item.url, f => uploadLocationMedia(userId, f), 'location');
+      if (url) media.push({ ...item, url });
+    }
+
+    const imported: Location = { ...location, id, media, createdAt: Date.now() };
+    const mediaUrl = await reupload(location.mediaUrl, f => uploadLocationMedia(userId, f), 'location');
+    if (mediaUrl) imported.mediaUrl = mediaUrl;
+    else delete imported.mediaUrl;
+
+    await saveLocationToFirestore(userId, imported);
+  }
+
+  const uploadAudio = async (f: File) => uploadStoryboardAudio(userId, await blobToDataUri(f));
+  const uploadImage = (f: File) => uploadStoryboardImageFromFile(userId, f);
+  const mapCharacterId = (id?: string) => (id ? characterIds.get(id) || id : undefined);
+  const mapLocationId = (id?: string) => (id ? locationIds.get(id) || id : id); // '' (no location) stays as is
+  // An edit whose original cannot be restored is dropped; the rendered clip is kept
+  const reuploadAudioEdit = async (edit?: AudioClipEdit): Promise<AudioClipEdit | undefined> => {
+    const originalUrl = edit && await reupload(edit.originalUrl, uploadAudio, 'audio');
+    return edit && originalUrl ? { ...edit, originalUrl } : undefined;
+  };
+
+  // Storyboards
+  const storyboards: Storyboard[] = [];
+  for (const storyboard of manifest.project.storyboards) {
+    let lines: DialogueLine[] | undefined;
+    if (storyboard.lines) {
+      lines = [];
+      for (const line of storyboard.lines) {
+        lines.push({
+          ...line,
+          characterId: mapCharacterId(line.characterId),
+          audioUrl: await reupload(line.audioUrl, uploadAudio, 'audio'),
+          audioEdit: await reuploadAudioEdit(line.audioEdit),
+        });
+      }
+    }
+
+    // Candidates share the image upload cache, so the active image is uploaded once
+    let imageCandidates: ImageCandidate[] | undefined;
+    if (storyboard.imageCandidates) {
+      imageCandidates = [];
+      for (const candidate of storyboard.imageCandidates) {
+        const url = await reupload(candidate.url, uploadImage, 'image');
+        if (url) imageCandidates.push({ ...candidate, url });
+      }
+    }
+
+    storyboards.push({
+      ...storyboard,
+      id: newId(),
+      characterId: mapCharacterId(storyboard.characterId),
+      characterIds: storyboard.characterIds?.map(id => characterIds.get(id) || id),
+      locationId: mapLocationId(storyboard.locationId),
+      lines,
+      imageCandidates,
+      imageUrl: await reupload(storyboard.imageUrl, uploadImage, 'image'),
+      videoUrl: await reupload(storyboard.videoUrl, async f => uploadStoryboardVideoFromString(userId, await blobToDataUri(f)), 'video'),
+      audioUrl: await reupload(storyboard.audioUrl, uploadAudio, 'audio'),
+      audioEdit: await reuploadAudioEdit(storyboard.audioEdit),
+      isGeneratingImage: false,
+      isGeneratingVideo: false,
+      isGeneratingAudio: false,
+    });
+  }
+
+  onProgress?.('Saving project...');
+
+  const project: Project = {
+    ...manifest.project,
+    id: Date.now().toString(),
+    createdAt: Date.now(),
+    storyboards,
+    selectedCharacterIds: manifest.project.selectedCharacterIds?.map(id => characterIds.get(id) || id),
+    activeLocationId: mapLocationId(manifest.project.activeLocationId),
+  };
+
+  await saveProjectToFirestore(userId, project);
+  return project;
+}
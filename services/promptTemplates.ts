@@ -0,0 +1,263 @@
+import { PromptContext, PromptTemplateId, PromptTemplateOverrides, StylePreset } from '../types';
+
+/**
+ * Prompt templates. Every prompt a provider sends is rendered from one of these named templates,
+ * so the wording can be inspected and overridden per project (or per user) without code changes.
+ *
+ * Syntax (a small Mustache subset):
+ *   {{name}}                  value of a variable (empty when unknown)
+ *   {{#name}}...{{/name}}     block rendered only when the variable is non-empty
+ *   {{^name}}...{{/name}}     block rendered only when the variable is empty
+ */
+
+export type PromptVariables = Record<string, string | number | undefined>;
+
+export interface PromptTemplateInfo {
+  id: PromptTemplateId;
+  label: string;
+  description: string;
+  variables: Record<string, string>; // name -> meaning, shown in the template editor
+  template: string;
+}
+
+const PROJECT_VARIABLES = {
+  'project.title': 'Project title',
+  'project.summary': 'Project summary (story context)',
+  'project.mood': 'Mood from the Studio sidebar',
+};
+
+export const PROMPT_TEMPLATES: Record<PromptTemplateId, PromptTemplateInfo> = {
+  script: {
+    id: 'script',
+    label: 'Script',
+    description: 'Turns the scene description into storyboards. The JSON output format is appended automatically.',
+    variables: {
+      ...PROJECT_VARIABLES,
+      'scene': 'Scene description typed in the Studio',
+      'characters.bios': 'Selected characters, one "Name: bio" per line',
+      'locations.list': 'Locations in the vault, one "Name: description" per line',
+    },
+    template: `Create a comic strip script.
+Context: {{project.summary}}
+Scene Description: {{scene}}
+Mood: {{project.mood}}
+Characters available:
+{{characters.bios}}
+{{#locations.list}}Locations available (storyboards may move between them):
+{{locations.list}}{{/locations.list}}`,
+  },
+  image: {
+    id: 'image',
+    label: 'Panel Image',
+    description: 'Prompt for each generated panel image.',
+    variables: {
+      ...PROJECT_VARIABLES,
+      'storyboard.description': 'Scene description of the storyboard',
+      'character.name': 'Main character in frame: the speaker when visible, otherwise the first one (empty when none)',
+      'character.visual': 'Visual description of the main character',
+      'supporting.visual': 'Other characters in frame, one "- Name: description" per line',
+      'references.characters': 'Number of character reference images attached (0 with text-only conditioning)',
+      'location.name': 'Active location',
+      'location.visual': 'Visual description of the active location',
+      'references.location': 'Number of location reference images attached (0 with text-only conditioning)',
+      'frame.aspect': 'Panel shape, e.g. "vertical 9:16"',
+      'frame.orientation': 'landscape, portrait or square',
+      'style.name': 'Art style name',
+      'style.image': 'Art style image prompt',
+      'style.avoid': 'Art style negative guidance',
+      'style.references': 'Number of style reference images attached',
+    },
+    template: `Generate an image based on this description:
+
+(Technical Specs): {{style.image}}
+{{#frame.aspect}}(Framing): {{frame.aspect}} {{frame.orientation}} panel. Compose the shot to fill this frame.{{/frame.aspect}}
+
+{{#character.name}}(Subject & Action):
+Visual Appearance (PRIORITY): {{character.visual}}.
+Character Name: "{{character.name}}" (Note: Rely on Visual Appearance for species/looks, ignore name bias).
+{{#supporting.visual}}Also in the scene:
+{{supporting.visual}}
+{{/supporting.visual}}Action: {{storyboard.description}}{{/character.name}}{{^character.name}}(Scene Description): {{storyboard.description}}.{{/character.name}}
+
+{{#references.characters}}(Character References): Each set of attached images labeled with a character's name shows that character. Keep their identity (face, hair, build, outfit, colors) exactly as in the references, in whatever pose and framing the action needs.{{/references.characters}}
+
+{{#project.mood}}(Mood): {{project.mood}}{{/project.mood}}
+
+(Setting): {{#location.visual}}SETTING / LOCATION REFERENCE:
+{{location.visual}}
+
+Start the scene with this setting. Ensure the background matches this description accurately.{{/location.visual}}{{^location.visual}}Background matches the mood/action.{{/location.visual}}
+{{#references.location}}Use the attached setting reference images for the layout, landmarks and lighting of the background.{{/references.location}}
+IMPORTANT: The background MUST match the Setting description accurately.
+
+(Style): {{style.name}}. {{style.image}}
+{{#style.references}}Match the art style of the attached style reference images (line work, palette, rendering), not their content.{{/style.references}}
+{{#style.avoid}}(Avoid): {{style.avoid}}{{/style.avoid}}`,
+  },
+  inpaint: {
+    id: 'inpaint',
+    label: 'Image Edit',
+    description: 'In-painting: sent with the current panel image and a mask of the region to change.',
+    variables: {
+      ...PROJECT_VARIABLES,
+      'instruction': 'What to change in the masked region',
+      'style.name': 'Art style name',
+      'style.image': 'Art style image prompt',
+      'style.avoid': 'Art style negative guidance',
+    },
+    template: `Edit the attached image. Change ONLY the region that is white in the attached mask. Everything outside it (composition, characters, colors, lighting, lettering) must stay exactly as it is.
+
+Instruction for the masked region: {{instruction}}
+
+Blend the edit seamlessly into the surrounding image and keep the output the same size and framing.
+(Style): {{style.name}}. {{style.image}}
+{{#style.avoid}}(Avoid): {{style.avoid}}{{/style.avoid}}`,
+  },
+  video: {
+    id: 'video',
+    label: 'Video Clip',
+    description: 'Prompt for each generated video clip.',
+    variables: {
+      ...PROJECT_VARIABLES,
+      'storyboard.description': 'Scene description of the storyboard',
+      'storyboard.dialogue': 'Dialogue of the storyboard as plain text',
+      'character.name': 'Speaking character (empty when none)',
+      'character.visual': 'Visual description of the speaking character',
+      'characters.visual': 'All characters, one "- Name: description" per line',
+      'location.name': 'Active location',
+      'location.visual': 'Visual description of the active location',
+      'frame.aspect': 'Panel shape, e.g. "vertical 9:16"',
+      'frame.orientation': 'landscape, portrait or square',
+      'style.name': 'Art style name',
+      'style.video': 'Art style video prompt',
+      'style.avoid': 'Art style negative guidance',
+    },
+    template: `(TECHNICAL SPECS): {{style.video}}
+
+(CHARACTERS & SUBJECTS):
+{{#characters.visual}}GLOBAL CHARACTER REFERENCE (Maintain consistency with these appearances):
+{{characters.visual}}{{/characters.visual}}{{^characters.visual}}{{#character.visual}}SUBJECT REFERENCE: {{character.visual}}{{/character.visual}}{{/characters.visual}}
+
+(ACTION / SCENE):
+{{storyboard.description}}
+
+(AUDIO & DIALOGUE - CRITICAL):
+STORYBOARD DIALOGUE: "{{#storyboard.dialogue}}{{storyboard.dialogue}}{{/storyboard.dialogue}}{{^storyboard.dialogue}}No dialogue, just ambient sound{{/storyboard.dialogue}}"
+INSTRUCTION: The character "{{#character.name}}{{character.name}}{{/character.name}}{{^character.name}}the subject{{/character.name}}" MUST speak the Storyboard Dialogue clearly.
+SOUND QUALITY: Loud, crystal-clear professional voiceover. High-fidelity spatial audio.
+
+(SETTING):
+{{#location.visual}}SETTING / BACKGROUND REFERENCE: {{location.visual}}{{/location.visual}}{{^location.visual}}Environment matches the action mood.{{/location.visual}}
+IMPORTANT: Stick strictly to the provided characters and setting. Do NOT invent new animals, creatures, or characters.
+
+(MOTION): Dynamic but smooth cinematic camera work.
+{{#frame.aspect}}(FRAMING): Composed for a {{frame.aspect}} panel; keep the subjects inside that frame.{{/frame.aspect}}
+(DURATION): 8 seconds.
+{{#style.avoid}}(AVOID): {{style.avoid}}{{/style.avoid}}`,
+  },
+  animate: {
+    id: 'animate',
+    label: 'Panel Animation',
+    description: 'Image-to-video: sent with the storyboard image as the first frame (and optionally a last frame).',
+    variables: {
+      ...PROJECT_VARIABLES,
+      'storyboard.description': 'Scene description of the storyboard',
+      'storyboard.dialogue': 'Dialogue of the storyboard as plain text',
+      'motion': 'Motion prompt typed in the Animate dialog',
+      'duration': 'Clip length in seconds',
+      'frames.last': '1 when a last frame is attached, otherwise 0',
+      'style.name': 'Art style name',
+      'style.video': 'Art style video prompt',
+      'style.avoid': 'Art style negative guidance',
+    },
+    template: `Animate the attached image. It is the first frame of the clip: keep its characters, setting, composition and art style exactly as drawn.
+
+(SCENE): {{storyboard.description}}
+(MOTION): {{#motion}}{{motion}}{{/motion}}{{^motion}}Subtle, natural movement of the characters and their surroundings with a gentle camera move.{{/motion}}
+{{#frames.last}}(END FRAME): The clip must end exactly on the attached last frame; move smoothly from the first frame to it.{{/frames.last}}
+{{#storyboard.dialogue}}(DIALOGUE): The characters speak clearly: "{{storyboard.dialogue}}"{{/storyboard.dialogue}}
+(DURATION): {{duration}} seconds.
+(STYLE): {{style.name}}. {{style.video}}
+{{#style.avoid}}(AVOID): {{style.avoid}}{{/style.avoid}}`,
+  },
+  characterDescribe: {
+    id: 'characterDescribe',
+    label: 'Character Description',
+    description: 'Vision prompt that describes a character from its reference images. The bio is appended to the answer.',
+    variables: {
+      'character.name': 'Character name',
+      'character.bio': 'Character bio',
+      'images.count': 'Number of reference images (1 or 2)',
+    },
+    template: `Describe this character's physical appearance in detail for an image generator prompt.
+Focus on hair, eyes, clothing, facial features, and style.
+If there are two images, combine the details to create a consistent description.
+Ignore the background.
+Keep it concise but descriptive.`,
+  },
+  locationDescribe: {
+    id: 'locationDescribe',
+    label: 'Location Description',
+    description: 'Vision prompt used by "Analyze" in the Location Vault. Locations are shared between projects, so only your default applies.',
+    variables: {
+      'media.count': 'Number of images/videos being analyzed',
+    },
+    template: `Analyze these {{media.count}} images/videos in detail for use as a background location reference in a comic book generation prompt.
+
+These items represent different angles or details of the SAME location. Combine them to create one unified visual description.
+
+Describe the:
+1. Lighting (Time of day, direction, color, intensity)
+2. Color Palette (Dominant colors, mood)
+3. Environment/Setting (Indoors/Outdoors, key landmarks, architecture, nature elements)
+4. Atmosphere (Peaceful, chaotic, futuristic, rustic, etc.)
+5. Textures and Materials (Wood, stone, neon, water, etc.)
+
+Do NOT describe any people or characters in the scene. Focus ONLY on the location/background.
+Keep it descriptive but concise.`,
+  },
+};
+
+export const PROMPT_TEMPLATE_IDS = Object.keys(PROMPT_TEMPLATES) as PromptTemplateId[];
+
+// Template text in effect: an override when one is set, otherwise the built-in default
+export const getPromptTemplate = (id: PromptTemplateId, overrides?: PromptTemplateOverrides): string =>
+  overrides?.[id]?.trim() ? overrides[id]! : PROMPT_TEMPLATES[id].template;
+
+const isSet = (value: string | number | undefined) => value !== undefined && String(value).trim() !== '' && value !== 0;
+
+export function renderPrompt(template: string, variables: PromptVariables): string {
+  const withSections = template.replace(
+    /\{\{([#^])\s*([\w.]+)\s*\}\}([\s\S]*?)\{\{\/\s*\2\s*\}\}/g,
+    (_, kind: string, name: string, body: string) => (kind === '#') === isSet(variables[name]) ? renderPrompt(body, variables) : ''
+  );
+  return withSections
+    .replace(/\{\{\s*([\w.]+)\s*\}\}/g, (_, name: string) => variables[name] === undefined ? '' : String(variables[name]))
+    .replace(/\n{3,}/g, '\n\n')
+    .trim();
+}
+
+// Renders a template with the project variables of the context plus the request's own variables
+export function buildPrompt(id: PromptTemplateId, variables: PromptVariables, context?: PromptContext): string {
+  return renderPrompt(getPromptTemplate(id, context?.templates), {
+    'project.title': context?.project?.title,
+    'project.summary': context?.project?.summary,
+    'project.mood': context?.project?.mood,
+    ...variables,
+  });
+}
+
+export const styleVariables = (style: StylePreset): PromptVariables => ({
+  'style.name': style.name,
+  'style.image': style.imagePrompt,
+  'style.video': style.videoPrompt || style.imagePrompt,
+  'style.avoid': style.negativePrompt,
+  'style.references': style.referenceImageUrls?.length || 0,
+});
+
+// Variables a template uses that its kind of request never provides (likely typos)
+export function findUnknownVariables(id: PromptTemplateId, template: string): string[] {
+  const known = PROMPT_TEMPLATES[id].variables;
+  const used = Array.from(template.matchAll(/\{\{[#^/]?\s*([\w.]+)\s*\}\}/g), m => m[1]);
+  return Array.from(new Set(used)).filter(name => !(name in known));
+}
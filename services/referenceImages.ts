@@ -0,0 +1,58 @@
+import { Character, Location, StylePreset, ReferenceConditioning } from '../types';
+import { MAX_STYLE_REFERENCE_IMAGES } from './stylePresets';
+
+// Reference images sent with a panel image request. Each group is labeled so the model knows
+// which character (or the setting, or the art style) the images that follow belong to.
+
+export const MAX_LOCATION_REFERENCE_IMAGES = 2;
+
+export interface ReferenceImageGroup {
+  kind: 'style' | 'character' | 'location';
+  label: string;
+  urls: string[];
+}
+
+// Still images of a location (videos can't condition an image model)
+export function getLocationImageUrls(location: Location): string[] {
+  const media = location.media && location.media.length > 0
+    ? location.media
+    : (location.mediaUrl ? [{ url: location.mediaUrl, type: location.mediaType || 'image' }] : []);
+  return media.filter(m => m.type === 'image' && m.url).map(m => m.url);
+}
+
+/**
+ * Groups to attach, in order: style references, then every character in the panel, then the location.
+ * With 'text' conditioning only the style references are sent; characters and the setting are described in words.
+ */
+export function getImageReferenceGroups(
+  characters: Character[],
+  location: Location | undefined,
+  style: StylePreset,
+  conditioning: ReferenceConditioning = 'images'
+): ReferenceImageGroup[] {
+  const groups: ReferenceImageGroup[] = [{
+    kind: 'style',
+    label: 'Style reference images (match the art style, not the content):',
+    urls: (style.referenceImageUrls || []).slice(0, MAX_STYLE_REFERENCE_IMAGES),
+  }];
+
+  if (conditioning === 'images') {
+    characters.forEach(c => groups.push({
+      kind: 'character',
+      label: `Reference images of the character "${c.name}":`,
+      urls: [c.imageUrl, c.imageUrl2].filter((url): url is string => !!url),
+    }));
+    if (location) {
+      groups.push({
+        kind: 'location',
+        label: `Reference images of the setting "${location.name}":`,
+        urls: getLocationImageUrls(location).slice(0, MAX_LOCATION_REFERENCE_IMAGES),
+      });
+    }
+  }
+
+  return groups.filter(g => g.urls.length > 0);
+}
+
+export const countReferenceImages = (groups: ReferenceImageGroup[], kind: ReferenceImageGroup['kind']) =>
+  groups.filter(g => g.kind === kind).reduce((sum, g) => sum + g.urls.length, 0);
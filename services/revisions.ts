@@ -0,0 +1,100 @@
+import { Project, Storyboard, ProjectRevision, RevisionReason } from '../types';
+import { saveRevision, deleteRevision } from './firebase';
+
+// Project revision history: snapshot creation, pruning and storyboard-level diffs.
+
+export const MAX_REVISIONS = 50; // Oldest snapshots beyond this are deleted
+export const AUTOSAVE_REVISION_INTERVAL = 10 * 60 * 1000; // ms between automatic snapshots while editing
+
+// Storyboard fields that only describe in-flight work; everything else counts as content
+export const REVISION_TRANSIENT_FIELDS = ['isGeneratingImage', 'isGeneratingVideo', 'isGeneratingAudio', 'pendingVideoOperation'] as const;
+export type RevisionDiffField = Exclude<keyof Storyboard, 'id' | typeof REVISION_TRANSIENT_FIELDS[number]>;
+
+export interface StoryboardDiff {
+  storyboardId: string;
+  status: 'added' | 'removed' | 'changed' | 'unchanged';
+  changes: RevisionDiffField[];
+  before?: Storyboard; // In the revision
+  after?: Storyboard; // In the current project
+}
+
+const isEmpty = (value: unknown) => value === undefined || value === null || value === '';
+
+// Stable form of a value for comparison: object keys sorted, empty entries dropped
+// (snapshots come back from Firestore without undefined fields and with keys reordered)
+const normalize = (value: unknown): unknown => {
+  if (Array.isArray(value)) return value.map(normalize);
+  if (value && typeof value === 'object') {
+    return Object.keys(value).sort()
+      .filter(key => !isEmpty((value as Record<string, unknown>)[key]))
+      .map(key => [key, normalize((value as Record<string, unknown>)[key])]);
+  }
+  return value;
+};
+
+const sameValue = (a: unknown, b: unknown) =>
+  (isEmpty(a) && isEmpty(b)) || JSON.stringify(normalize(a)) === JSON.stringify(normalize(b));
+
+// Content fields that differ between two versions of a storyboard
+export function getChangedFields(before: Storyboard, after: Storyboard): RevisionDiffField[] {
+  const fields = new Set([...Object.keys(before), ...Object.keys(after)]);
+  (['id', ...REVISION_TRANSIENT_FIELDS] as string[]).forEach(field => fields.delete(field));
+  return (Array.from(fields) as RevisionDiffField[]).filter(field => !sameValue(before[field], after[field]));
+}
+
+const sameContent = (a: Storyboard[], b: Storyboard[]) =>
+  a.length === b.length && a.every((storyboard, i) => storyboard.id === b[i].id && getChangedFields(storyboard, b[i]).length === 0);
+
+/**
+ * Stores a snapshot of the storyboards. Skipped when nothing changed since the latest revision
+ * (`revisions` is newest-first, as delivered by `subscribeToRevisions`).
+ * Returns false when no snapshot was needed.
+ */
+export async function createRevision(
+  userId: string,
+  project: Project,
+  storyboards: Storyboard[],
+  reason: RevisionReason,
+  revisions: ProjectRevision[]
+): Promise<boolean> {
+  if (storyboards.length === 0) return false;
+  if (revisions[0] && sameContent(revisions[0].storyboards, storyboards)) return false;
+
+  const now = Date.now();
+  await saveRevision(userId, {
+    id: `${now}_${reason}`,
+    projectId: project.id,
+    reason,
+    title: project.title,
+    storyboards,
+    createdAt: now,
+  });
+
+  // Prune the oldest snapshots (the new one is not in `revisions` yet)
+  const stale = revisions.slice(MAX_REVISIONS - 1);
+  await Promise.all(stale.map(r => deleteRevision(userId, project.id, r.id).catch(error => {
+    console.error(`[Revisions] Failed to prune revision ${r.id}:`, error);
+  })));
+
+  return true;
+}
+
+// Compares a revision with the current storyboards, in current order, followed by storyboards the revision had but the project lost
+export function diffStoryboards(revision: Storyboard[], current: Storyboard[]): StoryboardDiff[] {
+  const revisionById = new Map(revision.map(s => [s.id, s]));
+  const currentIds = new Set(current.map(s => s.id));
+
+  const diffs: StoryboardDiff[] = current.map(after => {
+    const before = revisionById.get(after.id);
+    if (!before) return { storyboardId: after.id, status: 'added', changes: [], after };
+
+    const changes = getChangedFields(before, after);
+    return { storyboardId: after.id, status: changes.length > 0 ? 'changed' : 'unchanged', changes, before, after };
+  });
+
+  revision
+    .filter(before => !currentIds.has(before.id))
+    .forEach(before => diffs.push({ storyboardId: before.id, status: 'removed', changes: [], before }));
+
+  return diffs;
+}
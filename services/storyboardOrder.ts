@@ -0,0 +1,48 @@
+import { Storyboard } from '../types';
+
+// Pure helpers for rearranging storyboards. Order is simply the array position in `Project.storyboards`,
+// which playback and every export follow.
+
+const newId = () => Date.now().toString() + Math.random().toString();
+
+export const createEmptyStoryboard = (): Storyboard => ({
+  id: newId(),
+  description: '',
+  dialogue: '',
+  isGeneratingImage: false,
+  isGeneratingVideo: false,
+  isGeneratingAudio: false,
+});
+
+export function insertStoryboardAt(storyboards: Storyboard[], index: number, storyboard: Storyboard): Storyboard[] {
+  const next = [...storyboards];
+  next.splice(Math.max(0, Math.min(index, next.length)), 0, storyboard);
+  return next;
+}
+
+/**
+ * Moves the given storyboards, as one block in their current relative order, so the block starts
+ * where `targetIndex` pointed in the original array (0 = top, length = bottom).
+ */
+export function moveStoryboards(storyboards: Storyboard[], ids: string[], targetIndex: number): Storyboard[] {
+  const moving = new Set(ids);
+  const block = storyboards.filter(s => moving.has(s.id));
+  if (block.length === 0) return storyboards;
+
+  // Moved storyboards above the target no longer count once they are taken out
+  const shift = storyboards.slice(0, targetIndex).filter(s => moving.has(s.id)).length;
+  const rest = storyboards.filter(s => !moving.has(s.id));
+  const insertAt = Math.max(0, Math.min(targetIndex - shift, rest.length));
+
+  return [...rest.slice(0, insertAt), ...block, ...rest.slice(insertAt)];
+}
+
+// Copies each given storyboard (media included) right after its original. Generation state is not copied.
+export function duplicateStoryboards(storyboards: Storyboard[], ids: string[]): Storyboard[] {
+  const selected = new Set(ids);
+  return storyboards.flatMap(storyboard => {
+    if (!selected.has(storyboard.id)) return [storyboard];
+    const { pendingVideoOperation, ...copy } = storyboard;
+    return [storyboard, { ...copy, id: newId(), isGeneratingImage: false, isGeneratingVideo: false, isGeneratingAudio: false }];
+  });
+}
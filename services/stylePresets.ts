@@ -0,0 +1,76 @@
+import { StylePreset } from '../types';
+
+// Art style presets. Every image and video prompt is assembled from the project's preset,
+// so switching a project from 3D animation to manga or watercolor needs no prompt edits.
+
+export const DEFAULT_STYLE_PRESET_ID = 'pixar';
+export const MAX_STYLE_REFERENCE_IMAGES = 3;
+
+export const BUILT_IN_STYLE_PRESETS: StylePreset[] = [
+  {
+    id: 'pixar',
+    name: '3D Animation',
+    imagePrompt: '3D render, Pixar-style animation to look like a movie screencap. High quality, 8k resolution, cinematic lighting.',
+    videoPrompt: 'High-end 3D animated cinematic video, 8K resolution, Pixar/Disney style. Vibrant colors, professional cinematic lighting.',
+    builtIn: true,
+  },
+  {
+    id: 'manga',
+    name: 'Manga',
+    imagePrompt: 'Black and white manga illustration. Clean ink line work, screentone shading, dynamic speed lines, expressive faces, high contrast.',
+    videoPrompt: '2D anime-style animated video, cel shading, clean line art, dramatic camera moves and speed lines.',
+    negativePrompt: '3D render, photorealism, full color painting, blurry lines.',
+    builtIn: true,
+  },
+  {
+    id: 'noir',
+    name: 'Noir Ink',
+    imagePrompt: 'Film noir comic art in heavy black ink. Deep shadows, stark chiaroscuro lighting, crosshatching, rain-slick streets, black and white with rare red accents.',
+    videoPrompt: 'Black and white film noir animation with inked look, hard shadows, venetian blind light, moody slow camera moves.',
+    negativePrompt: 'Bright colors, soft even lighting, 3D render, cute cartoon style.',
+    builtIn: true,
+  },
+  {
+    id: 'watercolor',
+    name: 'Watercolor',
+    imagePrompt: 'Hand-painted watercolor storybook illustration on textured paper. Soft bleeding edges, light pencil lines, gentle pastel palette.',
+    videoPrompt: 'Animated watercolor painting, soft washes of color that gently move, paper texture, calm storybook pacing.',
+    negativePrompt: 'Hard digital outlines, 3D render, photorealism, neon colors.',
+    builtIn: true,
+  },
+  {
+    id: 'newspaper',
+    name: 'Newspaper Strip',
+    imagePrompt: 'Classic newspaper comic strip. Bold black outlines, flat limited colors, Ben-Day dot shading, simple readable backgrounds.',
+    videoPrompt: 'Limited 2D animation in classic newspaper comic style, bold outlines, flat colors, halftone dots.',
+    negativePrompt: 'Gradients, 3D render, photorealism, painterly textures.',
+    builtIn: true,
+  },
+  {
+    id: 'cinematic',
+    name: 'Live-Action Still',
+    imagePrompt: 'Photorealistic live-action film still, shot on 35mm, shallow depth of field, natural skin texture, cinematic color grade.',
+    videoPrompt: 'Photorealistic live-action cinematic video, 35mm film look, natural motion, cinematic color grade.',
+    negativePrompt: 'Cartoon, illustration, 3D render, plastic skin.',
+    builtIn: true,
+  },
+];
+
+export const DEFAULT_STYLE_PRESET = BUILT_IN_STYLE_PRESETS[0];
+
+// Built-ins first, then the user's own presets (newest first)
+export const getStylePresets = (customPresets: StylePreset[]) => [...BUILT_IN_STYLE_PRESETS, ...customPresets];
+
+// Preset for a project; unknown or deleted presets fall back to the default
+export const resolveStylePreset = (id: string | undefined, customPresets: StylePreset[]): StylePreset =>
+  getStylePresets(customPresets).find(p => p.id === (id || DEFAULT_STYLE_PRESET_ID)) || DEFAULT_STYLE_PRESET;
+
+export const createStylePreset = (fields: Partial<StylePreset> = {}): StylePreset => ({
+  id: Date.now().toString(),
+  name: 'New Style',
+  imagePrompt: '',
+  videoPrompt: '',
+  createdAt: Date.now(),
+  ...fields,
+  builtIn: false,
+});
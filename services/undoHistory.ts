@@ -0,0 +1,187 @@
+import { Storyboard } from '../types';
+
+// Command-based undo/redo for Studio edits.
+// Entries record what changed (per storyboard) rather than whole snapshots, so undoing one edit
+// does not roll back unrelated changes that landed meanwhile (e.g. a finished generation).
+
+export const MAX_UNDO_ENTRIES = 100; // Oldest entries beyond this are dropped
+export const UNDO_MERGE_WINDOW = 1000; // ms; consecutive edits with the same merge key become one entry
+
+// Transient fields that are never part of an undoable change
+const IGNORED_FIELDS: (keyof Storyboard)[] = ['id', 'isGeneratingImage', 'isGeneratingVideo', 'isGeneratingAudio', 'pendingVideoOperation'];
+
+export interface UndoChange {
+  storyboardId: string;
+  kind: 'insert' | 'remove' | 'update';
+  index: number; // insert: position after the edit, remove: position before the edit
+  storyboard?: Storyboard; // insert / remove
+  before?: Partial<Storyboard>; // update: changed fields only
+  after?: Partial<Storyboard>;
+}
+
+export interface UndoEntry {
+  id: string;
+  label: string;
+  changes: UndoChange[];
+  order?: { before: string[]; after: string[] }; // Only set when surviving storyboards were reordered
+  mergeKey?: string;
+  createdAt: number;
+  updatedAt: number;
+}
+
+export interface UndoHistory {
+  past: UndoEntry[]; // Oldest first
+  future: UndoEntry[]; // Next redo first
+}
+
+export const EMPTY_UNDO_HISTORY: UndoHistory = { past: [], future: [] };
+
+const isSame = (a: unknown, b: unknown) => a === b || JSON.stringify(a) === JSON.stringify(b);
+
+const withoutTransient = (storyboard: Storyboard): Storyboard => {
+  const clean = { ...storyboard };
+  delete clean.isGeneratingImage;
+  delete clean.isGeneratingVideo;
+  delete clean.isGeneratingAudio;
+  delete clean.pendingVideoOperation;
+  return clean;
+};
+
+const copyField = <K extends keyof Storyboard>(target: Partial<Storyboard>, source: Storyboard, key: K) => {
+  target[key] = source[key];
+};
+
+/**
+ * Builds an entry describing the edit from `before` to `after`.
+ * Returns null when nothing undoable changed (e.g. only generation flags moved).
+ */
+export function createUndoEntry(label: string, before: Storyboard[], after: Storyboard[], mergeKey?: string): UndoEntry | null {
+  const beforeById = new Map(before.map(s => [s.id, s]));
+  const afterById = new Map(after.map(s => [s.id, s]));
+  const changes: UndoChange[] = [];
+
+  before.forEach((storyboard, index) => {
+    if (!afterById.has(storyboard.id)) {
+      changes.push({ storyboardId: storyboard.id, kind: 'remove', index, storyboard: withoutTransient(storyboard) });
+    }
+  });
+
+  after.forEach((storyboard, index) => {
+    const previous = beforeById.get(storyboard.id);
+    if (!previous) {
+      changes.push({ storyboardId: storyboard.id, kind: 'insert', index, storyboard: withoutTransient(storyboard) });
+      return;
+    }
+
+    const fields = Array.from(new Set([...Object.keys(previous), ...Object.keys(storyboard)])) as (keyof Storyboard)[];
+    const changed = fields.filter(field => !IGNORED_FIELDS.includes(field) && !isSame(previous[field], storyboard[field]));
+    if (changed.length === 0) return;
+
+    const beforeFields: Partial<Storyboard> = {};
+    const afterFields: Partial<Storyboard> = {};
+    changed.forEach(field => {
+      copyField(beforeFields, previous, field);
+      copyField(afterFields, storyboard, field);
+    });
+    changes.push({ storyboardId: storyboard.id, kind: 'update', index, before: beforeFields, after: afterFields });
+  });
+
+  const beforeOrder = before.map(s => s.id).filter(id => afterById.has(id));
+  const afterOrder = after.map(s => s.id).filter(id => beforeById.has(id));
+  const order = isSame(beforeOrder, afterOrder) ? undefined : { before: beforeOrder, after: afterOrder };
+
+  if (changes.length === 0 && !order) return null;
+
+  const now = Date.now();
+  return { id: `${now}_${Math.random().toString(36).slice(2, 8)}`, label, changes, order, mergeKey, createdAt: now, updatedAt: now };
+}
+
+// Adds an entry, merging it into the previous one while the user keeps editing the same thing. Clears the redo stack.
+export function pushUndoEntry(history: UndoHistory, entry: UndoEntry): UndoHistory {
+  const last = history.past[history.past.length - 1];
+
+  if (last && entry.mergeKey && last.mergeKey === entry.mergeKey && entry.createdAt - last.updatedAt < UNDO_MERGE_WINDOW) {
+    // Updates to a storyboard the last entry already updated are folded into it; everything else is appended
+    const isMergeable = (c: UndoChange) => c.kind === 'update' && last.changes.some(l => l.kind === 'update' && l.storyboardId === c.storyboardId);
+    const order = last.order || entry.order
+      ? { before: (last.order || entry.order)!.before, after: (entry.order || last.order)!.after }
+      : undefined;
+    const merged: UndoEntry = {
+      ...last,
+      changes: [
+        ...last.changes.map(change => {
+          const next = change.kind === 'update' && entry.changes.find(c => c.storyboardId === change.storyboardId && c.kind === 'update');
+          return next ? { ...change, before: { ...next.before, ...change.before }, after: { ...change.after, ...next.after } } : change;
+        }),
+        ...entry.changes.filter(c => !isMergeable(c)),
+      ],
+      order,
+      updatedAt: entry.createdAt,
+    };
+    return { past: [...history.past.slice(0, -1), merged], future: [] };
+  }
+
+  return { past: [...history.past, entry].slice(-MAX_UNDO_ENTRIES), future: [] };
+}
+
+const insertAt = (storyboards: Storyboard[], index: number, storyboard: Storyboard) => {
+  const next = storyboards.filter(s => s.id !== storyboard.id);
+  next.splice(Math.min(index, next.length), 0, storyboard);
+  return next;
+};
+
+// Sorts storyboards into `order`; storyboards the order does not know about stay after their current predecessor
+const reorder = (storyboards: Storyboard[], order: string[]) => {
+  const rank = new Map(order.map((id, i) => [id, i]));
+  let lastRank = -1;
+  const ranked = storyboards.map((storyboard, position) => {
+    const known = rank.get(storyboard.id);
+    if (known !== undefined) lastRank = known;
+    return { storyboard, rank: known ?? lastRank + 0.5, position };
+  });
+  return ranked.sort((a, b) => a.rank - b.rank || a.position - b.position).map(r => r.storyboard);
+};
+
+/**
+ * Applies an entry to the current storyboards, backwards ('undo') or forwards ('redo').
+ * Changes to storyboards that no longer exist are skipped.
+ */
+export function applyUndoEntry(storyboards: Storyboard[], entry: UndoEntry, direction: 'undo' | 'redo'): Storyboard[] {
+  const isUndo = direction === 'undo';
+  const removeKind = isUndo ? 'insert' : 'remove';
+  const insertKind = isUndo ? 'remove' : 'insert';
+
+  const removedIds = new Set(entry.changes.filter(c => c.kind === removeKind).map(c => c.storyboardId));
+  let next = storyboards.filter(s => !removedIds.has(s.id));
+
+  entry.changes
+    .filter(c => c.kind === insertKind && c.storyboard)
+    .sort((a, b) => a.index - b.index)
+    .forEach(c => { next = insertAt(next, c.index, c.storyboard!); });
+
+  const updates = new Map(entry.changes.filter(c => c.kind === 'update').map(c => [c.storyboardId, isUndo ? c.before : c.after]));
+  next = next.map(s => updates.has(s.id) ? { ...s, ...updates.get(s.id) } : s);
+
+  if (entry.order) next = reorder(next, isUndo ? entry.order.before : entry.order.after);
+  return next;
+}
+
+// Undoes the latest entry. Returns null when there is nothing to undo.
+export function undoStep(history: UndoHistory, storyboards: Storyboard[]): { history: UndoHistory; storyboards: Storyboard[] } | null {
+  const entry = history.past[history.past.length - 1];
+  if (!entry) return null;
+  return {
+    history: { past: history.past.slice(0, -1), future: [entry, ...history.future] },
+    storyboards: applyUndoEntry(storyboards, entry, 'undo'),
+  };
+}
+
+// Re-applies the most recently undone entry. Returns null when there is nothing to redo.
+export function redoStep(history: UndoHistory, storyboards: Storyboard[]): { history: UndoHistory; storyboards: Storyboard[] } | null {
+  const entry = history.future[0];
+  if (!entry) return null;
+  return {
+    history: { past: [...history.past, entry], future: history.future.slice(1) },
+    storyboards: applyUndoEntry(storyboards, entry, 'redo'),
+  };
+}
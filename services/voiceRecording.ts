@@ -0,0 +1,78 @@
+import { addWavHeader, bytesToBase64 } from './mediaUtils';
+
+// Microphone takes for dialogue. Recordings are converted to 16-bit mono WAV at the speech sample rate,
+// so they share the upload path, playback and exports with generated speech.
+
+export const RECORDING_SAMPLE_RATE = 24000;
+
+export const isRecordingSupported = () =>
+  typeof navigator !== 'undefined' && !!navigator.mediaDevices?.getUserMedia && typeof MediaRecorder !== 'undefined';
+
+export interface MicrophoneRecording {
+  stream: MediaStream; // Live input, e.g. for a level meter
+  stop: () => Promise<Blob>; // Ends the take and releases the microphone
+}
+
+// Asks for the microphone and starts recording right away
+export async function startMicrophoneRecording(): Promise<MicrophoneRecording> {
+  const stream = await navigator.mediaDevices.getUserMedia({ audio: true });
+  const recorder = new MediaRecorder(stream);
+  const chunks: Blob[] = [];
+  recorder.ondataavailable = (e) => { if (e.data.size > 0) chunks.push(e.data); };
+
+  const stopped = new Promise<Blob>((resolve) => {
+    recorder.onstop = () => resolve(new Blob(chunks, { type: recorder.mimeType || 'audio/webm' }));
+  });
+  recorder.start();
+
+  return {
+    stream,
+    stop: () => {
+      if (recorder.state !== 'inactive') recorder.stop();
+      stream.getTracks().forEach(t => t.stop());
+      return stopped;
+    },
+  };
+}
+
+// Decodes any browser-playable audio to mono at RECORDING_SAMPLE_RATE
+export async function decodeToMono(data: Blob | ArrayBuffer): Promise<AudioBuffer> {
+  const bytes = data instanceof Blob ? await data.arrayBuffer() : data;
+  const context = new AudioContext();
+  try {
+    const decoded = await context.decodeAudioData(bytes);
+    const offline = new OfflineAudioContext(1, Math.max(1, Math.ceil(decoded.duration * RECORDING_SAMPLE_RATE)), RECORDING_SAMPLE_RATE);
+    const source = offline.createBufferSource();
+    source.buffer = decoded;
+    source.connect(offline.destination);
+    source.start();
+    return await offline.startRendering();
+  } finally {
+    context.close();
+  }
+}
+
+// First channel of a buffer as a WAV data URI (audio/wav)
+export function encodeWav(buffer: AudioBuffer): string {
+  const samples = buffer.getChannelData(0);
+  const pcm = new Uint8Array(samples.length * 2);
+  const view = new DataView(pcm.buffer);
+  samples.forEach((sample, i) => {
+    const clamped = Math.max(-1, Math.min(1, sample));
+    view.setInt16(i * 2, clamped < 0 ? clamped * 0x8000 : clamped * 0x7fff, true);
+  });
+
+  return `data:audio/wav;base64,${addWavHeader(bytesToBase64(pcm), buffer.sampleRate)}`;
+}
+
+// Peak level (0-1) of each of `count` equal slices, for drawing a waveform
+export function getWaveformPeaks(buffer: AudioBuffer, count: number): number[] {
+  const samples = buffer.getChannelData(0);
+  const sliceLength = Math.max(1, Math.floor(samples.length / count));
+  return Array.from({ length: count }, (_, i) => {
+    let peak = 0;
+    const end = Math.min(samples.length, (i + 1) * sliceLength);
+    for (let j = i * sliceLength; j < end; j++) peak = Math.max(peak, Math.abs(samples[j]));
+    return peak;
+  });
+}
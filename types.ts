@@ -9,21 +9,162 @@ export interface Character {
   imageUrl: string; // URL for the reference image
   imageUrl2?: string; // Optional second reference image
   voiceId?: string; // Prebuilt voice name (e.g., 'Puck', 'Kore')
+  visualDescription?: string; // Appearance from the reference images (AI generated or edited), reused in prompts
+  visualDescriptionHash?: string; // Reference images the description belongs to (services/characterDescriptions.ts)
+}
+
+export type DialogueLineType = 'speech' | 'thought' | 'caption' | 'sfx';
+
+// One line of a storyboard's dialogue, in reading order
+export interface DialogueLine {
+  id: string;
+  characterId?: string; // Speaker; undefined = narrator
+  text: string;
+  type: DialogueLineType;
+  audioUrl?: string; // Per-line speech clip
+  audioEdit?: AudioClipEdit; // Trim/gain/fades applied to the clip (services/audioEdits.ts)
+  startTime?: number; // ms into the storyboard's conversation track (`Storyboard.audioUrl`), for caption sync
+  endTime?: number;
+}
+
+// Non-destructive audio edit: the clip's current file is rendered from `originalUrl` with these settings,
+// so it can be re-edited or reset without generation loss
+export interface AudioClipEdit {
+  originalUrl: string;
+  trimStart: number; // Seconds cut from the start of the original
+  trimEnd: number; // Seconds cut from the end of the original
+  gainDb: number;
+  fadeIn: number; // Seconds
+  fadeOut: number; // Seconds
+}
+
+// How "Generate speech" voices a storyboard: one clip per line, or one mixed conversation track
+export type DialogueAudioMode = 'lines' | 'conversation';
+
+// A line to render in a conversation, in order
+export interface ConversationLine {
+  text: string;
+  voiceName: string;
+  speakerName: string; // Used to label speakers in multi-speaker requests
+}
+
+export interface ConversationAudio {
+  audio: string; // data URI (audio/wav) of the whole conversation
+  timings: { start: number; end: number }[]; // ms, one entry per input line
+}
+
+export type BalloonFontId = 'comic' | 'bangers' | 'marker';
+
+// Lettering placed over a panel (speech balloon, thought bubble, caption box or SFX), kept as vector data.
+// Positions and sizes are fractions (0-1) of the panel, so they fit the art at any resolution.
+export interface BalloonOverlay {
+  id: string;
+  kind: DialogueLineType;
+  text: string;
+  x: number; // Top-left corner of the balloon body
+  y: number;
+  width: number;
+  height: number;
+  tail?: { x: number; y: number }; // Tail tip (speech / thought), pointing at the speaker
+  font: BalloonFontId;
+  fontSize: number; // Fraction of the panel height
+  lineId?: string; // Dialogue line the balloon was placed from
 }
 
 export interface Storyboard {
   id: string;
   description: string; // Scene description used for generation
-  dialogue: string;
-  characterId?: string; // The character speaking (if any)
-  imageUrl?: string; // Generated image base64 or URL
+  dialogue: string; // Plain text of all lines (kept in sync with `lines` for older projects)
+  characterId?: string; // First speaking character (kept in sync with `lines`)
+  characterIds?: string[]; // Characters visible in the frame, speakers or not; missing = the speakers of `lines`
+  locationId?: string; // Location of the panel ('' for none); missing = Project.activeLocationId
+  aspectRatio?: PanelAspectRatio; // Panel shape; missing = Project.aspectRatio
+  lines?: DialogueLine[]; // Dialogue lines; missing on storyboards created before multi-line dialogue
+  overlays?: BalloonOverlay[]; // Lettering drawn over the art; when present it replaces subtitle captions
+  imageUrl?: string; // Generated image base64 or URL (the active candidate)
+  imageCandidates?: ImageCandidate[]; // Generated and uploaded images, newest first (services/imageCandidates.ts)
   videoUrl?: string; // Generated video base64 or URL
-  audioUrl?: string; // Generated or recorded audio URL
+  audioUrl?: string; // Generated or recorded audio URL for the whole storyboard (takes precedence over per-line clips)
+  audioEdit?: AudioClipEdit; // Trim/gain/fades applied to `audioUrl`; line timings stay relative to the original
+  pendingVideoOperation?: VideoOperation; // In-flight video generation, resumed after reload
+  prompts?: Partial<Record<PromptRecordKind, PromptRecord>>; // Final prompt behind the script and each generated asset
   isGeneratingImage: boolean;
   isGeneratingVideo: boolean;
   isGeneratingAudio: boolean;
 }
 
+// An image in a storyboard's gallery
+export interface ImageCandidate {
+  id: string;
+  url: string;
+  prompt?: PromptRecord; // Request that produced it (missing for uploads)
+  starred?: boolean;
+  createdAt: number;
+}
+
+// Handle to a long-running video generation (e.g. a Veo operation)
+export interface VideoOperation {
+  provider: AIProviderId; // Backend that owns the operation
+  name: string; // Operation name used for polling
+  startedAt: number; // Epoch ms, used for the polling time limit
+}
+
+// Image-to-video request: a storyboard's image becomes the first frame of the clip
+export interface PanelAnimation {
+  firstFrameUrl: string;
+  lastFrameUrl?: string; // Optional final frame, e.g. the next storyboard's image
+  motionPrompt?: string; // How things move; empty leaves it to the model
+  durationSeconds: number; // One of VIDEO_DURATIONS
+}
+
+export const VIDEO_DURATIONS = [4, 6, 8];
+
+export type PromptTemplateId = 'script' | 'image' | 'inpaint' | 'video' | 'animate' | 'characterDescribe' | 'locationDescribe';
+
+// Template texts replacing the built-in ones (services/promptTemplates.ts); missing ids keep the default
+export type PromptTemplateOverrides = Partial<Record<PromptTemplateId, string>>;
+
+// Exact request behind a generated script or asset, kept on the storyboard for inspection
+export interface PromptRecord {
+  templateId?: PromptTemplateId;
+  prompt: string; // Final text sent to the model
+  referenceImageUrls?: string[]; // Images sent along with the text
+  model: string;
+  provider: AIProviderId;
+  createdAt: number;
+}
+
+export type PromptRecordKind = 'script' | GenerationJobKind;
+
+// How panel images are tied to character and location references: descriptions only, or the images themselves too
+export type ReferenceConditioning = 'text' | 'images';
+
+// Shape of a panel (services/aspectRatios.ts); 'strip' is a tall 1:2 comic strip panel
+export type PanelAspectRatio = '1:1' | '4:3' | '16:9' | '9:16' | 'strip';
+
+// Inputs shared by every generation request of a project
+export interface PromptContext {
+  templates?: PromptTemplateOverrides; // Project overrides over user defaults
+  project?: Pick<Project, 'title' | 'summary' | 'mood'>;
+  referenceConditioning?: ReferenceConditioning; // Defaults to 'images'
+  variation?: number; // Index of the candidate being generated; deterministic providers vary their output with it
+  aspectRatio?: PanelAspectRatio; // Shape of the requested image or clip (defaults to 16:9)
+  onPrompt?: (record: PromptRecord) => void; // Called with each final prompt as it is sent
+}
+
+// Art direction for generated images and videos. Built-in presets ship with the app (services/stylePresets.ts);
+// custom ones are stored per user under users/{uid}/stylePresets.
+export interface StylePreset {
+  id: string;
+  name: string;
+  imagePrompt: string; // Style and technical specs for panel images
+  videoPrompt: string; // Style and technical specs for video clips
+  negativePrompt?: string; // What the model should avoid
+  referenceImageUrls?: string[]; // Optional style reference images
+  builtIn?: boolean;
+  createdAt?: number;
+}
+
 export interface Project {
   id: string;
   title: string;
@@ -34,6 +175,11 @@ export interface Project {
   selectedCharacterIds?: string[];
   sceneDescription?: string;
   mood?: string;
+  activeLocationId?: string; // Default location for storyboards without their own ('' for none)
+  stylePresetId?: string; // Art style for generation (defaults to DEFAULT_STYLE_PRESET_ID)
+  promptTemplates?: PromptTemplateOverrides; // Per-project prompt templates (over AppSettings.promptTemplates)
+  referenceConditioning?: ReferenceConditioning; // Panel image references (defaults to 'images')
+  aspectRatio?: PanelAspectRatio; // Default panel shape (defaults to 16:9)
 }
 
 export enum ViewState {
@@ -44,9 +190,64 @@ export enum ViewState {
   SETTINGS = 'SETTINGS',
 }
 
+export type AIProviderId = 'gemini' | 'fixture';
+
+export type GenerationJobKind = 'image' | 'video' | 'audio';
+export type GenerationJobStatus = 'queued' | 'running' | 'paused' | 'completed' | 'failed' | 'cancelled';
+
+// A single queued generation task, persisted under users/{uid}/projects/{projectId}/jobs
+export interface GenerationJob {
+  id: string;
+  projectId: string;
+  storyboardId: string;
+  kind: GenerationJobKind;
+  status: GenerationJobStatus;
+  attempts: number;
+  error?: string;
+  leaseOwner?: string; // Session running the job
+  leaseExpiresAt?: number; // Epoch ms; renewed while running, so an expired lease means the session is gone
+  createdAt: number;
+  updatedAt: number;
+}
+
+export type JobConcurrency = Record<GenerationJobKind, number>;
+
 export interface AppSettings {
   defaultNarratorVoiceId: string;
   storyboardDelay: number; // Duration in ms
+  aiProvider?: AIProviderId; // Backend used for all generation (defaults to 'gemini')
+  jobConcurrency?: JobConcurrency; // Max parallel queue jobs per kind
+  dialogueAudioMode?: DialogueAudioMode; // Defaults to 'conversation'
+  promptTemplates?: PromptTemplateOverrides; // User defaults for all projects
+  imageVariations?: number; // Candidates generated per image request (1-4, defaults to 1)
+}
+
+export const DEFAULT_JOB_CONCURRENCY: JobConcurrency = {
+  image: 2,
+  video: 1,
+  audio: 3,
+};
+
+export type RevisionReason = 'script' | 'batch' | 'autosave' | 'restore';
+
+// Snapshot of a project's storyboards, stored under users/{uid}/projects/{projectId}/revisions
+export interface ProjectRevision {
+  id: string;
+  projectId: string;
+  reason: RevisionReason; // What triggered the snapshot
+  title: string;
+  storyboards: Storyboard[];
+  createdAt: number;
+}
+
+// manifest.json of a project bundle (zip). Media URLs are replaced by paths inside the zip (e.g. "media/3.png").
+export interface ProjectBundleManifest {
+  format: 'stryp-project-bundle';
+  version: number;
+  exportedAt: number;
+  project: Project;
+  characters: Character[]; // Characters referenced by the project
+  locations: Location[]; // Locations referenced by the project
 }
 
 export interface LocationMedia {